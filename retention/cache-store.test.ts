@@ -0,0 +1,124 @@
+import { assertEquals } from "@std/assert";
+import { FileCacheStore, MemoryCacheStore } from "./cache-store.ts";
+import { GitHubClient } from "./github-api.ts";
+import { RequestLimiter } from "./rate-limit.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Memory store that lists its keys
+ */
+class InspectableStore extends MemoryCacheStore {
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Runs a test in a temporary directory
+ */
+async function withTempDir(test: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await test(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("FileCacheStore keeps entries across runs and drops those unused for a week", () =>
+  withTempDir(async dir => {
+    const path = `${dir}/cache.json`;
+
+    const first = await FileCacheStore.open(path);
+    assertEquals(await first.get("http:/issues"), undefined);
+    await first.set("http:/issues", { etag: '"v1"', data: [1, 2] });
+    await first.flush();
+
+    const second = await FileCacheStore.open(path);
+    assertEquals(await second.get("http:/issues"), { etag: '"v1"', data: [1, 2] });
+
+    const file = JSON.parse(await Deno.readTextFile(path));
+    file.entries["http:/stale"] = { value: "old", at: Date.now() - 8 * DAY_MS };
+    await Deno.writeTextFile(path, JSON.stringify(file));
+    const third = await FileCacheStore.open(path);
+    await third.flush();
+    assertEquals(Object.keys(JSON.parse(await Deno.readTextFile(path)).entries), ["http:/issues"]);
+  }));
+
+Deno.test("FileCacheStore starts empty from a file of another version or one it can't read", () =>
+  withTempDir(async dir => {
+    const path = `${dir}/cache.json`;
+    const { warn } = console;
+    const warnings: string[] = [];
+    console.warn = (...data: unknown[]) => void warnings.push(data.join(" "));
+    try {
+      await Deno.writeTextFile(path, JSON.stringify({ version: 0, entries: { a: { value: 1, at: Date.now() } } }));
+      assertEquals(await (await FileCacheStore.open(path)).get("a"), undefined);
+
+      await Deno.writeTextFile(path, "{ truncated");
+      const store = await FileCacheStore.open(path);
+      assertEquals(await store.get("a"), undefined);
+      // Saving replaces the unreadable file
+      await store.set("a", 2);
+      await store.flush();
+      assertEquals(await (await FileCacheStore.open(path)).get("a"), 2);
+    } finally {
+      console.warn = warn;
+    }
+    assertEquals(warnings.length, 1);
+    assertEquals(warnings[0].startsWith(`⚠️ Ignoring unreadable cache file ${path}:`), true);
+  }));
+
+Deno.test("evict drops the matching entries, flush those unused for a week", async () => {
+  const store = new InspectableStore();
+  await store.set("comments:acme/qa#1", []);
+  await store.set("comments:acme/qa#2", []);
+  await store.evict(key => key.endsWith("#1"));
+  assertEquals(store.keys(), ["comments:acme/qa#2"]);
+
+  const realNow = Date.now;
+  try {
+    Date.now = () => realNow() + 8 * DAY_MS;
+    await store.set("comments:acme/qa#3", []);
+    await store.flush();
+  } finally {
+    Date.now = realNow;
+  }
+  assertEquals(store.keys(), ["comments:acme/qa#3"]);
+});
+
+Deno.test("a 304 is answered from the cache, a changed response replaces it, and comment pages aren't stored", async () => {
+  let version = 1;
+  const conditional: Array<string | null> = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, request => {
+    const { pathname } = new URL(request.url);
+    if (pathname.endsWith("/comments")) {
+      return Response.json([{ id: 1, created_at: "2026-10-19T10:00:00Z", updated_at: "2026-10-19T10:00:00Z", user: { login: "bob" }, body: "hi" }], {
+        headers: { etag: '"comments"' },
+      });
+    }
+    const etag = `"v${version}"`;
+    conditional.push(request.headers.get("if-none-match"));
+    if (request.headers.get("if-none-match") === etag) return new Response(null, { status: 304 });
+    return Response.json([{ content: version === 1 ? "+1" : "heart", created_at: "2026-10-19T10:00:00Z", user: { login: "bob" } }], {
+      headers: { etag },
+    });
+  });
+
+  try {
+    const store = new InspectableStore();
+    const client = new GitHubClient("test-token", "acme", "qa", false, new RequestLimiter(4, 0), store, `http://127.0.0.1:${server.addr.port}`);
+
+    assertEquals((await client.listReactions(1)).map(r => r.content), ["+1"]);
+    assertEquals((await client.listReactions(1)).map(r => r.content), ["+1"]);
+    version = 2;
+    assertEquals((await client.listReactions(1)).map(r => r.content), ["heart"]);
+    assertEquals(conditional, [null, '"v1"', '"v1"']);
+
+    assertEquals((await client.listComments(1)).map(c => c.body), ["hi"]);
+    assertEquals(store.keys().map(key => key.replace(/^http:http:\/\/[^/]+/, "http:")), ["http:/repos/acme/qa/issues/1/reactions?per_page=100"]);
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,98 @@
+/**
+ * Entries not read or written for this long are dropped when the cache is flushed
+ */
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Version of the cache file format. Files with another version are ignored.
+ */
+const FILE_VERSION = 1;
+
+interface StoredEntry {
+  value: unknown;
+  /** Last time the entry was read or written, in epoch milliseconds */
+  at: number;
+}
+
+/**
+ * Key-value store for API responses. `flush` drops stale entries and persists the others, if the
+ * store is persistent.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  /** Drops the entries whose key matches, e.g. those of issues that were closed */
+  evict(matches: (key: string) => boolean): Promise<void>;
+  flush(): Promise<void>;
+}
+
+/**
+ * Cache kept in memory for the duration of the process
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, StoredEntry>();
+
+  get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) entry.at = Date.now();
+    return Promise.resolve(entry?.value as T | undefined);
+  }
+
+  set<T>(key: string, value: T): Promise<void> {
+    this.entries.set(key, { value, at: Date.now() });
+    return Promise.resolve();
+  }
+
+  evict(matches: (key: string) => boolean): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (matches(key)) this.entries.delete(key);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Drops the entries not used within MAX_AGE_MS
+   */
+  flush(): Promise<void> {
+    const cutoff = Date.now() - MAX_AGE_MS;
+    return this.evict(key => this.entries.get(key)!.at < cutoff);
+  }
+}
+
+/**
+ * Cache stored in a JSON file, so responses can be revalidated by later runs. The file is read
+ * once when opened and rewritten on `flush`.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private constructor(private path: string) {
+    super();
+  }
+
+  /**
+   * Opens the cache file, starting empty if it doesn't exist or can't be read
+   */
+  static async open(path: string): Promise<FileCacheStore> {
+    const store = new FileCacheStore(path);
+    try {
+      const file = JSON.parse(await Deno.readTextFile(path)) as { version?: number; entries?: Record<string, StoredEntry> };
+      if (file.version === FILE_VERSION && file.entries) {
+        store.entries = new Map(Object.entries(file.entries));
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`⚠️ Ignoring unreadable cache file ${path}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return store;
+  }
+
+  /**
+   * Writes the entries used within MAX_AGE_MS to the file, replacing it atomically
+   */
+  override async flush(): Promise<void> {
+    await super.flush();
+    const tmp = `${this.path}.tmp`;
+    await Deno.writeTextFile(tmp, JSON.stringify({ version: FILE_VERSION, entries: Object.fromEntries(this.entries) }));
+    await Deno.rename(tmp, this.path);
+  }
+}
@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert";
+import { addWorkingHours, workingHoursBetween } from "./calendar.ts";
+import { WorkingCalendar } from "./types.ts";
+
+const office: WorkingCalendar = {
+  timezone: "Europe/Berlin",
+  workingDays: [1, 2, 3, 4, 5],
+  startMinute: 9 * 60,
+  endMinute: 17 * 60,
+  holidays: [],
+};
+
+const allDay = (timezone: string): WorkingCalendar => ({
+  timezone,
+  workingDays: [0, 1, 2, 3, 4, 5, 6],
+  startMinute: 0,
+  endMinute: 24 * 60,
+  holidays: [],
+});
+
+const at = (iso: string) => new Date(iso);
+
+Deno.test("a day around the clock lasts 23 or 25 hours when the clocks change", () => {
+  // Berlin midnight to midnight, CET to CEST and back
+  assertEquals(workingHoursBetween(allDay("Europe/Berlin"), at("2026-03-28T23:00:00Z"), at("2026-03-29T22:00:00Z")), 23);
+  assertEquals(workingHoursBetween(allDay("Europe/Berlin"), at("2026-10-24T22:00:00Z"), at("2026-10-25T23:00:00Z")), 25);
+  // New York midnight to midnight, EDT to EST
+  assertEquals(workingHoursBetween(allDay("America/New_York"), at("2026-11-01T04:00:00Z"), at("2026-11-02T05:00:00Z")), 25);
+});
+
+Deno.test("counting around the clock over weeks and DST changes gives the elapsed hours", () => {
+  for (const timezone of ["Europe/Berlin", "America/New_York", "Australia/Sydney", "UTC"]) {
+    const calendar = allDay(timezone);
+    for (let start = Date.UTC(2026, 0, 1, 7, 30); start < Date.UTC(2027, 0, 1); start += 13 * 86400000 + 5 * 3600000) {
+      const from = new Date(start);
+      const to = new Date(start + 40 * 86400000 + 11 * 3600000);
+      assertEquals(workingHoursBetween(calendar, from, to), (to.getTime() - from.getTime()) / 3600000, `${timezone} from ${from.toISOString()}`);
+      assertEquals(addWorkingHours(calendar, from, 24 * 40 + 11), to, `${timezone} from ${from.toISOString()}`);
+    }
+  }
+});
+
+Deno.test("working hours keep to local time across a DST change", () => {
+  // Friday 16:00 CET plus two working hours is Monday 10:00 CEST
+  assertEquals(addWorkingHours(office, at("2026-03-27T15:00:00Z"), 2), at("2026-03-30T08:00:00Z"));
+  // Friday 16:30 CEST to Monday 09:30 CET is one working hour, over the weekend the clocks go back
+  assertEquals(workingHoursBetween(office, at("2026-10-23T14:30:00Z"), at("2026-10-26T08:30:00Z")), 1);
+  // Four weeks over the change, Monday 09:00 to Monday 09:00
+  assertEquals(workingHoursBetween(office, at("2026-10-12T07:00:00Z"), at("2026-11-09T08:00:00Z")), 4 * 5 * 8);
+});
+
+Deno.test("weekends don't count and time added on a weekend starts on Monday", () => {
+  // Friday 17:00 to Monday 09:00
+  assertEquals(workingHoursBetween(office, at("2026-10-16T15:00:00Z"), at("2026-10-19T07:00:00Z")), 0);
+  // Friday 16:59 to Monday 09:01
+  assertEquals(workingHoursBetween(office, at("2026-10-16T14:59:00Z"), at("2026-10-19T07:01:00Z")), 2 / 60);
+  // Friday at the end of the day, and Saturday noon
+  assertEquals(addWorkingHours(office, at("2026-10-16T15:00:00Z"), 0.5), at("2026-10-19T07:30:00Z"));
+  assertEquals(addWorkingHours(office, at("2026-10-17T10:00:00Z"), 1), at("2026-10-19T08:00:00Z"));
+  assertEquals(addWorkingHours(office, at("2026-10-17T10:00:00Z"), 0), at("2026-10-19T07:00:00Z"));
+});
+
+Deno.test("holidays don't count, also inside whole weeks", () => {
+  const calendar = { ...office, holidays: ["2026-12-24", "2026-12-25", "2027-01-01"] };
+
+  // Wednesday 16:00 plus two working hours skips Christmas and the weekend
+  assertEquals(addWorkingHours(calendar, at("2026-12-23T15:00:00Z"), 2), at("2026-12-28T09:00:00Z"));
+  // Monday 21 December to Monday 4 January: 10 weekdays, 3 of them holidays
+  assertEquals(workingHoursBetween(calendar, at("2026-12-21T08:00:00Z"), at("2027-01-04T08:00:00Z")), 7 * 8);
+  assertEquals(workingHoursBetween(office, at("2026-12-21T08:00:00Z"), at("2027-01-04T08:00:00Z")), 10 * 8);
+});
+
+Deno.test("adding the working hours between two instants lands on the later one", () => {
+  const calendar = { ...office, holidays: ["2026-12-24", "2027-04-02"] };
+  const from = at("2026-10-19T10:15:00Z");
+  for (const hours of [0.25, 7, 8, 45, 160, 1000, 2000]) {
+    const until = addWorkingHours(calendar, from, hours);
+    assertEquals(workingHoursBetween(calendar, from, until), hours, `${hours} hours`);
+  }
+});
@@ -0,0 +1,229 @@
+import { WorkingCalendar } from "./types.ts";
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Safety limit for calendar walks, so a misconfigured calendar can't loop forever
+ */
+const MAX_DAYS = 3660;
+
+/**
+ * Local calendar date in the calendar's timezone
+ */
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Parses a comma-separated list of day names (`mon,tue,...`) into day indexes (0 = Sunday)
+ */
+export function parseWorkingDays(value: string): number[] {
+  const days = value.split(",").map(d => d.trim().toLowerCase().slice(0, 3)).filter(Boolean);
+  const invalid = days.filter(d => !DAY_NAMES.includes(d));
+  if (invalid.length > 0 || days.length === 0) {
+    throw new Error(`Invalid working days "${value}", expected e.g. "mon,tue,wed,thu,fri"`);
+  }
+  return [...new Set(days.map(d => DAY_NAMES.indexOf(d)))];
+}
+
+/**
+ * Parses working hours like `09:00-17:00` into minutes since midnight
+ */
+export function parseWorkingHours(value: string): { startMinute: number; endMinute: number } {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  const [startMinute, endMinute] = match
+    ? [Number(match[1]) * 60 + Number(match[2]), Number(match[3]) * 60 + Number(match[4])]
+    : [NaN, NaN];
+  if (!(startMinute >= 0 && endMinute <= 24 * 60 && startMinute < endMinute)) {
+    throw new Error(`Invalid working hours "${value}", expected e.g. "09:00-17:00"`);
+  }
+  return { startMinute, endMinute };
+}
+
+/**
+ * Validates a timezone name
+ */
+export function validateTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Invalid timezone "${timezone}", expected an IANA name like "Europe/Berlin"`);
+  }
+}
+
+/**
+ * Formatters by timezone; building one is far slower than using it
+ */
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the local date and the timezone offset (ms) of an instant in a timezone
+ */
+function getZonedParts(date: Date, timezone: string): LocalDate & { offset: number } {
+  const parts = Object.fromEntries(
+    getZonedFormatter(timezone).formatToParts(date).map(p => [p.type, Number(p.value)]),
+  );
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    offset: asUtc - Math.floor(date.getTime() / 1000) * 1000,
+  };
+}
+
+/**
+ * Converts a local wall-clock time in a timezone to an instant
+ */
+function fromZonedTime(local: LocalDate, minuteOfDay: number, timezone: string): Date {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, 0, minuteOfDay);
+  const first = guess - getZonedParts(new Date(guess), timezone).offset;
+  // Re-check the offset at the result in case the guess crossed a DST change
+  return new Date(guess - getZonedParts(new Date(first), timezone).offset);
+}
+
+/**
+ * Returns the local date `days` days after `local`
+ */
+function addDays(local: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+const compareLocalDates = (a: LocalDate, b: LocalDate): number =>
+  Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+
+const formatLocalDate = ({ year, month, day }: LocalDate): string =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+function isWorkingDay(calendar: WorkingCalendar, local: LocalDate): boolean {
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+  return calendar.workingDays.includes(weekday) && !calendar.holidays.includes(formatLocalDate(local));
+}
+
+/**
+ * Returns the working time (ms) of the week starting at `local`, if it can be counted without walking its days:
+ * when the timezone offset doesn't change during the week, every working day lasts exactly its working hours
+ */
+function getWeekWorkingTime(calendar: WorkingCalendar, local: LocalDate): number | undefined {
+  // A day's margin on both sides covers the local week under any offset
+  const start = Date.UTC(local.year, local.month - 1, local.day) - DAY_MS;
+  const end = start + 9 * DAY_MS;
+  if (getZonedParts(new Date(start), calendar.timezone).offset !== getZonedParts(new Date(end), calendar.timezone).offset) {
+    return undefined;
+  }
+  let workingDays = 0;
+  for (let i = 0; i < 7; i++) {
+    if (isWorkingDay(calendar, addDays(local, i))) workingDays++;
+  }
+  return workingDays * (calendar.endMinute - calendar.startMinute) * 60000;
+}
+
+/**
+ * Returns the working interval of a local day, or undefined for weekends and holidays
+ */
+function getWorkingInterval(calendar: WorkingCalendar, local: LocalDate): [number, number] | undefined {
+  if (!isWorkingDay(calendar, local)) return undefined;
+  return [
+    fromZonedTime(local, calendar.startMinute, calendar.timezone).getTime(),
+    fromZonedTime(local, calendar.endMinute, calendar.timezone).getTime(),
+  ];
+}
+
+/**
+ * Counts the working hours between two instants
+ */
+export function workingHoursBetween(calendar: WorkingCalendar, from: Date, to: Date): number {
+  if (to.getTime() <= from.getTime()) return 0;
+
+  let total = 0;
+  const first: LocalDate = getZonedParts(from, calendar.timezone);
+  const last: LocalDate = getZonedParts(to, calendar.timezone);
+  let local = first;
+  while (compareLocalDates(local, last) <= 0) {
+    // Weeks strictly between the first and last day are counted whole
+    if (compareLocalDates(local, first) > 0 && compareLocalDates(addDays(local, 7), last) <= 0) {
+      const week = getWeekWorkingTime(calendar, local);
+      if (week !== undefined) {
+        total += week;
+        local = addDays(local, 7);
+        continue;
+      }
+    }
+    const interval = getWorkingInterval(calendar, local);
+    if (interval) {
+      const start = Math.max(interval[0], from.getTime());
+      const end = Math.min(interval[1], to.getTime());
+      if (end > start) total += end - start;
+    }
+    local = addDays(local, 1);
+  }
+  return total / HOUR_MS;
+}
+
+/**
+ * Returns the instant at which `hours` working hours have elapsed after `from`
+ */
+export function addWorkingHours(calendar: WorkingCalendar, from: Date, hours: number): Date {
+  let remaining = hours * HOUR_MS;
+  let local: LocalDate = getZonedParts(from, calendar.timezone);
+  for (let i = 0; i < MAX_DAYS; i++) {
+    // Skip whole weeks while more than a week's working time remains
+    const week = i > 0 ? getWeekWorkingTime(calendar, local) : undefined;
+    if (week !== undefined && remaining > week) {
+      remaining -= week;
+      local = addDays(local, 7);
+      i += 6;
+      continue;
+    }
+    const interval = getWorkingInterval(calendar, local);
+    if (interval) {
+      const start = Math.max(interval[0], from.getTime());
+      const available = interval[1] - start;
+      if (available > 0) {
+        if (remaining <= available) return new Date(start + remaining);
+        remaining -= available;
+      }
+    }
+    local = addDays(local, 1);
+  }
+  throw new Error(`Working calendar has no working time within ${MAX_DAYS} days`);
+}
+
+/**
+ * Formats an instant as a readable date and time in the given timezone and locale
+ */
+export function formatDateTime(date: Date, timezone = "UTC", locale = "en-GB"): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: timezone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(date);
+}
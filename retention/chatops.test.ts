@@ -0,0 +1,122 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  generateAckMessage,
+  getAcknowledgedIds,
+  getCommandsSince,
+  getCommandState,
+  parseCommand,
+  parseCommands,
+} from "./chatops.ts";
+import { formatMarker, parseMarker } from "./state-machine.ts";
+import { Issue, IssueComment, IssueEvent } from "./types.ts";
+
+const BOT = "github-actions[bot]";
+
+let nextId = 1;
+const comment = (login: string, body: string, created_at: string): IssueComment =>
+  ({ id: nextId++, created_at, user: { login }, body });
+
+const instance = (comments: IssueComment[], events?: IssueEvent[]): Issue => ({
+  number: 1,
+  title: "QA-Instance ready: checkout",
+  created_at: "2026-10-01T00:00:00Z",
+  updated_at: "2026-10-19T00:00:00Z",
+  user: { login: "alice" },
+  labels: [],
+  comments,
+  events,
+});
+
+const stateOf = (issue: Issue) =>
+  getCommandState(parseCommands(issue.comments!, BOT, getCommandsSince(issue, BOT)));
+
+Deno.test("/extend grants hours or days, up to 30 days", () => {
+  const command = (body: string) => parseCommand(comment("bob", body, "2026-10-19T10:00:00Z"));
+
+  assertEquals(command("/extend 72h")?.command, { type: "extend", hours: 72 });
+  assertEquals(command("Still needed\n  /extend 3d  \nthanks")?.command, { type: "extend", hours: 72 });
+  assertEquals(command("/extend 1.5D")?.command, { type: "extend", hours: 36 });
+  assertEquals(command("/extend")?.error, "`/extend` needs a duration like `72h` or `3d`, got: `nothing`");
+  assertEquals(command("/extend 0h")?.error, "`/extend` needs a duration like `72h` or `3d`, got: `0h`");
+  assertEquals(command("/extend 2 weeks")?.error, "`/extend` needs a duration like `72h` or `3d`, got: `2 weeks`");
+  assertEquals(command("/extend 31d")?.error, "`/extend` can grant at most 720h, got: 744h");
+  assertEquals(command("please don't /extend 3d"), undefined);
+});
+
+Deno.test("/keep-until takes a future date or timestamp", () => {
+  const command = (body: string) => parseCommand(comment("bob", body, "2026-10-19T10:00:00Z"));
+
+  assertEquals(command("/keep-until 2026-11-01")?.command, { type: "keep-until", until: new Date("2026-11-01T23:59:59Z") });
+  assertEquals(command("/keep-until 2026-10-20T08:00:00Z")?.command, { type: "keep-until", until: new Date("2026-10-20T08:00:00Z") });
+  assertEquals(command("/keep-until next week")?.error, "`/keep-until` needs a date like `2026-11-01`, got: `next week`");
+  assertEquals(command("/keep-until 2026-10-01")?.error, "`/keep-until` date must be in the future, got: 2026-10-01T23:59:59.000Z");
+  assertEquals(command("/release now")?.error, "`/release` takes no arguments, got: `now`");
+});
+
+Deno.test("the latest valid command wins and invalid ones are ignored", () => {
+  const issue = instance([
+    comment("bob", "/release", "2026-10-18T09:00:00Z"),
+    comment("carol", "/extend 24h", "2026-10-18T10:00:00Z"),
+    comment("dave", "/keep-until yesterday", "2026-10-18T11:00:00Z"),
+  ]);
+  assertEquals(stateOf(issue), { released: false, extendedUntil: new Date("2026-10-19T10:00:00Z") });
+
+  issue.comments!.push(comment("bob", "/keep-until 2026-11-01", "2026-10-18T12:00:00Z"));
+  assertEquals(stateOf(issue), { released: false, keepUntil: new Date("2026-11-01T23:59:59Z") });
+
+  issue.comments!.push(comment("bob", "/release", "2026-10-18T13:00:00Z"));
+  assertEquals(stateOf(issue), { released: true, releasedBy: "bob" });
+});
+
+Deno.test("commands posted by the bot itself are not obeyed", () => {
+  const release = comment("bob", "/extend 24h", "2026-10-18T10:00:00Z");
+  const ack = comment(BOT, generateAckMessage(parseCommand(release)!), "2026-10-18T10:05:00Z");
+  const issue = instance([
+    release,
+    ack,
+    // e.g. a message template that happens to start a line with a command
+    comment(BOT, "Reply with\n/release\nwhen you're done", "2026-10-18T11:00:00Z"),
+  ]);
+
+  assertEquals(parseCommands(issue.comments!, BOT).map(c => c.user), ["bob"]);
+  assertEquals(stateOf(issue).released, false);
+  assertEquals(getAcknowledgedIds(issue.comments!, BOT), new Set([release.id]));
+  // An ack quotes the command without repeating it as a command
+  assertStringIncludes(ack.body!, "> /extend 24h");
+  assertEquals(parseCommand({ ...ack, user: { login: "bob" } })?.command?.type, undefined);
+});
+
+Deno.test("a /release from before the bot closed the instance doesn't close it again once reopened", () => {
+  const release = comment("bob", "/release", "2026-10-18T06:00:00Z");
+  const issue = instance(
+    [
+      release,
+      comment(BOT, generateAckMessage(parseCommand(release)!), "2026-10-18T06:05:00Z"),
+      comment(BOT, `Closed: released with \`/release\`\n${formatMarker("closed", new Date("2026-10-18T07:00:00Z"))}`, "2026-10-18T07:00:00Z"),
+      comment("carol", "Reopening, we still need this one", "2026-10-19T11:00:00Z"),
+    ],
+    [{ event: "reopened", created_at: "2026-10-19T10:00:00Z", actor: { login: "carol" } }],
+  );
+
+  assertEquals(getCommandsSince(issue, BOT), new Date("2026-10-19T10:00:00Z"));
+  assertEquals(stateOf(issue), { released: false });
+
+  // Without timeline events the bot's close marker is enough
+  assertEquals(getCommandsSince({ ...issue, events: undefined }, BOT), new Date("2026-10-18T07:00:00Z"));
+  assertEquals(stateOf({ ...issue, events: undefined }), { released: false });
+
+  // A command posted after the reopen counts again
+  issue.comments!.push(comment("carol", "/release", "2026-10-19T12:00:00Z"));
+  assertEquals(stateOf(issue), { released: true, releasedBy: "carol" });
+});
+
+Deno.test("getCommandsSince ignores close markers that weren't written by the bot", () => {
+  const issue = instance([
+    comment("mallory", formatMarker("closed", new Date("2026-10-18T07:00:00Z")), "2026-10-18T07:00:00Z"),
+    comment("bob", "/release", "2026-10-18T06:00:00Z"),
+  ]);
+
+  assertEquals(parseMarker(issue.comments![0].body)?.state, "closed");
+  assertEquals(getCommandsSince(issue, BOT), undefined);
+  assertEquals(stateOf(issue).released, true);
+});
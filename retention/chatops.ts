@@ -0,0 +1,171 @@
+import { ChatOpsCommand, CommandState, Issue, IssueComment, ParsedCommand } from "./types.ts";
+import { formatMarker, parseMarker } from "./state-machine.ts";
+
+const COMMAND_PATTERN = /^\/(extend|keep-until|release)\b(.*)$/;
+const ACK_MARKER_PATTERN = /<!-- retention-ack:(\d+) -->/;
+
+/**
+ * Longest extension a single `/extend` may grant
+ */
+const MAX_EXTENSION_HOURS = 24 * 30;
+
+/**
+ * Parses a duration such as `72h` or `3d` into hours
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([hd])$/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  return match[2].toLowerCase() === 'd' ? amount * 24 : amount;
+}
+
+/**
+ * Parses a `/keep-until` date. Plain dates (`2026-11-01`) mean the end of that day in UTC.
+ */
+function parseKeepUntil(value: string): Date | undefined {
+  const trimmed = value.trim();
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(trimmed)
+    ? new Date(`${trimmed}T23:59:59Z`)
+    : new Date(trimmed);
+  return trimmed && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Parses the command arguments, returning either the command or an error message
+ */
+function parseArguments(name: string, args: string, createdAt: Date): ChatOpsCommand | string {
+  switch (name) {
+    case 'extend': {
+      const hours = parseDuration(args);
+      if (hours === undefined || hours <= 0) {
+        return `\`/extend\` needs a duration like \`72h\` or \`3d\`, got: \`${args.trim() || "nothing"}\``;
+      }
+      if (hours > MAX_EXTENSION_HOURS) {
+        return `\`/extend\` can grant at most ${MAX_EXTENSION_HOURS}h, got: ${hours}h`;
+      }
+      return { type: 'extend', hours };
+    }
+    case 'keep-until': {
+      const until = parseKeepUntil(args);
+      if (!until) {
+        return `\`/keep-until\` needs a date like \`2026-11-01\`, got: \`${args.trim() || "nothing"}\``;
+      }
+      if (until.getTime() <= createdAt.getTime()) {
+        return `\`/keep-until\` date must be in the future, got: ${until.toISOString()}`;
+      }
+      return { type: 'keep-until', until };
+    }
+    default:
+      return args.trim() ? `\`/release\` takes no arguments, got: \`${args.trim()}\`` : { type: 'release' };
+  }
+}
+
+/**
+ * Parses the first ChatOps command in a comment, if any
+ */
+export function parseCommand(comment: IssueComment): ParsedCommand | undefined {
+  const line = comment.body?.split(/\r?\n/).map(l => l.trim()).find(l => COMMAND_PATTERN.test(l));
+  if (!line) return undefined;
+
+  const [, name, args] = line.match(COMMAND_PATTERN)!;
+  const date = new Date(comment.created_at);
+  const result = parseArguments(name, args, date);
+
+  return {
+    commentId: comment.id,
+    user: comment.user.login,
+    date,
+    raw: line,
+    ...(typeof result === 'string' ? { error: result } : { command: result }),
+  };
+}
+
+/**
+ * Parses all commands posted by humans on an issue, oldest first. Commands posted before `since`
+ * are left out.
+ */
+export function parseCommands(comments: IssueComment[], botUsername: string, since?: Date): ParsedCommand[] {
+  return comments
+    .filter(c => c.user.login !== botUsername)
+    .map(parseCommand)
+    .filter((c): c is ParsedCommand => c !== undefined && (!since || c.date.getTime() > since.getTime()))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Returns when an instance was last closed by the bot or reopened, if ever. Commands from before
+ * then were meant for its earlier life: a `/release` that got it closed must not close it again
+ * once it's reopened. Reopens are only known when timeline events were fetched.
+ */
+export function getCommandsSince(issue: Issue, botUsername: string): Date | undefined {
+  const closedAt = (issue.comments ?? [])
+    .filter(c => c.user.login === botUsername)
+    .map(c => parseMarker(c.body))
+    .filter(marker => marker?.state === 'closed')
+    .map(marker => new Date(marker!.at).getTime());
+  const reopenedAt = (issue.events ?? [])
+    .filter(e => e.event === 'reopened')
+    .map(e => new Date(e.created_at).getTime());
+  const latest = Math.max(...closedAt, ...reopenedAt);
+  return Number.isFinite(latest) ? new Date(latest) : undefined;
+}
+
+/**
+ * Derives the effect of the commands on an issue. The latest valid command wins.
+ */
+export function getCommandState(commands: ParsedCommand[]): CommandState {
+  const latest = commands.filter(c => c.command).at(-1);
+  switch (latest?.command?.type) {
+    case 'extend':
+      return {
+        released: false,
+        extendedUntil: new Date(latest.date.getTime() + latest.command.hours * 3600000),
+      };
+    case 'keep-until':
+      return { released: false, keepUntil: latest.command.until };
+    case 'release':
+      return { released: true, releasedBy: latest.user };
+    default:
+      return { released: false };
+  }
+}
+
+/**
+ * Returns the ids of command comments the bot has already replied to
+ */
+export function getAcknowledgedIds(comments: IssueComment[], botUsername: string): Set<number> {
+  return new Set(
+    comments
+      .filter(c => c.user.login === botUsername)
+      .map(c => c.body?.match(ACK_MARKER_PATTERN)?.[1])
+      .filter((id): id is string => id !== undefined)
+      .map(Number),
+  );
+}
+
+/**
+ * Builds the reply comment acknowledging (or rejecting) a command
+ */
+export function generateAckMessage(command: ParsedCommand): string {
+  const marker = `<!-- retention-ack:${command.commentId} -->`;
+  const quote = `> ${command.raw}`;
+
+  if (!command.command) {
+    return `${quote}\n\n❌ @${command.user} ${command.error}\n\n` +
+      `Supported commands: \`/extend <duration>\`, \`/keep-until <date>\`, \`/release\`\n${marker}`;
+  }
+
+  switch (command.command.type) {
+    case 'extend': {
+      const until = new Date(command.date.getTime() + command.command.hours * 3600000);
+      return `${quote}\n\n✅ @${command.user} extended by ${command.command.hours}h. ` +
+        `The inactivity clock restarts at ${until.toISOString()}.\n${marker}\n` +
+        formatMarker('extended', command.date, { until });
+    }
+    case 'keep-until':
+      return `${quote}\n\n✅ @${command.user} this instance is kept until ${command.command.until.toISOString()}.\n${marker}\n` +
+        formatMarker('extended', command.date, { until: command.command.until });
+    case 'release':
+      return `${quote}\n\n✅ @${command.user} released. This instance will be closed by the retention check.\n${marker}`;
+  }
+}
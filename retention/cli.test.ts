@@ -0,0 +1,44 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { CliError, EXIT_CODES, parseCli, parseIssueReference } from "./cli.ts";
+
+Deno.test("runs the retention check by default", () => {
+  assertEquals(parseCli([]), { command: "run", args: [], env: {}, help: false });
+});
+
+Deno.test("flags anywhere on the line set the env vars they override", () => {
+  const options = parseCli(["--dry-run", "extend", "acme/qa#42", "--repo=acme/qa", "3d", "--retention-hours", "12"]);
+  assertEquals(options.command, "extend");
+  assertEquals(options.args, ["acme/qa#42", "3d"]);
+  assertEquals(options.env, {
+    DRY_RUN: "true",
+    GITHUB_REPOS: "acme/qa",
+    RETENTION_HOURS: "12",
+    FORCE_THRESHOLDS: "true",
+  });
+});
+
+Deno.test("--help skips the argument checks", () => {
+  assertEquals(parseCli(["close", "--help"]).help, true);
+  assertEquals(parseCli(["-h", "bogus"]).help, true);
+});
+
+Deno.test("invalid command lines are usage errors", () => {
+  const usageError = (argv: string[], message: string) => {
+    const error = assertThrows(() => parseCli(argv), CliError, message);
+    assertEquals(error.exitCode, EXIT_CODES.usage);
+  };
+  usageError(["bogus"], "Unknown command: bogus");
+  usageError(["--verbose"], "Unknown flag: --verbose");
+  usageError(["status", "--repo"], "--repo needs a value");
+  usageError(["status", "--dry-run=yes"], "--dry-run takes no value");
+  usageError(["explain"], "Usage: explain <issue>");
+  usageError(["status", "42"], "Usage: status");
+  usageError(["extend", "42", "soon"], "Expected a duration like 72h or 3d");
+  usageError(["close", "acme/qa42"], "Expected an issue like 42 or owner/name#42");
+});
+
+Deno.test("issues are given by number, optionally with their repository", () => {
+  assertEquals(parseIssueReference("42"), { number: 42 });
+  assertEquals(parseIssueReference("#42"), { number: 42 });
+  assertEquals(parseIssueReference("acme/qa-env.v2#42"), { repository: "acme/qa-env.v2", number: 42 });
+});
@@ -0,0 +1,253 @@
+import { parseDuration } from "./chatops.ts";
+
+/**
+ * Exit codes of the command line, so scripts can tell failures apart
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** The run finished, but some repositories or operations failed */
+  failed: 1,
+  /** Unknown command or flag, or invalid arguments */
+  usage: 2,
+  /** The configuration (env vars, flags or settings files) is invalid */
+  config: 3,
+  /** The issue does not exist or is not an open QA instance */
+  notFound: 4,
+  /** GitHub rejected a request or could not be reached */
+  github: 5,
+} as const;
+
+/**
+ * An error that ends the command line with a specific exit code
+ */
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+  }
+}
+
+/**
+ * A flag and the env vars it sets, which take precedence over the environment
+ */
+interface Flag {
+  name: string;
+  /** Placeholder of the flag's value in the help; boolean flags have none */
+  value?: string;
+  description: string;
+  env: (value: string) => Record<string, string>;
+}
+
+const FLAGS: Flag[] = [
+  {
+    name: "repo",
+    value: "owner/name,...",
+    description: "Repositories to scan (GITHUB_REPOS)",
+    env: value => ({ GITHUB_REPOS: value }),
+  },
+  {
+    name: "org",
+    value: "org",
+    description: "Scan the repositories of an organization (GITHUB_ORG)",
+    env: value => ({ GITHUB_ORG: value }),
+  },
+  {
+    name: "retention-hours",
+    value: "hours",
+    description: "Inactive hours before a warning, for every policy (RETENTION_HOURS)",
+    env: value => ({ RETENTION_HOURS: value, FORCE_THRESHOLDS: "true" }),
+  },
+  {
+    name: "inactivity-hours",
+    value: "hours",
+    description: "Hours after the warning before closing, for every policy (INACTIVITY_THRESHOLD_HOURS)",
+    env: value => ({ INACTIVITY_THRESHOLD_HOURS: value, FORCE_THRESHOLDS: "true" }),
+  },
+  {
+    name: "policies",
+    value: "file",
+    description: "Retention policies file (RETENTION_POLICIES_FILE)",
+    env: value => ({ RETENTION_POLICIES_FILE: value }),
+  },
+  {
+    name: "overrides",
+    value: "file",
+    description: "Repository overrides file (REPOSITORY_OVERRIDES_FILE)",
+    env: value => ({ REPOSITORY_OVERRIDES_FILE: value }),
+  },
+  {
+    name: "max-instances",
+    value: "n",
+    description: "Most open QA instances per repository (MAX_INSTANCES)",
+    env: value => ({ MAX_INSTANCES: value }),
+  },
+  {
+    name: "locale",
+    value: "locale",
+    description: "Locale of the messages (MESSAGE_LOCALE)",
+    env: value => ({ MESSAGE_LOCALE: value }),
+  },
+  {
+    name: "data-source",
+    value: "graphql|rest",
+    description: "API used to read issues (DATA_SOURCE)",
+    env: value => ({ DATA_SOURCE: value }),
+  },
+  {
+    name: "cache-file",
+    value: "file",
+    description: "File caching API responses across runs (CACHE_FILE)",
+    env: value => ({ CACHE_FILE: value }),
+  },
+  {
+    name: "dry-run",
+    description: "Report planned actions without changing anything (DRY_RUN)",
+    env: () => ({ DRY_RUN: "true" }),
+  },
+  {
+    name: "dry-run-output",
+    value: "file",
+    description: "Write the dry-run plan to a JSON file (DRY_RUN_OUTPUT)",
+    env: value => ({ DRY_RUN_OUTPUT: value }),
+  },
+  {
+    name: "debug",
+    description: "Log details of every decision and request (DEBUG)",
+    env: () => ({ DEBUG: "true" }),
+  },
+];
+
+/**
+ * Subcommands with their positional arguments
+ */
+const COMMANDS: Record<string, { args: string[]; description: string }> = {
+  run: { args: [], description: "Run the retention check once (default)" },
+  status: { args: [], description: "List the QA instances and when they will be warned and closed" },
+  explain: { args: ["issue"], description: "Show the state of an instance and why it will (not) be warned or closed" },
+  extend: { args: ["issue", "duration"], description: "Extend an instance, like /extend (e.g. 72h, 3d)" },
+  close: { args: ["issue"], description: "Close an instance now and tear down its environment" },
+  serve: { args: [], description: "Run the webhook server" },
+  daemon: { args: [], description: "Run the retention check on SCHEDULE until stopped" },
+};
+
+/**
+ * A parsed command line
+ */
+export interface CliOptions {
+  command: string;
+  args: string[];
+  /** Env vars set by flags */
+  env: Record<string, string>;
+  help: boolean;
+}
+
+/**
+ * An issue given on the command line as `42`, `#42` or `owner/name#42`
+ */
+export interface IssueReference {
+  repository?: string;
+  number: number;
+}
+
+/**
+ * Parses the command line. Flags may appear anywhere and take their value as `--flag value` or
+ * `--flag=value`.
+ */
+export function parseCli(argv: string[]): CliOptions {
+  const env: Record<string, string> = {};
+  const positionals: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    const flag = FLAGS.find(f => f.name === name);
+    if (!flag) {
+      throw new CliError(`Unknown flag: --${name}`, EXIT_CODES.usage);
+    }
+    let value = inline ?? "";
+    if (flag.value && inline === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new CliError(`--${name} needs a value (${flag.value})`, EXIT_CODES.usage);
+      }
+      value = argv[++i];
+    } else if (!flag.value && inline !== undefined) {
+      throw new CliError(`--${name} takes no value`, EXIT_CODES.usage);
+    }
+    Object.assign(env, flag.env(value));
+  }
+
+  const [command = "run", ...args] = positionals;
+  if (help) return { command, args, env, help };
+
+  const spec = COMMANDS[command];
+  if (!spec) {
+    throw new CliError(`Unknown command: ${command}`, EXIT_CODES.usage);
+  }
+  if (args.length !== spec.args.length) {
+    const expected = spec.args.map(a => `<${a}>`).join(" ");
+    throw new CliError(`Usage: ${command}${expected ? ` ${expected}` : ""}`, EXIT_CODES.usage);
+  }
+  if (spec.args[0] === "issue") parseIssueReference(args[0]);
+  if (spec.args[1] === "duration") parseExtension(args[1]);
+
+  return { command, args, env, help };
+}
+
+/**
+ * Parses an issue reference
+ */
+export function parseIssueReference(value: string): IssueReference {
+  const match = value.match(/^(?:([\w.-]+\/[\w.-]+))?#?(\d+)$/);
+  if (!match || (match[1] && !value.includes("#"))) {
+    throw new CliError(`Expected an issue like 42 or owner/name#42, got: ${value}`, EXIT_CODES.usage);
+  }
+  return { ...(match[1] ? { repository: match[1] } : {}), number: Number(match[2]) };
+}
+
+/**
+ * Parses the duration of an extension into hours
+ */
+export function parseExtension(value: string): number {
+  const hours = parseDuration(value);
+  if (hours === undefined || hours <= 0) {
+    throw new CliError(`Expected a duration like 72h or 3d, got: ${value}`, EXIT_CODES.usage);
+  }
+  return hours;
+}
+
+/**
+ * Returns the help text
+ */
+export function usage(): string {
+  const column = (left: string) => `  ${left.padEnd(32)}`;
+  const commands = Object.entries(COMMANDS)
+    .map(([name, { args, description }]) => column([name, ...args.map(a => `<${a}>`)].join(" ")) + description);
+  const flags = FLAGS
+    .map(({ name, value, description }) => column(`--${name}${value ? ` <${value}>` : ""}`) + description);
+  const exitCodes = Object.entries(EXIT_CODES).map(([name, code]) => `  ${code}  ${name}`);
+
+  return [
+    "QA instance retention",
+    "",
+    "Usage: deno run -A main.ts [command] [flags]",
+    "",
+    "Commands:",
+    ...commands,
+    "",
+    "Flags (override the env vars in parentheses):",
+    ...flags,
+    column("-h, --help") + "Show this help",
+    "",
+    "Exit codes:",
+    ...exitCodes,
+  ].join("\n");
+}
@@ -0,0 +1,213 @@
+import { describeConfig } from "./config.ts";
+import { forRepository, RetentionContext } from "./context.ts";
+import { CliError, EXIT_CODES, parseExtension, parseIssueReference } from "./cli.ts";
+import { formatDateTime } from "./calendar.ts";
+import { DryRunGitHubClient } from "./dry-run.ts";
+import { GitHubApiError } from "./github-api.ts";
+import { resolveRepositories } from "./repositories.ts";
+import { serveWebhooks } from "./webhook.ts";
+import { runDaemon } from "./daemon.ts";
+import { toNotifiedIssue } from "./notifier.ts";
+import { formatAge } from "./dashboard.ts";
+import { clearCache, getQAInstanceWithComments } from "./issues-api.ts";
+import { closeIssues, explainIssue, extendIssue, generateMessage, getDashboardRows, getDecisionRecord } from "./retention.ts";
+import { describeFailures, logSection, reportPlan, reportTeardownFailures, runRetentionCheck } from "./run.ts";
+import { Issue } from "./types.ts";
+
+/**
+ * Formats rows as a table with aligned columns
+ */
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()).join("\n");
+}
+
+/**
+ * Formats a date as local time in the working calendar's timezone, UTC otherwise
+ */
+const formatTime = ({ config }: RetentionContext, date: Date): string =>
+  formatDateTime(date, config.WORKING_CALENDAR?.timezone);
+
+/**
+ * Finds the QA instance given on the command line. A bare issue number needs a single
+ * configured repository.
+ */
+async function findInstance(
+  ctx: RetentionContext,
+  reference: string,
+): Promise<{ instanceCtx: RetentionContext; issue: Issue }> {
+  const { repository, number } = parseIssueReference(reference);
+  const repositories = repository
+    ? [repository]
+    : await resolveRepositories(ctx.client, ctx.config.REPOSITORIES, ctx.config.ORG_SCAN);
+  if (repositories.length !== 1) {
+    throw new CliError(`Several repositories are configured, write the issue as owner/name#${number}`, EXIT_CODES.usage);
+  }
+
+  const instanceCtx = forRepository(ctx, repositories[0]);
+  const issue = await getQAInstanceWithComments(instanceCtx, number).catch(error => {
+    if (error instanceof GitHubApiError && error.status === 404) return undefined;
+    throw error;
+  });
+  if (!issue) {
+    throw new CliError(`${instanceCtx.client.repository}#${number} is not an open QA instance`, EXIT_CODES.notFound);
+  }
+  return { instanceCtx, issue };
+}
+
+/**
+ * Runs the retention check once. Fails if a repository or any warning or close failed.
+ */
+async function run(ctx: RetentionContext): Promise<number> {
+  const { success, repositories } = await runRetentionCheck(ctx);
+  return success && repositories.every(r => r.failed === 0) ? EXIT_CODES.success : EXIT_CODES.failed;
+}
+
+/**
+ * Prints a table of the QA instances in each repository and when they will be warned and closed
+ */
+async function status(ctx: RetentionContext): Promise<number> {
+  const repositories = await resolveRepositories(ctx.client, ctx.config.REPOSITORIES, ctx.config.ORG_SCAN);
+  const now = ctx.clock.now();
+  const countdown = (date: Date | undefined) =>
+    !date ? "–" : date.getTime() > now.getTime() ? `in ${formatAge(now, date)}` : "next run";
+
+  for (const repository of repositories) {
+    const rows = await getDashboardRows(forRepository(ctx, repository));
+    console.log(`\n📋 ${repository}: ${rows.length} QA instances`);
+    if (rows.length === 0) continue;
+
+    console.log(formatTable([
+      ["Instance", "Owner", "State", "Policy", "Idle", "Warn", "Close"],
+      ...rows.map(row => [
+        `#${row.number} ${row.title.length > 40 ? `${row.title.slice(0, 39)}…` : row.title}`,
+        row.owner,
+        row.state,
+        row.policy,
+        formatAge(row.lastHumanActivity, now),
+        row.state === "warned" && row.warnAt ? `${formatAge(row.warnAt, now)} ago` : countdown(row.warnAt),
+        row.state === "released" ? "next run" : countdown(row.closeAt),
+      ]),
+    ]));
+  }
+  return EXIT_CODES.success;
+}
+
+/**
+ * Shows the state of an instance and the rule deciding what the next run does with it
+ */
+async function explain(ctx: RetentionContext, [reference]: string[]): Promise<number> {
+  const { instanceCtx, issue } = await findInstance(ctx, reference);
+  const { state, lastActivity, action, reason, warnAt, closeAt } = explainIssue(instanceCtx, issue);
+  const { policy } = state;
+  const { activities } = getDecisionRecord(instanceCtx, issue);
+  const time = (date: Date) => formatTime(ctx, date);
+
+  console.log(`${instanceCtx.client.repository}#${issue.number} ${issue.title}\n`);
+  console.log(formatTable([
+    ["State:", state.lifecycle],
+    ["Policy:", `${policy.name} (${policy.retentionHours}h until the warning, ${policy.inactivityThresholdHours}h ` +
+      `until closing), ${policy.match ? `matched ${JSON.stringify(policy.match)}` : "no policy matched"}`],
+    ["Last activity:", lastActivity
+      ? `${lastActivity.type} by ${lastActivity.actor} at ${time(lastActivity.date)}`
+      : `none since ${time(state.lastHumanActivity)}`],
+    ...(warnAt ? [[state.lifecycle === "warned" ? "Warned:" : "Warn at:", time(warnAt)]] : []),
+    ...(closeAt ? [["Close at:", time(closeAt)]] : []),
+    ["Next run:", `${action}, ${reason}`],
+  ]));
+
+  console.log("\nActivities:");
+  console.log(formatTable(activities.map(a => [
+    `  ${time(new Date(a.at))}`,
+    a.type,
+    a.actor,
+    a.ignored ? `not counted: ${a.ignored}` : "counted",
+  ])));
+  return EXIT_CODES.success;
+}
+
+/**
+ * Extends an instance, like `/extend`
+ */
+async function extend(ctx: RetentionContext, [reference, duration]: string[]): Promise<number> {
+  const hours = parseExtension(duration);
+  const { instanceCtx, issue } = await findInstance(ctx, reference);
+  const until = await extendIssue(instanceCtx, issue, hours);
+  console.log(`✓ Extended ${instanceCtx.client.repository}#${issue.number} until ${formatTime(ctx, until)}`);
+
+  await reportPlan(ctx);
+  return EXIT_CODES.success;
+}
+
+/**
+ * Closes an instance right away and tears down its environment
+ */
+async function close(ctx: RetentionContext, [reference]: string[]): Promise<number> {
+  const { instanceCtx, issue } = await findInstance(ctx, reference);
+  const { repository } = instanceCtx.client;
+  const [result] = await closeIssues(instanceCtx, [issue], i => generateMessage(instanceCtx, "manual", i));
+  if (!result.success) {
+    throw new Error(result.error, { cause: result.cause });
+  }
+
+  console.log(`✓ Closed ${repository}#${issue.number}`);
+  reportTeardownFailures(ctx.logger, [result]);
+  await ctx.notifier.notify({ event: "close", issue: toNotifiedIssue(issue, repository), reason: "manual" });
+  if (result.teardown && !result.teardown.success) {
+    await ctx.notifier.notify({ event: "failure", repository, errors: describeFailures("close", [result]) });
+  }
+
+  await reportPlan(ctx);
+  return result.teardown?.success === false ? EXIT_CODES.failed : EXIT_CODES.success;
+}
+
+/**
+ * Runs the webhook server, which re-evaluates issues as soon as GitHub reports changes on them
+ */
+async function serve(ctx: RetentionContext): Promise<number> {
+  const { config, logger } = ctx;
+  logSection(logger, "Starting QA Instance Retention Webhook Server");
+  logger.log("✅ Config:", describeConfig(config));
+  if (!config.WEBHOOK_SECRET) {
+    throw new CliError("WEBHOOK_SECRET is required to serve webhooks", EXIT_CODES.config);
+  }
+
+  const server = serveWebhooks(ctx, { port: config.WEBHOOK_PORT, secret: config.WEBHOOK_SECRET });
+  await server.finished;
+  return EXIT_CODES.success;
+}
+
+/**
+ * Runs the retention check on the SCHEDULE cron expression until the process is stopped
+ */
+async function daemon(ctx: RetentionContext): Promise<number> {
+  const { client, config, logger } = ctx;
+  logSection(logger, "Starting QA Instance Retention Daemon");
+  logger.log("✅ Config:", describeConfig(config));
+
+  await runDaemon(
+    { schedule: config.SCHEDULE, jitterSeconds: config.SCHEDULE_JITTER_SECONDS, healthPort: config.HEALTH_PORT, logger },
+    async () => {
+      // Every run reads fresh issues; the persistent cache still revalidates them cheaply
+      clearCache(ctx);
+      if (client instanceof DryRunGitHubClient) client.plan.length = 0;
+      return (await runRetentionCheck(ctx)).success;
+    },
+  );
+  logSection(logger, "Retention Daemon Stopped");
+  return EXIT_CODES.success;
+}
+
+/**
+ * Subcommands by name. Each takes the context built from the configuration and its positional
+ * arguments, already checked by `parseCli`, and resolves to the exit code.
+ */
+export const COMMANDS: Record<string, (ctx: RetentionContext, args: string[]) => Promise<number>> = {
+  run,
+  status,
+  explain,
+  extend,
+  close,
+  serve,
+  daemon,
+};
@@ -1,4 +1,25 @@
-import { GitHubClient } from "./github-api.ts";
+import { DEFAULT_API_URL } from "./github-api.ts";
+import { DEFAULT_MATCHER_RULE, parseMatcherRule } from "./matchers.ts";
+import { describeHook } from "./hooks.ts";
+import { loadNotificationsFile } from "./notifier.ts";
+import { DEFAULT_POLICY_NAME, loadPolicyFile } from "./policies.ts";
+import { parseWorkingDays, parseWorkingHours, validateTimezone } from "./calendar.ts";
+import { BUILTIN_TEMPLATES, loadTemplatesFile } from "./messages.ts";
+import { getNextRun, parseCron } from "./schedule.ts";
+import { applyRepositoryOverride, loadRepositoryOverridesFile, parseRepositoryList } from "./repositories.ts";
+import {
+  ActivityType,
+  CronSchedule,
+  GitHubAppCredentials,
+  MatcherRule,
+  MessageTemplates,
+  NotificationSettings,
+  OrgScan,
+  RepositoryOverride,
+  RetentionPolicy,
+  TeardownHook,
+  WorkingCalendar,
+} from "./types.ts";
 
 /**
  * Configuration schema with defaults and validation
@@ -6,33 +27,162 @@ import { GitHubClient } from "./github-api.ts";
 export interface Config {
   // GitHub settings
   GITHUB_TOKEN: string;
+  /** REST API base URL, for GitHub Enterprise Server */
+  GITHUB_API_URL: string;
+  /** When set, requests authenticate as this GitHub App instead of with GITHUB_TOKEN */
+  GITHUB_APP?: GitHubAppCredentials;
   OWNER: string;
   REPO: string;
   BOT_USERNAME: string;
+  /** Accounts whose old text-only warning comments are still recognized */
+  LEGACY_BOT_USERNAMES: string[];
+  /** API used to read issues: GraphQL in bulk, or REST with one request per issue */
+  DATA_SOURCE: "graphql" | "rest";
+  /** File caching API responses across runs; without it responses are cached for one run only */
+  CACHE_FILE?: string;
+  /** Maximum number of GitHub requests in flight */
+  MAX_CONCURRENT_REQUESTS: number;
+  /** Requests left in the rate limit budget at which the run pauses until it resets */
+  RATE_LIMIT_RESERVE: number;
+
+  // Repository settings
+  /** Repositories to scan as `owner/name`: GITHUB_REPOS, or GITHUB_OWNER/GITHUB_REPO */
+  REPOSITORIES: string[];
+  /** Organization whose matching repositories are scanned as well */
+  ORG_SCAN?: OrgScan;
+  /** Per-repository policy settings loaded from REPOSITORY_OVERRIDES_FILE */
+  REPOSITORY_OVERRIDES: Record<string, RepositoryOverride>;
 
   // Retention settings
   RETENTION_HOURS: number;
   INACTIVITY_THRESHOLD_HOURS: number;
   WARNING_LABEL: string;
+  /** Labels that exempt an instance from expiry */
+  EXEMPT_LABELS: string[];
+  /** Kinds of human activity that reset the inactivity clock (issue creation always counts) */
+  ACTIVITY_TYPES: ActivityType[];
+  QA_MATCHER: MatcherRule;
+  /** Per-category policies loaded from RETENTION_POLICIES_FILE, checked in order */
+  POLICIES: RetentionPolicy[];
+  /** Policy built from RETENTION_HOURS / INACTIVITY_THRESHOLD_HOURS, used when no policy matches */
+  DEFAULT_POLICY: RetentionPolicy;
+  /** When set, only working hours count toward the thresholds */
+  WORKING_CALENDAR?: WorkingCalendar;
+  /** Most QA instances a repository may have open; the idlest beyond it are warned early */
+  MAX_INSTANCES?: number;
+
+  // Message settings
+  /** Locale of messages for instances whose policy sets none */
+  MESSAGE_LOCALE: string;
+  /** Custom templates by locale, loaded from MESSAGE_TEMPLATES_FILE */
+  MESSAGE_TEMPLATES: Record<string, MessageTemplates>;
+
+  // Teardown settings
+  /** Hooks run after an instance is auto-closed */
+  TEARDOWN_HOOKS: TeardownHook[];
+  /** Label added when a teardown hook fails */
+  TEARDOWN_FAILED_LABEL: string;
+  /** Seconds a teardown hook may take before it's given up on (and a command killed) */
+  TEARDOWN_TIMEOUT_SECONDS: number;
+
+  // Notification settings
+  /** Chat channels and user handles loaded from NOTIFICATIONS_FILE */
+  NOTIFICATIONS: NotificationSettings;
+
+  // Webhook server settings
+  /** Secret GitHub signs webhook deliveries with, required for `serve` */
+  WEBHOOK_SECRET?: string;
+  WEBHOOK_PORT: number;
+
+  // Dashboard settings
+  /** Keep a dashboard issue in each repository up to date */
+  DASHBOARD_ISSUE: boolean;
+  DASHBOARD_TITLE: string;
+  /** Markdown file the dashboard of all repositories is written to */
+  DASHBOARD_FILE?: string;
+
+  // Daemon settings
+  /** When `daemon` runs the retention check */
+  SCHEDULE: CronSchedule;
+  /** Each scheduled run starts up to this many seconds late */
+  SCHEDULE_JITTER_SECONDS: number;
+  /** Port of the daemon's health endpoint */
+  HEALTH_PORT: number;
 
   // Debug settings
   DEBUG: boolean;
+  /** File the decision record of every evaluated instance is appended to as JSON lines; `-` for stdout */
+  DECISION_LOG?: string;
+
+  // Dry run settings
+  DRY_RUN: boolean;
+  DRY_RUN_OUTPUT?: string;
 }
 
+/**
+ * Settings for `resolveConfig`: the thresholds are required, anything left out takes its default.
+ * DEFAULT_POLICY is derived from the thresholds.
+ */
+export type ConfigInput =
+  & Partial<Omit<Config, "DEFAULT_POLICY">>
+  & Pick<Config, "RETENTION_HOURS" | "INACTIVITY_THRESHOLD_HOURS">;
+
+/**
+ * Reads an environment variable, `Deno.env.get` by default
+ */
+export type EnvReader = (name: string) => string | undefined;
+
+/**
+ * Activity types that can be enabled through ACTIVITY_TYPES
+ */
+const CONFIGURABLE_ACTIVITY_TYPES: ActivityType[] = ["comment", "label", "edit", "reaction", "reopen", "assign"];
+
 /**
  * Default configuration values
  */
 const defaults: Partial<Config> = {
   WARNING_LABEL: "retention-warning",
+  EXEMPT_LABELS: ["do-not-expire"],
+  ACTIVITY_TYPES: ["create", ...CONFIGURABLE_ACTIVITY_TYPES],
+  TEARDOWN_FAILED_LABEL: "teardown-failed",
+  TEARDOWN_TIMEOUT_SECONDS: 300,
+  MESSAGE_LOCALE: "en",
+  WEBHOOK_PORT: 8080,
+  DASHBOARD_ISSUE: false,
+  DASHBOARD_TITLE: "QA instance dashboard",
+  SCHEDULE: parseCron("0 * * * *"),
+  SCHEDULE_JITTER_SECONDS: 30,
+  HEALTH_PORT: 8081,
+  DATA_SOURCE: "graphql",
+  MAX_CONCURRENT_REQUESTS: 4,
+  RATE_LIMIT_RESERVE: 50,
   DEBUG: false,
+  DRY_RUN: false,
   BOT_USERNAME: "github-actions[bot]",
+  GITHUB_TOKEN: "",
+  GITHUB_API_URL: DEFAULT_API_URL,
+  OWNER: "",
+  REPO: "",
+  LEGACY_BOT_USERNAMES: [],
+  REPOSITORIES: [],
+  REPOSITORY_OVERRIDES: {},
+  QA_MATCHER: DEFAULT_MATCHER_RULE,
+  POLICIES: [],
+  MESSAGE_TEMPLATES: {},
+  TEARDOWN_HOOKS: [],
+  NOTIFICATIONS: { channels: [], users: {} },
 };
 
+/**
+ * Bot account of GitHub Actions, the default BOT_USERNAME
+ */
+export const DEFAULT_BOT_USERNAME = defaults.BOT_USERNAME!;
+
 /**
  * Validates a number is positive
  */
 function validatePositiveNumber(value: number, name: string): void {
-  if (value <= 0) {
+  if (!(value > 0)) {
     throw new Error(`${name} must be a positive number, got: ${value}`);
   }
 }
@@ -47,60 +197,325 @@ function validateRequiredString(value: string | undefined, name: string): void {
 }
 
 /**
- * Loads and validates configuration from environment variables
+ * Loads QA instance matching rules from QA_MATCHER (inline JSON) or QA_MATCHER_FILE (path to JSON)
+ */
+function loadMatcherRule(env: EnvReader): MatcherRule {
+  const inline = env("QA_MATCHER");
+  const file = env("QA_MATCHER_FILE");
+  if (!inline && !file) return DEFAULT_MATCHER_RULE;
+
+  const source = inline ? "QA_MATCHER" : `QA_MATCHER_FILE (${file})`;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(inline ?? Deno.readTextFileSync(file!));
+  } catch (error) {
+    throw new Error(`Failed to read ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseMatcherRule(raw, source);
+}
+
+/**
+ * Builds teardown hooks from TEARDOWN_WEBHOOK_URL (+ TEARDOWN_WEBHOOK_SECRET) and TEARDOWN_COMMAND
+ * (+ TEARDOWN_COMMAND_ENV)
+ */
+function loadTeardownHooks(env: EnvReader): TeardownHook[] {
+  const hooks: TeardownHook[] = [];
+
+  const url = env("TEARDOWN_WEBHOOK_URL");
+  if (url) {
+    if (!URL.canParse(url)) {
+      throw new Error(`TEARDOWN_WEBHOOK_URL is not a valid URL: ${url}`);
+    }
+    hooks.push({ type: "webhook", url, secret: env("TEARDOWN_WEBHOOK_SECRET") || undefined });
+  }
+
+  const command = env("TEARDOWN_COMMAND")?.trim();
+  if (command) {
+    const passed = env("TEARDOWN_COMMAND_ENV")?.split(",").map(name => name.trim()).filter(Boolean) ?? [];
+    hooks.push({ type: "command", command: command.split(/\s+/), ...(passed.length > 0 ? { env: passed } : {}) });
+  }
+
+  return hooks;
+}
+
+/**
+ * Parses ACTIVITY_TYPES, a comma-separated list of activity kinds
+ */
+function loadActivityTypes(env: EnvReader): ActivityType[] {
+  const value = env("ACTIVITY_TYPES");
+  if (!value) return defaults.ACTIVITY_TYPES!;
+
+  const types = value.split(",").map(t => t.trim()).filter(Boolean);
+  const invalid = types.filter(t => !CONFIGURABLE_ACTIVITY_TYPES.includes(t as ActivityType));
+  if (invalid.length > 0) {
+    throw new Error(`ACTIVITY_TYPES has unknown types: ${invalid.join(", ")}, expected any of: ${CONFIGURABLE_ACTIVITY_TYPES.join(", ")}`);
+  }
+  return ["create", ...types as ActivityType[]];
+}
+
+/**
+ * Builds the working calendar when WORKING_CALENDAR=true
  */
-export function loadConfig(): Config {
-  // Load from environment
-  const githubRepo = Deno.env.get("GITHUB_REPO") || Deno.env.get("GITHUB_REPOSITORY");
+function loadWorkingCalendar(env: EnvReader): WorkingCalendar | undefined {
+  if (env("WORKING_CALENDAR") !== "true") return undefined;
+
+  const timezone = env("CALENDAR_TIMEZONE") || "UTC";
+  validateTimezone(timezone);
+
+  const holidays = (env("CALENDAR_HOLIDAYS") ?? "")
+    .split(",").map(d => d.trim()).filter(Boolean);
+  const invalidHoliday = holidays.find(d => !/^\d{4}-\d{2}-\d{2}$/.test(d));
+  if (invalidHoliday) {
+    throw new Error(`CALENDAR_HOLIDAYS must be YYYY-MM-DD dates, got: ${invalidHoliday}`);
+  }
+
+  return {
+    timezone,
+    workingDays: parseWorkingDays(env("CALENDAR_WORKING_DAYS") || "mon,tue,wed,thu,fri"),
+    ...parseWorkingHours(env("CALENDAR_WORKING_HOURS") || "09:00-17:00"),
+    holidays,
+  };
+}
+
+/**
+ * Loads GitHub App credentials from GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY (or
+ * GITHUB_APP_PRIVATE_KEY_FILE), plus the optional GITHUB_APP_INSTALLATION_ID
+ */
+function loadGitHubApp(env: EnvReader): GitHubAppCredentials | undefined {
+  const appId = env("GITHUB_APP_ID")?.trim();
+  if (!appId) return undefined;
+
+  const keyFile = env("GITHUB_APP_PRIVATE_KEY_FILE");
+  let privateKey = env("GITHUB_APP_PRIVATE_KEY");
+  if (!privateKey && keyFile) {
+    try {
+      privateKey = Deno.readTextFileSync(keyFile);
+    } catch (error) {
+      throw new Error(`Failed to read GITHUB_APP_PRIVATE_KEY_FILE (${keyFile}): ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  validateRequiredString(privateKey, "GITHUB_APP_PRIVATE_KEY or GITHUB_APP_PRIVATE_KEY_FILE");
+
+  const installation = env("GITHUB_APP_INSTALLATION_ID");
+  const installationId = installation ? Number(installation) : undefined;
+  if (installationId !== undefined && !(Number.isInteger(installationId) && installationId > 0)) {
+    throw new Error(`GITHUB_APP_INSTALLATION_ID must be a positive integer, got: ${installation}`);
+  }
+
+  // Keys passed through single-line secrets often have escaped newlines
+  return { appId, privateKey: privateKey!.replace(/\\n/g, "\n"), installationId };
+}
+
+/**
+ * Builds the organization scan from GITHUB_ORG, REPO_TOPIC and REPO_NAME_PATTERN
+ */
+function loadOrgScan(env: EnvReader): OrgScan | undefined {
+  const org = env("GITHUB_ORG")?.trim();
+  if (!org) return undefined;
+
+  const namePattern = env("REPO_NAME_PATTERN") || undefined;
+  if (namePattern) {
+    try {
+      new RegExp(namePattern);
+    } catch {
+      throw new Error(`REPO_NAME_PATTERN is not a valid regular expression: ${namePattern}`);
+    }
+  }
+  return { org, topic: env("REPO_TOPIC") || undefined, namePattern };
+}
+
+/**
+ * Reads the configuration from environment variables and the files they point to, and
+ * validates it with `resolveConfig`
+ */
+export function loadConfig(env: EnvReader = name => Deno.env.get(name)): Config {
+  const githubRepo = env("GITHUB_REPO") || env("GITHUB_REPOSITORY");
+  const owner = env("GITHUB_OWNER") || env("GITHUB_REPOSITORY_OWNER");
   const repoName = githubRepo?.includes("/") ? githubRepo.split("/")[1] : githubRepo;
+  const repoList = env("GITHUB_REPOS")?.trim();
+  const orgScan = loadOrgScan(env);
+  const number = (name: string) => env(name) ? Number(env(name)) : undefined;
+
+  // A single repository is only required when GITHUB_REPOS and GITHUB_ORG are both unset
+  if (!repoList && !orgScan) {
+    validateRequiredString(owner, "GITHUB_OWNER");
+    validateRequiredString(repoName, "GITHUB_REPO");
+  }
+
+  validateRequiredString(env("RETENTION_HOURS"), "RETENTION_HOURS");
+  validateRequiredString(env("INACTIVITY_THRESHOLD_HOURS"), "INACTIVITY_THRESHOLD_HOURS");
+  const retentionHours = Number(env("RETENTION_HOURS"));
+  const inactivityThresholdHours = Number(env("INACTIVITY_THRESHOLD_HOURS"));
+
+  // FORCE_THRESHOLDS applies RETENTION_HOURS and INACTIVITY_THRESHOLD_HOURS to every policy,
+  // e.g. when they are given as command line flags
+  const forceThresholds = env("FORCE_THRESHOLDS") === "true";
+  const forced = <T extends Partial<RetentionPolicy>>(policy: T): T =>
+    forceThresholds ? { ...policy, retentionHours, inactivityThresholdHours } : policy;
 
-  const config = {
-    GITHUB_TOKEN: Deno.env.get("GITHUB_TOKEN"),
-    OWNER: Deno.env.get("GITHUB_OWNER") || Deno.env.get("GITHUB_REPOSITORY_OWNER"),
+  const policiesFile = env("RETENTION_POLICIES_FILE");
+  const overridesFile = env("REPOSITORY_OVERRIDES_FILE");
+  const templatesFile = env("MESSAGE_TEMPLATES_FILE");
+  const notificationsFile = env("NOTIFICATIONS_FILE");
+
+  return resolveConfig({
+    GITHUB_TOKEN: env("GITHUB_TOKEN"),
+    GITHUB_API_URL: env("GITHUB_API_URL")?.replace(/\/+$/, "") || undefined,
+    GITHUB_APP: loadGitHubApp(env),
+    OWNER: owner ?? orgScan?.org,
     REPO: repoName,
-    BOT_USERNAME: Deno.env.get("BOT_USERNAME") || defaults.BOT_USERNAME,
-    RETENTION_HOURS: Number(Deno.env.get("RETENTION_HOURS")),
-    INACTIVITY_THRESHOLD_HOURS: Number(Deno.env.get("INACTIVITY_THRESHOLD_HOURS")),
-    WARNING_LABEL: Deno.env.get("WARNING_LABEL") || defaults.WARNING_LABEL,
-    DEBUG: Deno.env.get("DEBUG") === "true" || defaults.DEBUG,
-  };
+    BOT_USERNAME: env("BOT_USERNAME") || undefined,
+    LEGACY_BOT_USERNAMES: env("LEGACY_BOT_USERNAMES")?.split(",").map(u => u.trim()).filter(Boolean),
+    DATA_SOURCE: (env("DATA_SOURCE") || undefined) as Config["DATA_SOURCE"] | undefined,
+    CACHE_FILE: env("CACHE_FILE") || undefined,
+    MAX_CONCURRENT_REQUESTS: number("MAX_CONCURRENT_REQUESTS"),
+    RATE_LIMIT_RESERVE: number("RATE_LIMIT_RESERVE"),
+    REPOSITORIES: repoList
+      ? parseRepositoryList(repoList, owner ?? orgScan?.org)
+      : orgScan ? [] : [`${owner}/${repoName}`],
+    ORG_SCAN: orgScan,
+    REPOSITORY_OVERRIDES: overridesFile
+      ? Object.fromEntries(
+        Object.entries(loadRepositoryOverridesFile(overridesFile)).map(([name, override]) =>
+          [name, forced({ ...override, ...(override.policies ? { policies: override.policies.map(forced) } : {}) })]
+        ),
+      )
+      : undefined,
+    RETENTION_HOURS: retentionHours,
+    INACTIVITY_THRESHOLD_HOURS: inactivityThresholdHours,
+    WARNING_LABEL: env("WARNING_LABEL") || undefined,
+    EXEMPT_LABELS: env("EXEMPT_LABELS")?.split(",").map(l => l.trim()).filter(Boolean),
+    ACTIVITY_TYPES: loadActivityTypes(env),
+    QA_MATCHER: loadMatcherRule(env),
+    POLICIES: policiesFile ? loadPolicyFile(policiesFile).map(forced) : undefined,
+    WORKING_CALENDAR: loadWorkingCalendar(env),
+    MAX_INSTANCES: number("MAX_INSTANCES"),
+    MESSAGE_LOCALE: env("MESSAGE_LOCALE") || undefined,
+    MESSAGE_TEMPLATES: templatesFile ? loadTemplatesFile(templatesFile) : undefined,
+    TEARDOWN_HOOKS: loadTeardownHooks(env),
+    TEARDOWN_FAILED_LABEL: env("TEARDOWN_FAILED_LABEL") || undefined,
+    TEARDOWN_TIMEOUT_SECONDS: number("TEARDOWN_TIMEOUT_SECONDS"),
+    NOTIFICATIONS: notificationsFile ? loadNotificationsFile(notificationsFile) : undefined,
+    WEBHOOK_SECRET: env("WEBHOOK_SECRET") || undefined,
+    WEBHOOK_PORT: number("WEBHOOK_PORT"),
+    DASHBOARD_ISSUE: env("DASHBOARD_ISSUE") === "true",
+    DASHBOARD_TITLE: env("DASHBOARD_TITLE") || undefined,
+    DASHBOARD_FILE: env("DASHBOARD_FILE") || undefined,
+    SCHEDULE: env("SCHEDULE") ? parseCron(env("SCHEDULE")!) : undefined,
+    SCHEDULE_JITTER_SECONDS: number("SCHEDULE_JITTER_SECONDS"),
+    HEALTH_PORT: number("HEALTH_PORT"),
+    DEBUG: env("DEBUG") === "true",
+    DECISION_LOG: env("DECISION_LOG") || undefined,
+    DRY_RUN: env("DRY_RUN") === "true",
+    DRY_RUN_OUTPUT: env("DRY_RUN_OUTPUT") || undefined,
+  });
+}
+
+/**
+ * Fills in the defaults of the settings left out, derives the default policy and validates the
+ * result. Configuration built in code, e.g. for `runRetention`, goes through here as well.
+ */
+export function resolveConfig(input: ConfigInput): Config {
+  // Settings given as undefined take their defaults as well
+  const given = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  const config = { ...defaults, ...given } as Config;
 
   // Validate required fields
-  validateRequiredString(config.GITHUB_TOKEN, "GITHUB_TOKEN");
-  validateRequiredString(config.OWNER, "GITHUB_OWNER");
-  validateRequiredString(config.REPO, "GITHUB_REPO");
+  if (!config.GITHUB_APP) {
+    validateRequiredString(config.GITHUB_TOKEN, "GITHUB_TOKEN");
+  }
+  if (config.REPOSITORIES.length === 0 && !config.ORG_SCAN) {
+    throw new Error("REPOSITORIES or ORG_SCAN is required");
+  }
   validateRequiredString(config.WARNING_LABEL, "WARNING_LABEL");
+  if (!URL.canParse(config.GITHUB_API_URL)) {
+    throw new Error(`GITHUB_API_URL is not a valid URL: ${config.GITHUB_API_URL}`);
+  }
 
   // Validate numbers
   validatePositiveNumber(config.RETENTION_HOURS, "RETENTION_HOURS");
   validatePositiveNumber(config.INACTIVITY_THRESHOLD_HOURS, "INACTIVITY_THRESHOLD_HOURS");
+  validatePositiveNumber(config.TEARDOWN_TIMEOUT_SECONDS, "TEARDOWN_TIMEOUT_SECONDS");
+  for (const name of ["WEBHOOK_PORT", "HEALTH_PORT"] as const) {
+    if (!Number.isInteger(config[name]) || config[name] < 0 || config[name] > 65535) {
+      throw new Error(`${name} must be a port number, got: ${config[name]}`);
+    }
+  }
+  if (!(config.SCHEDULE_JITTER_SECONDS >= 0)) {
+    throw new Error(`SCHEDULE_JITTER_SECONDS must be a non-negative number, got: ${config.SCHEDULE_JITTER_SECONDS}`);
+  }
+  // Rejects schedules that can never run, like the 30th of February
+  getNextRun(config.SCHEDULE);
+  if (config.MAX_INSTANCES !== undefined && (!Number.isInteger(config.MAX_INSTANCES) || config.MAX_INSTANCES < 1)) {
+    throw new Error(`MAX_INSTANCES must be a positive integer, got: ${config.MAX_INSTANCES}`);
+  }
+  if (config.DATA_SOURCE !== "graphql" && config.DATA_SOURCE !== "rest") {
+    throw new Error(`DATA_SOURCE must be "graphql" or "rest", got: ${config.DATA_SOURCE}`);
+  }
+  if (!Number.isInteger(config.MAX_CONCURRENT_REQUESTS) || config.MAX_CONCURRENT_REQUESTS < 1) {
+    throw new Error(`MAX_CONCURRENT_REQUESTS must be a positive integer, got: ${config.MAX_CONCURRENT_REQUESTS}`);
+  }
+  if (!Number.isInteger(config.RATE_LIMIT_RESERVE) || config.RATE_LIMIT_RESERVE < 0) {
+    throw new Error(`RATE_LIMIT_RESERVE must be a non-negative integer, got: ${config.RATE_LIMIT_RESERVE}`);
+  }
 
   if (config.INACTIVITY_THRESHOLD_HOURS >= config.RETENTION_HOURS) {
     throw new Error("INACTIVITY_THRESHOLD_HOURS must be less than RETENTION_HOURS");
   }
 
-  return config as Config;
+  const defaultPolicy: RetentionPolicy = {
+    name: DEFAULT_POLICY_NAME,
+    retentionHours: config.RETENTION_HOURS,
+    inactivityThresholdHours: config.INACTIVITY_THRESHOLD_HOURS,
+  };
+
+  for (const [name, override] of Object.entries(config.REPOSITORY_OVERRIDES)) {
+    const { fallback } = applyRepositoryOverride(override, config.POLICIES, defaultPolicy);
+    if (fallback.inactivityThresholdHours >= fallback.retentionHours) {
+      throw new Error(`Repository override "${name}": inactivityThresholdHours must be less than retentionHours`);
+    }
+  }
+
+  // Every locale in use needs templates, either built in or from the templates file
+  const available = new Set([...Object.keys(BUILTIN_TEMPLATES), ...Object.keys(config.MESSAGE_TEMPLATES)]);
+  const usedLocales = [
+    ["MESSAGE_LOCALE", config.MESSAGE_LOCALE],
+    ...[...config.POLICIES, ...Object.values(config.REPOSITORY_OVERRIDES).flatMap(o => o.policies ?? [])]
+      .map(p => [`Locale of policy "${p.name}"`, p.locale]),
+  ];
+  for (const [name, used] of usedLocales) {
+    if (used && !available.has(used)) {
+      throw new Error(`${name} "${used}" has no templates, available: ${[...available].join(", ")}`);
+    }
+  }
+
+  return { ...config, DEFAULT_POLICY: defaultPolicy };
 }
 
 /**
- * Validates environment variables and returns config
+ * Summarizes the configuration for the log, without secrets
  */
-export function validateEnv(): void {
-  const config = loadConfig();
-  console.log("✅ Config:", {
+export function describeConfig(config: Config): Record<string, unknown> {
+  return {
+    AUTH: config.GITHUB_APP ? `GitHub App ${config.GITHUB_APP.appId}` : "token",
+    GITHUB_API_URL: config.GITHUB_API_URL,
     RETENTION_HOURS: config.RETENTION_HOURS,
     INACTIVITY_THRESHOLD_HOURS: config.INACTIVITY_THRESHOLD_HOURS,
+    REPOSITORIES: config.REPOSITORIES,
+    ORG_SCAN: config.ORG_SCAN
+      ? [config.ORG_SCAN.org, config.ORG_SCAN.topic && `topic=${config.ORG_SCAN.topic}`,
+        config.ORG_SCAN.namePattern && `name=/${config.ORG_SCAN.namePattern}/`].filter(Boolean).join(" ")
+      : "off",
+    REPOSITORY_OVERRIDES: Object.keys(config.REPOSITORY_OVERRIDES),
+    DATA_SOURCE: config.DATA_SOURCE,
+    CACHE_FILE: config.CACHE_FILE ?? "off",
+    MAX_CONCURRENT_REQUESTS: config.MAX_CONCURRENT_REQUESTS,
+    POLICIES: config.POLICIES.map(p => `${p.name} (${p.retentionHours}h/${p.inactivityThresholdHours}h)`),
+    WORKING_CALENDAR: config.WORKING_CALENDAR?.timezone ?? "off",
+    TEARDOWN_HOOKS: config.TEARDOWN_HOOKS.map(describeHook),
+    NOTIFICATIONS: config.NOTIFICATIONS.channels.map(c => `${c.name} (${c.type}: ${c.events.join(", ")})`),
     DEBUG: config.DEBUG,
-  });
+    DECISION_LOG: config.DECISION_LOG ?? "off",
+    DRY_RUN: config.DRY_RUN,
+  };
 }
-
-// Load config once at startup
-export const config = loadConfig();
-
-// Create GitHub client instance with retry and rate limiting
-export const github = new GitHubClient(
-  config.GITHUB_TOKEN,
-  config.OWNER,
-  config.REPO,
-  config.DEBUG
-);
@@ -0,0 +1,115 @@
+import { Config, DEFAULT_BOT_USERNAME } from "./config.ts";
+import { GitHubClient } from "./github-api.ts";
+import { GitHubAppAuth } from "./github-app.ts";
+import { RequestLimiter } from "./rate-limit.ts";
+import { CacheStore, FileCacheStore, MemoryCacheStore } from "./cache-store.ts";
+import { DryRunGitHubClient } from "./dry-run.ts";
+import { Notifier } from "./notifier.ts";
+import { Clock, Issue, IssueComment, IssueEvent, Logger, Reaction } from "./types.ts";
+
+/**
+ * Responses fetched during the current run, keyed by repository (and issue number).
+ * Cleared with `clearCache` before each run.
+ */
+export interface RunCache {
+  /** Cached as soon as the listing starts, so concurrent lookups share it */
+  issues: Map<string, Promise<Issue[]>>;
+  comments: Map<string, IssueComment[]>;
+  events: Map<string, IssueEvent[]>;
+  reactions: Map<string, Reaction[]>;
+}
+
+/**
+ * Everything a retention run works with. The client is bound to the repository being processed;
+ * `forRepository` derives the context of another one.
+ */
+export interface RetentionContext {
+  config: Config;
+  client: GitHubClient;
+  /** Keeps responses across runs; revalidated with ETags */
+  cacheStore: CacheStore;
+  notifier: Notifier;
+  clock: Clock;
+  logger: Logger;
+  cache: RunCache;
+}
+
+/**
+ * What a run is built from: the configuration, plus replacements for the parts that talk to the
+ * outside world. Anything left out is created from the configuration.
+ */
+export interface RetentionOptions {
+  /** From `loadConfig` or `resolveConfig` */
+  config: Config;
+  /** By default a client authenticated with GITHUB_TOKEN or GITHUB_APP, recording writes in dry-run mode */
+  client?: GitHubClient;
+  /** By default CACHE_FILE, or a cache kept in memory */
+  cacheStore?: CacheStore;
+  /** By default sends to the NOTIFICATIONS channels */
+  notifier?: Notifier;
+  /** By default the system clock */
+  clock?: Clock;
+  /** By default `console` */
+  logger?: Logger;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+export const createRunCache = (): RunCache => ({
+  issues: new Map(),
+  comments: new Map(),
+  events: new Map(),
+  reactions: new Map(),
+});
+
+/**
+ * Builds the context of a run from its options
+ */
+export async function createContext(options: RetentionOptions): Promise<RetentionContext> {
+  let { config } = options;
+  const logger = options.logger ?? console;
+  const cacheStore = options.cacheStore ??
+    (config.CACHE_FILE ? await FileCacheStore.open(config.CACHE_FILE) : new MemoryCacheStore());
+
+  let client = options.client;
+  if (!client) {
+    const appAuth = config.GITHUB_APP
+      ? new GitHubAppAuth(config.GITHUB_APP, config.DEBUG, config.GITHUB_API_URL)
+      : undefined;
+
+    // A GitHub App comments as its bot account, so BOT_USERNAME follows from the app slug
+    if (appAuth && config.BOT_USERNAME === DEFAULT_BOT_USERNAME) {
+      config = { ...config, BOT_USERNAME: await appAuth.getBotUsername() };
+    }
+
+    // Clients for each scanned repository are derived from this one with `forRepository` and
+    // share its request limiter. In dry-run mode writes are recorded as a plan instead of being sent.
+    client = new (config.DRY_RUN ? DryRunGitHubClient : GitHubClient)(
+      appAuth ?? config.GITHUB_TOKEN,
+      config.OWNER,
+      config.REPO,
+      config.DEBUG,
+      new RequestLimiter(config.MAX_CONCURRENT_REQUESTS, config.RATE_LIMIT_RESERVE),
+      cacheStore,
+      config.GITHUB_API_URL,
+    );
+  }
+
+  return {
+    config,
+    client,
+    cacheStore,
+    // In dry-run mode notifications are only logged
+    notifier: options.notifier ??
+      new Notifier(config.NOTIFICATIONS, { dryRun: config.DRY_RUN, timezone: config.WORKING_CALENDAR?.timezone, logger }),
+    clock: options.clock ?? systemClock,
+    logger,
+    cache: createRunCache(),
+  };
+}
+
+/**
+ * Returns the context for working on another repository; everything but the client is shared
+ */
+export const forRepository = (ctx: RetentionContext, repository: string): RetentionContext =>
+  ({ ...ctx, client: ctx.client.forRepository(repository) });
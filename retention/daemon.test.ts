@@ -0,0 +1,133 @@
+import { assert, assertEquals } from "@std/assert";
+import { DaemonOptions, runDaemon } from "./daemon.ts";
+import { parseCron } from "./schedule.ts";
+
+/**
+ * A clock that only moves when the daemon sleeps or a run says it took time
+ */
+class TestClock {
+  private time: number;
+
+  constructor(start: string) {
+    this.time = Date.parse(start);
+  }
+
+  now = () => new Date(this.time);
+
+  advance(minutes: number) {
+    this.time += minutes * 60000;
+  }
+
+  /** Jumps to the given time, then lets other tasks run before waking the daemon */
+  sleepUntil = (date: Date): Promise<void> => {
+    this.time = Math.max(this.time, date.getTime());
+    return new Promise(resolve => setTimeout(resolve, 0));
+  };
+}
+
+/**
+ * Options of an hourly daemon on the given clock, logging to `logged`
+ */
+function hourly(clock: TestClock, logged: string[], options: Partial<DaemonOptions> = {}): DaemonOptions {
+  const log = (...data: unknown[]) => void logged.push(data.join(" "));
+  return {
+    schedule: parseCron("0 * * * *"),
+    jitterSeconds: 0,
+    logger: { log, warn: log, error: log },
+    clock,
+    sleepUntil: clock.sleepUntil,
+    ...options,
+  };
+}
+
+Deno.test("runs never overlap, and the ticks a long run missed are skipped rather than caught up", async () => {
+  const clock = new TestClock("2026-10-19T10:30:00Z");
+  const controller = new AbortController();
+  const logged: string[] = [];
+  const started: string[] = [];
+  let running = 0;
+  let mostRunning = 0;
+
+  await runDaemon(hourly(clock, logged, { signal: controller.signal }), async () => {
+    started.push(clock.now().toISOString());
+    mostRunning = Math.max(mostRunning, ++running);
+    // The first run takes two and a half hours
+    clock.advance(started.length === 1 ? 150 : 5);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    running--;
+    if (started.length === 3) controller.abort();
+    return true;
+  });
+
+  assertEquals(started, ["2026-10-19T11:00:00.000Z", "2026-10-19T14:00:00.000Z", "2026-10-19T15:00:00.000Z"]);
+  assertEquals(mostRunning, 1);
+  assertEquals(logged.filter(line => line.includes("skipping the ticks")), [
+    "⚠️ Run took longer than the schedule interval, skipping the ticks missed since 2026-10-19T12:00:00.000Z",
+  ]);
+});
+
+Deno.test("an abort finishes the run in progress before stopping, and wakes a sleeping daemon", async () => {
+  const clock = new TestClock("2026-10-19T10:30:00Z");
+  const controller = new AbortController();
+  const logged: string[] = [];
+  const finished: number[] = [];
+
+  await runDaemon(hourly(clock, logged, { signal: controller.signal }), async () => {
+    const run = finished.length + 1;
+    if (run === 2) controller.abort();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    finished.push(run);
+    return true;
+  });
+
+  assertEquals(finished, [1, 2]);
+  assert(logged.includes("🛑 Stopped, shutting down after the current run"));
+
+  // With the system clock, the next run of this schedule is months away
+  const sleeping = new AbortController();
+  setTimeout(() => sleeping.abort(), 10);
+  let runs = 0;
+  await runDaemon(
+    { ...hourly(clock, logged, { signal: sleeping.signal }), schedule: parseCron("0 0 1 1 *"), clock: undefined, sleepUntil: undefined },
+    () => Promise.resolve(++runs > 0),
+  );
+  assertEquals(runs, 0);
+});
+
+Deno.test("the health endpoint reports ok, failing and draining, and SIGTERM stops the daemon after the run", async () => {
+  const clock = new TestClock("2026-10-19T10:30:00Z");
+  const logged: string[] = [];
+  const health = async () => {
+    const port = logged.join("\n").match(/Health endpoint on http:\/\/[^:]+:(\d+)\/healthz/)![1];
+    const response = await fetch(`http://127.0.0.1:${port}/healthz`);
+    const body = await response.json();
+    return { code: response.status, status: body.status, running: body.running, lastRun: body.lastRun?.success };
+  };
+  const states: Array<Awaited<ReturnType<typeof health>>> = [];
+  let runs = 0;
+
+  await runDaemon(hourly(clock, logged, { healthPort: 0 }), async () => {
+    runs++;
+    states.push(await health());
+    if (runs < 3) return runs === 2;
+
+    Deno.kill(Deno.pid, "SIGTERM");
+    let state = await health();
+    for (let attempt = 0; state.status !== "draining" && attempt < 100; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      state = await health();
+    }
+    states.push(state);
+    return true;
+  });
+
+  assertEquals(states, [
+    { code: 200, status: "ok", running: true, lastRun: undefined },
+    // The first run failed
+    { code: 503, status: "failing", running: true, lastRun: false },
+    { code: 200, status: "ok", running: true, lastRun: true },
+    { code: 503, status: "draining", running: true, lastRun: true },
+  ]);
+  assertEquals(runs, 3);
+  assert(logged.includes("🛑 Received SIGTERM, shutting down after the current run"));
+});
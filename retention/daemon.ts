@@ -0,0 +1,140 @@
+import { getNextRun } from "./schedule.ts";
+import { Clock, CronSchedule, Logger } from "./types.ts";
+
+/**
+ * Outcome of the last finished run, reported by the health endpoint
+ */
+interface RunStatus {
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+}
+
+export interface DaemonOptions {
+  schedule: CronSchedule;
+  /** Each run starts up to this many seconds after its scheduled time */
+  jitterSeconds: number;
+  /** Port of the health endpoint, not started when undefined */
+  healthPort?: number;
+  /** Stops the daemon when aborted, in addition to SIGTERM and SIGINT */
+  signal?: AbortSignal;
+  /** By default `console` */
+  logger?: Logger;
+  /** By default the system clock */
+  clock?: Clock;
+  /** Waits until the given time or until the signal is aborted, by default with a timer */
+  sleepUntil?: (date: Date, signal: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Longest delay a timer takes; longer ones fire at once
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Waits until the given time, or until the signal is aborted
+ */
+function sleepUntil(date: Date, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout>;
+    // A yearly schedule is further away than one timer can wait, so it waits in steps
+    const wait = () => {
+      const remaining = date.getTime() - Date.now();
+      timer = setTimeout(remaining > MAX_TIMER_MS ? wait : done, Math.min(Math.max(remaining, 0), MAX_TIMER_MS));
+    };
+    wait();
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Runs `run` on the cron schedule until SIGTERM or SIGINT. Runs never overlap: a run that takes
+ * longer than the interval makes the daemon skip the ticks it missed. On shutdown the run in
+ * progress is finished first, and the health endpoint reports `draining` until it is.
+ *
+ * @param run one pass of the retention check, resolving to whether it succeeded
+ */
+export async function runDaemon(options: DaemonOptions, run: () => Promise<boolean>): Promise<void> {
+  const logger = options.logger ?? console;
+  const clock = options.clock ?? { now: () => new Date() };
+  const sleep = options.sleepUntil ?? sleepUntil;
+  const controller = new AbortController();
+  const stop = (reason: string) => {
+    if (controller.signal.aborted) return;
+    logger.log(`🛑 ${reason}, shutting down after the current run`);
+    controller.abort();
+  };
+  const onSigterm = () => stop("Received SIGTERM");
+  const onSigint = () => stop("Received SIGINT");
+  Deno.addSignalListener("SIGTERM", onSigterm);
+  Deno.addSignalListener("SIGINT", onSigint);
+  options.signal?.addEventListener("abort", () => stop("Stopped"), { once: true });
+
+  let running = false;
+  let nextRun: Date | undefined;
+  let lastRun: RunStatus | undefined;
+
+  // Stopped only once the loop is done, so it keeps answering while a run is drained
+  const health = options.healthPort === undefined ? undefined : Deno.serve(
+    {
+      port: options.healthPort,
+      onListen: ({ hostname, port }) => logger.log(`💓 Health endpoint on http://${hostname}:${port}/healthz`),
+    },
+    request => {
+      if (new URL(request.url).pathname !== "/healthz") {
+        return Response.json({ error: "Not found" }, { status: 404 });
+      }
+      // Healthy until a run fails; a new successful run makes it healthy again. While shutting
+      // down it is no longer ready for anything, but the run in progress is still finishing.
+      const draining = controller.signal.aborted;
+      const healthy = !draining && (lastRun?.success ?? true);
+      return Response.json({
+        status: draining ? "draining" : healthy ? "ok" : "failing",
+        running,
+        schedule: options.schedule.expression,
+        nextRun: nextRun?.toISOString(),
+        lastRun,
+      }, { status: healthy ? 200 : 503 });
+    },
+  );
+
+  logger.log(`⏰ Running on schedule "${options.schedule.expression}" (UTC)`);
+  try {
+    while (!controller.signal.aborted) {
+      const scheduled = getNextRun(options.schedule, clock.now());
+      // Jitter keeps several deployments on the same schedule from hitting the API at once
+      nextRun = new Date(scheduled.getTime() + Math.floor(Math.random() * options.jitterSeconds * 1000));
+      logger.log(`💤 Next run at ${nextRun.toISOString()}`);
+      await sleep(nextRun, controller.signal);
+      if (controller.signal.aborted) break;
+
+      running = true;
+      nextRun = undefined;
+      const startedAt = clock.now();
+      let success = false;
+      try {
+        success = await run();
+      } catch (error) {
+        logger.error("❌ Run failed:", error instanceof Error ? error.message : error);
+      } finally {
+        running = false;
+      }
+      lastRun = { startedAt: startedAt.toISOString(), finishedAt: clock.now().toISOString(), success };
+
+      const missed = getNextRun(options.schedule, startedAt);
+      if (missed.getTime() < clock.now().getTime()) {
+        logger.warn(`⚠️ Run took longer than the schedule interval, skipping the ticks missed since ${missed.toISOString()}`);
+      }
+    }
+  } finally {
+    Deno.removeSignalListener("SIGTERM", onSigterm);
+    Deno.removeSignalListener("SIGINT", onSigint);
+    controller.abort();
+    await health?.shutdown();
+  }
+}
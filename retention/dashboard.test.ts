@@ -0,0 +1,116 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { resolveConfig } from "./config.ts";
+import { createContext } from "./context.ts";
+import { formatAge, renderDashboard } from "./dashboard.ts";
+import { FakeGitHubServer } from "./fake-github.ts";
+import { GitHubClient } from "./github-api.ts";
+import { RequestLimiter } from "./rate-limit.ts";
+import { getDashboardRows } from "./retention.ts";
+import { formatMarker } from "./state-machine.ts";
+import { DashboardRow } from "./types.ts";
+
+const BOT = "github-actions[bot]";
+const NOW = new Date("2026-10-19T12:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+const hoursAgo = (hours: number): string => new Date(NOW.getTime() - hours * HOUR_MS).toISOString();
+const hoursFromNow = (date: Date | undefined) => date && (date.getTime() - NOW.getTime()) / HOUR_MS;
+
+Deno.test("dashboard rows carry each instance's state, deadlines and web page, soonest close first", async () => {
+  // A GitHub Enterprise Server: links must come from the API, not be built from github.com
+  const github = new FakeGitHubServer({ webUrl: "https://github.acme.example" });
+  try {
+    const active = github.addIssue("acme/qa", { title: "QA-Instance ready: checkout", created_at: hoursAgo(10) });
+    const warned = github.addIssue("acme/qa", { title: "QA-Instance ready: search", created_at: hoursAgo(60), labels: ["retention-warning"] });
+    github.addComment("acme/qa", warned, {
+      body: `⚠️ This instance will be closed soon.\n${formatMarker("warned", new Date(hoursAgo(2)), { policy: "default" })}`,
+      user: BOT,
+      created_at: hoursAgo(2),
+    });
+    const released = github.addIssue("acme/qa", { title: "QA-Instance ready: cart", created_at: hoursAgo(5) });
+    github.addComment("acme/qa", released, { body: "/release", user: "alice", created_at: hoursAgo(1) });
+    const exempt = github.addIssue("acme/qa", { title: "QA-Instance ready: demo", created_at: hoursAgo(100), labels: ["do-not-expire"] });
+    github.addIssue("acme/qa", { title: "Checkout button misaligned", created_at: hoursAgo(200) });
+
+    const ctx = await createContext({
+      config: resolveConfig({ GITHUB_TOKEN: "test-token", REPOSITORIES: ["acme/qa"], RETENTION_HOURS: 48, INACTIVITY_THRESHOLD_HOURS: 24 }),
+      client: new GitHubClient("test-token", "acme", "qa", false, new RequestLimiter(4, 0), undefined, github.listen()),
+      clock: { now: () => NOW },
+    });
+    const rows = await getDashboardRows(ctx);
+
+    assertEquals(rows.map(row => [row.number, row.state, hoursFromNow(row.warnAt), hoursFromNow(row.closeAt)]), [
+      [warned, "warned", -2, 22],
+      [active, "active", 38, 62],
+      // Newest first among those without a close time, as listed
+      [exempt, "exempt", undefined, undefined],
+      [released, "released", undefined, undefined],
+    ]);
+    assertEquals(rows.map(row => row.url), [warned, active, exempt, released].map(n => `https://github.acme.example/acme/qa/issues/${n}`));
+    assertEquals(rows[0].repository, "acme/qa");
+    assertEquals(rows[0].owner, "alice");
+    assertEquals(rows[0].policy, "default");
+  } finally {
+    await github.close();
+  }
+});
+
+const row = (overrides: Partial<DashboardRow>): DashboardRow => ({
+  repository: "acme/qa",
+  number: 1,
+  title: "QA-Instance ready: checkout",
+  url: "https://github.acme.example/acme/qa/issues/1",
+  owner: "alice",
+  assignees: [],
+  createdAt: new Date(hoursAgo(50)),
+  lastHumanActivity: new Date(hoursAgo(26)),
+  state: "active",
+  policy: "default",
+  ...overrides,
+});
+
+Deno.test("the dashboard lists each repository's instances as a table, linked to their web page", () => {
+  const markdown = renderDashboard(
+    new Map([
+      ["acme/qa", [
+        row({
+          number: 7,
+          title: "QA-Instance ready: a|b",
+          url: "https://github.acme.example/acme/qa/issues/7",
+          assignees: ["bob", "alice"],
+          state: "warned",
+          warnAt: new Date(hoursAgo(2)),
+          closeAt: new Date(NOW.getTime() + 22 * HOUR_MS),
+        }),
+        row({ number: 8, url: undefined, state: "released" }),
+      ]],
+      ["acme/web", []],
+    ]),
+    { now: NOW, timezone: "UTC" },
+  );
+  const lines = markdown.split("\n");
+
+  assertEquals(lines[0], "2 open QA instances, updated Mon, 19 Oct 2026, 12:00 UTC. Warn and close times assume no further activity.");
+  assertEquals(lines[2], "## acme/qa");
+  assertEquals(lines[4], "| Instance | Owner | Age | Last human activity | State | Policy | Warn | Close |");
+  assertEquals(
+    lines[6],
+    "| [#7](https://github.acme.example/acme/qa/issues/7) QA-Instance ready: a\\|b | alice, bob | 2d 2h | 1d 2h ago | warned | default | " +
+      "Mon, 19 Oct 2026, 10:00 UTC (warned) | Tue, 20 Oct 2026, 10:00 UTC |",
+  );
+  // Without a known web page, the number isn't linked
+  assertStringIncludes(lines[7], "| #8 QA-Instance ready: checkout | alice |");
+  assertStringIncludes(lines[7], "| released | default | – | next run (released) |");
+  assertEquals(lines.slice(-4), ["## acme/web", "", "_No open QA instances._", ""]);
+  assertEquals(markdown.includes("@"), false);
+});
+
+Deno.test("formatAge shows the two largest units", () => {
+  const age = (minutes: number) => formatAge(new Date(NOW.getTime() - minutes * 60000), NOW);
+
+  assertEquals(age(12), "12m");
+  assertEquals(age(5 * 60 + 20), "5h 20m");
+  assertEquals(age(3 * 1440 + 4 * 60 + 59), "3d 4h");
+  // Dates in the future count as no time at all
+  assertEquals(age(-30), "0m");
+});
@@ -0,0 +1,121 @@
+import { GitHubClient } from "./github-api.ts";
+import { formatDateTime } from "./calendar.ts";
+import { DashboardRow, Issue, Logger } from "./types.ts";
+
+/**
+ * Hidden marker identifying the dashboard issue, so it can be found again and is never treated
+ * as a QA instance
+ */
+export const DASHBOARD_MARKER = "<!-- qa-retention:dashboard -->";
+
+/**
+ * How times are shown on the dashboard
+ */
+export interface DashboardFormat {
+  now: Date;
+  timezone?: string;
+  locale?: string;
+}
+
+/**
+ * Checks if an issue is the dashboard issue
+ */
+export const isDashboardIssue = (issue: Issue): boolean => issue.body?.includes(DASHBOARD_MARKER) ?? false;
+
+/**
+ * Formats the time between two dates as `3d 4h`, `5h 20m` or `12m`
+ */
+export function formatAge(from: Date, to: Date): string {
+  const minutes = Math.max(Math.floor((to.getTime() - from.getTime()) / 60000), 0);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor(minutes % 1440 / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Escapes text for a Markdown table cell
+ */
+const cell = (text: string): string => text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+/**
+ * Renders the rows of one repository as a Markdown table
+ */
+function renderTable(rows: DashboardRow[], { now, timezone, locale }: DashboardFormat): string {
+  const time = (date: Date | undefined, note: string) => {
+    if (!date) return "–";
+    const formatted = formatDateTime(date, timezone, locale);
+    return date.getTime() <= now.getTime() ? `${formatted} (${note})` : formatted;
+  };
+
+  const lines = [
+    "| Instance | Owner | Age | Last human activity | State | Policy | Warn | Close |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...rows.map(row => {
+      // Plain logins: mentions would notify the owners on every update
+      const owners = [...new Set([row.owner, ...row.assignees])].join(", ");
+      const warn = time(row.warnAt, row.state === "warned" ? "warned" : "next run");
+      const close = row.state === "released" ? "next run (released)" : time(row.closeAt, "next run");
+      const link = row.url ? `[#${row.number}](${row.url})` : `#${row.number}`;
+      return `| ${link} ${cell(row.title)} | ${owners} | ${formatAge(row.createdAt, now)} | ` +
+        `${formatAge(row.lastHumanActivity, now)} ago | ${row.state} | ${cell(row.policy)} | ${warn} | ${close} |`;
+    }),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Renders the dashboard for one or more repositories. Repositories get their own heading when
+ * there is more than one.
+ */
+export function renderDashboard(repositories: Map<string, DashboardRow[]>, format: DashboardFormat): string {
+  const sections = [...repositories].map(([repository, rows]) => {
+    const heading = repositories.size > 1 ? `## ${repository}\n\n` : "";
+    return heading + (rows.length > 0 ? renderTable(rows, format) : "_No open QA instances._");
+  });
+  const total = [...repositories.values()].reduce((sum, rows) => sum + rows.length, 0);
+
+  return [
+    `${total} open QA instances, updated ${formatDateTime(format.now, format.timezone, format.locale)}. ` +
+    "Warn and close times assume no further activity.",
+    ...sections,
+  ].join("\n\n") + "\n";
+}
+
+/**
+ * Replaces the body of the dashboard issue, creating and pinning it on first use. The issue is
+ * found by its marker among the repository's open issues.
+ */
+export async function updateDashboardIssue(
+  client: GitHubClient,
+  title: string,
+  markdown: string,
+  openIssues: Issue[],
+  logger: Logger = console,
+): Promise<void> {
+  const body = `${DASHBOARD_MARKER}\n${markdown}`;
+  const existing = openIssues.find(isDashboardIssue);
+
+  if (existing) {
+    await client.updateIssue(existing.number, { body });
+    logger.log(`✓ Dashboard updated: ${client.repository}#${existing.number}`);
+    return;
+  }
+
+  const number = await client.createIssue(title, body);
+  logger.log(`✓ Dashboard created: ${client.repository}#${number}`);
+  try {
+    await client.pinIssue(number);
+  } catch (error) {
+    // Pinning fails when three issues are pinned already; the dashboard still works unpinned
+    logger.warn(`⚠️ Could not pin the dashboard issue:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Writes the dashboard to a Markdown file
+ */
+export async function writeDashboardFile(path: string, markdown: string, logger: Logger = console): Promise<void> {
+  await Deno.writeTextFile(path, `# QA instances\n\n${markdown}`);
+  logger.log(`✓ Dashboard written to ${path}`);
+}
@@ -0,0 +1,65 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { formatDecisionExcerpt, writeDecisionLog } from "./decisions.ts";
+import { DecisionRecord } from "./types.ts";
+
+const record: DecisionRecord = {
+  repository: "acme/qa",
+  issue: 42,
+  title: "QA-Instance ready: checkout",
+  evaluatedAt: "2026-10-19T12:00:00.000Z",
+  lifecycle: "warned",
+  exempt: false,
+  policy: "default",
+  thresholds: { retentionHours: 48, inactivityThresholdHours: 24, workingHours: false },
+  activities: [
+    { type: "create", at: "2026-10-15T09:00:00.000Z", actor: "alice" },
+    { type: "comment", at: "2026-10-16T10:00:00.000Z", actor: "bob" },
+    { type: "comment", at: "2026-10-18T10:00:00.000Z", actor: "github-actions[bot]", ignored: "by the bot" },
+    { type: "reaction", at: "2026-10-18T11:00:00.000Z", actor: "carol", ignored: "reaction is not in ACTIVITY_TYPES" },
+    { type: "reaction", at: "2026-10-18T12:00:00.000Z", actor: "dave", ignored: "reaction is not in ACTIVITY_TYPES" },
+  ],
+  lastHumanActivity: "2026-10-16T10:00:00.000Z",
+  hoursSinceActivity: 74,
+  warningDate: "2026-10-18T10:00:00.000Z",
+  verdict: "close",
+  reason: 'warned 26 hours ago without activity since, which reaches the 24 hours of policy "default"',
+  warnAt: "2026-10-18T10:00:00.000Z",
+  closeAt: "2026-10-19T10:00:00.000Z",
+};
+
+Deno.test("the close comment excerpt explains the verdict without mentioning anyone", () => {
+  const excerpt = formatDecisionExcerpt(record);
+
+  assertStringIncludes(excerpt, "<summary>Why this instance was closed</summary>");
+  assertStringIncludes(excerpt, '- Policy "default": warned after 48 hours without activity, closed 24 hours');
+  assertStringIncludes(excerpt, "- Last human activity: comment by bob, Fri, 16 Oct 2026, 10:00 UTC");
+  assertStringIncludes(excerpt, "- Warned: Sun, 18 Oct 2026, 10:00 UTC");
+  assertStringIncludes(excerpt, "- Not counted: comment ×1 (by the bot), reaction ×2 (reaction is not in ACTIVITY_TYPES)");
+  assertStringIncludes(excerpt, `- Verdict: close, ${record.reason}`);
+  assertEquals(excerpt.includes("@"), false);
+});
+
+Deno.test("decision records are appended to the log as JSON lines", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+  try {
+    await writeDecisionLog(path, [record]);
+    await writeDecisionLog(path, [{ ...record, issue: 43 }]);
+
+    const lines = (await Deno.readTextFile(path)).trimEnd().split("\n");
+    assertEquals(lines.map(line => JSON.parse(line).issue), [42, 43]);
+    assertEquals(JSON.parse(lines[0]), record);
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("with `-` as the target, decision records go to the logger", async () => {
+  const lines: unknown[][] = [];
+  const logger = { log: (...data: unknown[]) => void lines.push(data), warn: () => {}, error: () => {} };
+
+  await writeDecisionLog("-", [record, { ...record, issue: 43 }], logger);
+  await writeDecisionLog("-", [], logger);
+
+  assertEquals(lines.map(([line]) => JSON.parse(line as string).issue), [42, 43]);
+  assertEquals(lines.every(data => data.length === 1), true);
+});
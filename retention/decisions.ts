@@ -0,0 +1,54 @@
+import { formatDateTime } from "./calendar.ts";
+import { DecisionRecord, Logger } from "./types.ts";
+
+/**
+ * Writes decision records as JSON lines: appended to a file, or to the logger when the target is `-`
+ */
+export async function writeDecisionLog(
+  target: string,
+  records: DecisionRecord[],
+  logger: Logger = console,
+): Promise<void> {
+  if (records.length === 0) return;
+  const lines = records.map(record => JSON.stringify(record));
+
+  if (target === "-") {
+    lines.forEach(line => logger.log(line));
+    return;
+  }
+  await Deno.writeTextFile(target, lines.join("\n") + "\n", { append: true });
+}
+
+/**
+ * Renders the part of a decision record people ask about, "why was my instance closed?", as a
+ * collapsed Markdown section for the close comment. Logins are not @-mentioned.
+ */
+export function formatDecisionExcerpt(record: DecisionRecord, timezone?: string): string {
+  const time = (iso: string) => formatDateTime(new Date(iso), timezone);
+  const unit = record.thresholds.workingHours ? "working hours" : "hours";
+  const lastActivity = record.activities.filter(a => !a.ignored).at(-1);
+
+  // Ignored activities are summed up by kind and reason, e.g. "comment ×3 (by the bot)"
+  const ignored = new Map<string, { type: string; reason: string; count: number }>();
+  for (const { type, ignored: reason } of record.activities) {
+    if (!reason) continue;
+    const entry = ignored.get(`${type}:${reason}`) ?? { type, reason, count: 0 };
+    entry.count++;
+    ignored.set(`${type}:${reason}`, entry);
+  }
+
+  const lines = [
+    `- Policy "${record.policy}": warned after ${record.thresholds.retentionHours} ${unit} without ` +
+    `activity, closed ${record.thresholds.inactivityThresholdHours} ${unit} after the warning`,
+    lastActivity
+      ? `- Last human activity: ${lastActivity.type} by ${lastActivity.actor}, ${time(lastActivity.at)}`
+      : `- No human activity since ${time(record.lastHumanActivity)}`,
+    ...(record.warningDate ? [`- Warned: ${time(record.warningDate)}`] : []),
+    ...(ignored.size > 0
+      ? [`- Not counted: ${[...ignored.values()].map(e => `${e.type} ×${e.count} (${e.reason})`).join(", ")}`]
+      : []),
+    `- Verdict: ${record.verdict}, ${record.reason}`,
+  ];
+
+  return `<details>\n<summary>Why this instance was closed</summary>\n\n${lines.join("\n")}\n</details>`;
+}
@@ -0,0 +1,101 @@
+import { GitHubClient } from "./github-api.ts";
+import { Logger, PlannedAction } from "./types.ts";
+
+/**
+ * GitHub client that reads from the API as usual but records every write
+ * (comment, label, state change) as a planned action instead of sending it. Clients created
+ * with `forRepository` record into the same plan.
+ */
+export class DryRunGitHubClient extends GitHubClient {
+  readonly plan: PlannedAction[] = [];
+
+  override createComment(issueNumber: number, body: string): Promise<void> {
+    this.plan.push({ repository: this.repository, action: 'createComment', issueNumber, body });
+    return Promise.resolve();
+  }
+
+  override addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    this.plan.push({ repository: this.repository, action: 'addLabels', issueNumber, labels });
+    return Promise.resolve();
+  }
+
+  override removeLabel(issueNumber: number, label: string): Promise<void> {
+    this.plan.push({ repository: this.repository, action: 'removeLabel', issueNumber, label });
+    return Promise.resolve();
+  }
+
+  override updateIssue(issueNumber: number, data: { state?: 'open' | 'closed'; body?: string }): Promise<void> {
+    this.plan.push({ repository: this.repository, action: 'updateIssue', issueNumber, ...data });
+    return Promise.resolve();
+  }
+
+  override createIssue(title: string, body: string): Promise<number> {
+    this.plan.push({ repository: this.repository, action: 'createIssue', title, body });
+    // Nothing is created, so there is no number to return
+    return Promise.resolve(0);
+  }
+
+  override pinIssue(issueNumber: number): Promise<void> {
+    this.plan.push({ repository: this.repository, action: 'pinIssue', issueNumber });
+    return Promise.resolve();
+  }
+
+  /**
+   * Records the teardown hooks that would run for a closed issue
+   */
+  planTeardown(issueNumber: number, hooks: string[]): void {
+    this.plan.push({ repository: this.repository, action: 'teardown', issueNumber, hooks });
+  }
+}
+
+/**
+ * Prints the recorded plan, grouped by issue
+ */
+export function printPlan(plan: PlannedAction[], logger: Logger = console): void {
+  if (plan.length === 0) {
+    logger.log("✓ Dry run: no actions planned");
+    return;
+  }
+
+  logger.log(`📝 Dry run: ${plan.length} planned actions`);
+  const byIssue = new Map<string, PlannedAction[]>();
+  plan.forEach(action => {
+    const key = action.issueNumber ? `${action.repository}#${action.issueNumber}` : `${action.repository} (new issue)`;
+    byIssue.set(key, [...(byIssue.get(key) ?? []), action]);
+  });
+
+  for (const [issue, actions] of byIssue) {
+    logger.log(`  ${issue}`);
+    actions.forEach(action => logger.log(`    - ${describeAction(action)}`));
+  }
+}
+
+/**
+ * Writes the recorded plan to a JSON file
+ */
+export async function writePlan(plan: PlannedAction[], path: string, logger: Logger = console): Promise<void> {
+  await Deno.writeTextFile(path, JSON.stringify({ generatedAt: new Date().toISOString(), plan }, null, 2));
+  logger.log(`✓ Dry run plan written to ${path}`);
+}
+
+/**
+ * Returns a single-line description of a planned action
+ */
+function describeAction(action: PlannedAction): string {
+  switch (action.action) {
+    case 'createComment':
+      return `comment: "${action.body.split("\n")[0]}"`;
+    case 'addLabels':
+      return `add labels: ${action.labels.join(", ")}`;
+    case 'removeLabel':
+      return `remove label: ${action.label}`;
+    case 'updateIssue':
+      return `update issue: state=${action.state ?? "unchanged"}${action.body !== undefined ? ", body replaced" : ""}`;
+    case 'createIssue':
+      return `create issue: "${action.title}"`;
+    case 'pinIssue':
+      return 'pin issue';
+    case 'teardown':
+      return `run teardown hooks: ${action.hooks.join(", ")}`;
+  }
+}
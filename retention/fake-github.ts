@@ -0,0 +1,475 @@
+import { DEFAULT_BOT_USERNAME } from "./config.ts";
+
+export interface FakeComment {
+  id: number;
+  body: string;
+  user: { login: string };
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeEvent {
+  event: string;
+  actor: { login: string };
+  created_at: string;
+}
+
+export interface FakeIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: "open" | "closed";
+  user: { login: string };
+  labels: string[];
+  created_at: string;
+  updated_at: string;
+  html_url: string;
+  comments: FakeComment[];
+  events: FakeEvent[];
+}
+
+/**
+ * A failure returned instead of the real response for matching requests
+ */
+export interface InjectedFailure {
+  /** Any method by default */
+  method?: string;
+  /** Matched against the request path, e.g. `/repos/acme/qa/issues/1/comments`; any path by default */
+  path?: string | RegExp;
+  status: number;
+  message?: string;
+  /** Only GraphQL queries or only mutations; any request by default */
+  operation?: "query" | "mutation";
+  /** How many matching requests fail; 1 by default */
+  times?: number;
+}
+
+export interface FakeGitHubOptions {
+  /** Account that comments, labels and closes are attributed to */
+  login?: string;
+  /** Largest page size served, whatever `per_page` asks for */
+  maxPerPage?: number;
+  /** Requests allowed per hour before answering with a rate limit error */
+  rateLimit?: number;
+  /** Base of the issues' web pages; https://github.com by default */
+  webUrl?: string;
+}
+
+interface RateLimit {
+  remaining: number;
+  /** Epoch seconds */
+  reset: number;
+}
+
+type Route = [method: string, pattern: RegExp, handler: (match: string[], url: URL, body: Record<string, unknown>) => Response];
+
+const STATUS_TEXT: Record<number, string> = {
+  401: "Requires authentication",
+  403: "Forbidden",
+  404: "Not Found",
+  422: "Validation Failed",
+  500: "Server Error",
+  502: "Bad Gateway",
+};
+
+/**
+ * Timeline events as GraphQL names them, by REST event name
+ */
+const GRAPHQL_EVENTS: Record<string, string> = {
+  labeled: "LabeledEvent",
+  unlabeled: "UnlabeledEvent",
+  renamed: "RenamedTitleEvent",
+  reopened: "ReopenedEvent",
+  assigned: "AssignedEvent",
+  unassigned: "UnassignedEvent",
+};
+
+/**
+ * The parts of the GitHub REST API a retention run uses, served from memory: issues, comments,
+ * labels and timeline events of any number of repositories. Lists are paginated with `Link`
+ * headers and every response carries `x-ratelimit-*` headers. The GraphQL endpoint answers the
+ * open issue listing, issue details and pinning. Used by the integration tests, which point GITHUB_API_URL at it.
+ */
+export class FakeGitHubServer {
+  /** Every request received, as `METHOD /path?query` */
+  readonly requests: string[] = [];
+  /** Issues pinned through GraphQL, as `owner/name#number` */
+  readonly pinned: string[] = [];
+  /** Text of every GraphQL query and mutation received */
+  readonly queries: string[] = [];
+  private repositories = new Map<string, FakeIssue[]>();
+  private failures: InjectedFailure[] = [];
+  private rateLimit: RateLimit = { remaining: 0, reset: 0 };
+  private nextCommentId = 1;
+  private server?: Deno.HttpServer<Deno.NetAddr>;
+  private readonly login: string;
+  private readonly maxPerPage: number;
+  private readonly limit: number;
+  private readonly webUrl: string;
+  private readonly routes: Route[];
+
+  constructor(options: FakeGitHubOptions = {}) {
+    this.login = options.login ?? DEFAULT_BOT_USERNAME;
+    this.maxPerPage = options.maxPerPage ?? 100;
+    this.limit = options.rateLimit ?? 5000;
+    this.webUrl = options.webUrl ?? "https://github.com";
+
+    const issuePath = "^/repos/([^/]+/[^/]+)/issues/(\\d+)";
+    this.routes = [
+      ["GET", /^\/orgs\/([^/]+)\/repos$/, ([org], url) => this.listOrgRepositories(org, url)],
+      ["GET", /^\/repos\/([^/]+\/[^/]+)\/issues$/, ([repo], url) => this.listIssues(repo, url)],
+      ["POST", /^\/repos\/([^/]+\/[^/]+)\/issues$/, ([repo], _, body) => this.createIssue(repo, body)],
+      ["GET", new RegExp(`${issuePath}$`), ([repo, n]) => this.withIssue(repo, n, issue => json(200, toJson(issue)))],
+      ["PATCH", new RegExp(`${issuePath}$`), ([repo, n], _, body) => this.withIssue(repo, n, issue => this.updateIssue(issue, body))],
+      ["GET", new RegExp(`${issuePath}/comments$`), ([repo, n], url) => this.withIssue(repo, n, issue => this.page(url, issue.comments))],
+      ["POST", new RegExp(`${issuePath}/comments$`), ([repo, n], _, body) => this.withIssue(repo, n, issue => this.createComment(issue, body))],
+      ["POST", new RegExp(`${issuePath}/labels$`), ([repo, n], _, body) => this.withIssue(repo, n, issue => this.addLabels(issue, body))],
+      ["DELETE", new RegExp(`${issuePath}/labels/([^/]+)$`), ([repo, n, label]) => this.withIssue(repo, n, issue => this.removeLabel(issue, decodeURIComponent(label)))],
+      ["GET", new RegExp(`${issuePath}/timeline$`), ([repo, n], url) => this.withIssue(repo, n, issue => this.page(url, issue.events))],
+      ["GET", new RegExp(`${issuePath}/reactions$`), ([repo, n], url) => this.withIssue(repo, n, () => this.page(url, []))],
+      ["GET", /^\/repos\/([^/]+\/[^/]+)\/issues\/comments\/\d+\/reactions$/, (_, url) => this.page(url, [])],
+      ["POST", /^\/graphql$/, (_, __, body) => this.graphql(body)],
+    ];
+  }
+
+  /**
+   * Starts serving on a free local port and returns the API base URL
+   */
+  listen(): string {
+    this.server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, request => this.handle(request));
+    return `http://127.0.0.1:${this.server.addr.port}`;
+  }
+
+  async close(): Promise<void> {
+    await this.server?.shutdown();
+  }
+
+  /**
+   * Adds an open issue and returns its number. Dates default to now.
+   */
+  addIssue(
+    repository: string,
+    issue: { title: string; body?: string; user?: string; labels?: string[]; created_at?: string; updated_at?: string },
+  ): number {
+    const issues = this.repository(repository, true)!;
+    const createdAt = issue.created_at ?? new Date().toISOString();
+    const number = issues.length + 1;
+    issues.push({
+      number,
+      title: issue.title,
+      body: issue.body ?? null,
+      state: "open",
+      user: { login: issue.user ?? "alice" },
+      labels: issue.labels ?? [],
+      created_at: createdAt,
+      updated_at: issue.updated_at ?? createdAt,
+      html_url: `${this.webUrl}/${repository}/issues/${number}`,
+      comments: [],
+      events: [],
+    });
+    return number;
+  }
+
+  /**
+   * Adds a comment to an issue, as someone other than the bot by default
+   */
+  addComment(repository: string, issueNumber: number, comment: { body: string; user?: string; created_at?: string }): void {
+    const issue = this.issue(repository, issueNumber);
+    const createdAt = comment.created_at ?? new Date().toISOString();
+    issue.comments.push({
+      id: this.nextCommentId++,
+      body: comment.body,
+      user: { login: comment.user ?? "bob" },
+      created_at: createdAt,
+      updated_at: createdAt,
+    });
+    if (createdAt > issue.updated_at) issue.updated_at = createdAt;
+  }
+
+  /**
+   * Returns an issue as currently stored, to check what a run changed
+   */
+  issue(repository: string, issueNumber: number): FakeIssue {
+    const issue = this.repository(repository)?.find(i => i.number === issueNumber);
+    if (!issue) throw new Error(`No issue ${repository}#${issueNumber}`);
+    return issue;
+  }
+
+  /**
+   * Makes the next matching requests fail with the given status
+   */
+  failNext(failure: InjectedFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  /**
+   * Uses up the rate limit, so requests are refused until it resets in `seconds`
+   */
+  exhaustRateLimit(seconds: number): void {
+    this.rateLimit = { remaining: 0, reset: Math.ceil(Date.now() / 1000) + seconds };
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method;
+    this.requests.push(`${method} ${url.pathname}${url.search}`);
+    const body = request.body ? await request.json().catch(() => ({})) : {};
+
+    if (!/^Bearer \S+/.test(request.headers.get("authorization") ?? "")) {
+      return this.error(401);
+    }
+
+    const now = Date.now() / 1000;
+    if (now >= this.rateLimit.reset) {
+      this.rateLimit = { remaining: this.limit, reset: Math.ceil(now) + 3600 };
+    }
+    if (this.rateLimit.remaining === 0) {
+      return this.error(403, `API rate limit exceeded for ${this.login}.`);
+    }
+    this.rateLimit.remaining--;
+
+    const failure = this.failures.find(f =>
+      (!f.method || f.method === method) &&
+      (!f.path || (typeof f.path === "string" ? f.path === url.pathname : f.path.test(url.pathname))) &&
+      (!f.operation || (typeof body.query === "string" && /^\s*mutation\b/.test(body.query) === (f.operation === "mutation")))
+    );
+    if (failure) {
+      if (--failure.times! === 0) this.failures.splice(this.failures.indexOf(failure), 1);
+      return this.error(failure.status, failure.message);
+    }
+
+    for (const [routeMethod, pattern, handler] of this.routes) {
+      const match = routeMethod === method ? url.pathname.match(pattern) : null;
+      if (match) return this.withRateLimit(handler(match.slice(1), url, body));
+    }
+    return this.error(404);
+  }
+
+  private withRateLimit(response: Response): Response {
+    response.headers.set("x-ratelimit-limit", String(this.limit));
+    response.headers.set("x-ratelimit-remaining", String(this.rateLimit.remaining));
+    response.headers.set("x-ratelimit-reset", String(this.rateLimit.reset));
+    response.headers.set("x-ratelimit-resource", "core");
+    return response;
+  }
+
+  private error(status: number, message = STATUS_TEXT[status] ?? "Error"): Response {
+    return this.withRateLimit(json(status, { message, documentation_url: "https://docs.github.com/rest" }));
+  }
+
+  private repository(fullName: string, create = false): FakeIssue[] | undefined {
+    if (create && !this.repositories.has(fullName)) this.repositories.set(fullName, []);
+    return this.repositories.get(fullName);
+  }
+
+  private withIssue(repository: string, issueNumber: string, handler: (issue: FakeIssue) => Response): Response {
+    const issue = this.repository(repository)?.find(i => i.number === Number(issueNumber));
+    return issue ? handler(issue) : this.error(404);
+  }
+
+  /**
+   * Serves one page of a list, linking to the next one like GitHub does
+   */
+  private page(url: URL, items: unknown[]): Response {
+    const perPage = Math.min(Number(url.searchParams.get("per_page") ?? 30), this.maxPerPage);
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const response = json(200, items.slice((page - 1) * perPage, page * perPage));
+    if (page * perPage < items.length) {
+      const next = new URL(url);
+      next.searchParams.set("page", String(page + 1));
+      response.headers.set("link", `<${next}>; rel="next"`);
+    }
+    return response;
+  }
+
+  private listOrgRepositories(org: string, url: URL): Response {
+    const repositories = [...this.repositories.keys()]
+      .filter(fullName => fullName.startsWith(`${org}/`))
+      .map(fullName => ({ full_name: fullName, name: fullName.split("/")[1], topics: [], archived: false }));
+    return repositories.length > 0 ? this.page(url, repositories) : this.error(404);
+  }
+
+  private listIssues(repository: string, url: URL): Response {
+    const issues = this.repository(repository);
+    if (!issues) return this.error(404);
+    const state = url.searchParams.get("state") ?? "open";
+    // Newest first, like GitHub's default sort
+    const listed = issues.filter(i => state === "all" || i.state === state).reverse();
+    return this.page(url, listed.map(toJson));
+  }
+
+  private createIssue(repository: string, body: Record<string, unknown>): Response {
+    if (typeof body.title !== "string") return this.error(422);
+    const number = this.addIssue(repository, { title: body.title, body: body.body as string | undefined, user: this.login });
+    return json(201, toJson(this.issue(repository, number)));
+  }
+
+  private updateIssue(issue: FakeIssue, body: Record<string, unknown>): Response {
+    const now = new Date().toISOString();
+    if (body.state === "open" || body.state === "closed") {
+      if (body.state !== issue.state) {
+        issue.events.push({ event: body.state === "closed" ? "closed" : "reopened", actor: { login: this.login }, created_at: now });
+      }
+      issue.state = body.state;
+    }
+    if (typeof body.title === "string") issue.title = body.title;
+    if (typeof body.body === "string") issue.body = body.body;
+    issue.updated_at = now;
+    return json(200, toJson(issue));
+  }
+
+  private createComment(issue: FakeIssue, body: Record<string, unknown>): Response {
+    if (typeof body.body !== "string") return this.error(422);
+    const now = new Date().toISOString();
+    const comment: FakeComment = { id: this.nextCommentId++, body: body.body, user: { login: this.login }, created_at: now, updated_at: now };
+    issue.comments.push(comment);
+    issue.updated_at = now;
+    return json(201, comment);
+  }
+
+  private addLabels(issue: FakeIssue, body: Record<string, unknown>): Response {
+    if (!Array.isArray(body.labels)) return this.error(422);
+    const now = new Date().toISOString();
+    for (const label of body.labels as string[]) {
+      if (issue.labels.includes(label)) continue;
+      issue.labels.push(label);
+      issue.events.push({ event: "labeled", actor: { login: this.login }, created_at: now });
+      issue.updated_at = now;
+    }
+    return json(200, issue.labels.map(name => ({ name })));
+  }
+
+  private removeLabel(issue: FakeIssue, label: string): Response {
+    if (!issue.labels.includes(label)) return this.error(404, "Label does not exist");
+    const now = new Date().toISOString();
+    issue.labels = issue.labels.filter(l => l !== label);
+    issue.events.push({ event: "unlabeled", actor: { login: this.login }, created_at: now });
+    issue.updated_at = now;
+    return json(200, issue.labels.map(name => ({ name })));
+  }
+
+  /**
+   * Answers the GraphQL queries of the GraphQL data source and `pinIssue`, going by the fields
+   * they ask for
+   */
+  private graphql(body: Record<string, unknown>): Response {
+    const query = String(body.query ?? "");
+    const variables = (body.variables ?? {}) as Record<string, unknown>;
+    const repository = `${variables.owner}/${variables.name}`;
+    this.queries.push(query);
+
+    if (/^\s*mutation\b/.test(query) && query.includes("pinIssue")) {
+      const [fullName, number] = String(variables.id).split("#");
+      this.issue(fullName, Number(number));
+      this.pinned.push(String(variables.id));
+      return json(200, { data: { pinIssue: { issue: { number: Number(number) } } } });
+    }
+
+    const issues = this.repository(repository);
+    if (!issues) {
+      return json(200, { data: { repository: null }, errors: [{ message: `Could not resolve to a Repository with the name '${repository}'.` }] });
+    }
+
+    const single = query.match(/issue\(number: \$number\) \{ id \}/);
+    if (single) {
+      const issue = this.issue(repository, Number(variables.number));
+      return json(200, { data: { repository: { issue: { id: `${repository}#${issue.number}` } } } });
+    }
+
+    // Further comment pages of one issue
+    if (query.includes("issueOrPullRequest(number: $number)")) {
+      const issue = this.issue(repository, Number(variables.number));
+      return json(200, { data: { repository: { issueOrPullRequest: this.graphqlDetails(issue, query, Number(variables.after)) } } });
+    }
+
+    // Details of several issues, each under an alias
+    const details = [...query.matchAll(/(\w+): issueOrPullRequest\(number: (\d+)\)/g)];
+    if (details.length > 0) {
+      const nodes = details.map(([, alias, number]) => [alias, this.graphqlDetails(this.issue(repository, Number(number)), query, 0)]);
+      return json(200, { data: { repository: Object.fromEntries(nodes) } });
+    }
+
+    const connection = query.match(/(issues|pullRequests)\(states: OPEN, first: (\d+)/);
+    if (!connection) return json(200, { errors: [{ message: "Query not supported by the fake GitHub API" }] });
+
+    const [, name, first] = connection;
+    // Newest first, as the query orders them
+    const open = name === "issues" ? issues.filter(i => i.state === "open").reverse() : [];
+    const offset = variables.after ? Number(variables.after) : 0;
+    const end = offset + Math.min(Number(first), this.maxPerPage);
+    const nodes = open.slice(offset, end).map(toGraphQL);
+    return json(200, {
+      data: {
+        repository: {
+          [name]: { pageInfo: { hasNextPage: end < open.length, endCursor: end < open.length ? String(end) : null }, nodes },
+        },
+      },
+    });
+  }
+
+  /**
+   * Renders the comments of an issue from `offset` on, a page at most, with the reactions and
+   * timeline the query asks for
+   */
+  private graphqlDetails(issue: FakeIssue, query: string, offset: number) {
+    const end = offset + Math.min(100, this.maxPerPage);
+    return {
+      comments: {
+        pageInfo: { hasNextPage: end < issue.comments.length, endCursor: end < issue.comments.length ? String(end) : null },
+        nodes: issue.comments.slice(offset, end).map(c => ({
+          databaseId: c.id,
+          createdAt: c.created_at,
+          lastEditedAt: c.updated_at === c.created_at ? null : c.updated_at,
+          author: toActor(c.user.login),
+          body: c.body,
+          ...(query.includes("reactions(") ? { reactions: { nodes: [] } } : {}),
+        })),
+      },
+      ...(query.includes("reactions(") ? { reactions: { nodes: [] } } : {}),
+      ...(query.includes("timelineItems(")
+        ? {
+          timelineItems: {
+            nodes: issue.events
+              .filter(e => GRAPHQL_EVENTS[e.event])
+              .map(e => ({ __typename: GRAPHQL_EVENTS[e.event], createdAt: e.created_at, actor: toActor(e.actor.login) })),
+          },
+        }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Renders a login as a GraphQL actor; bots are listed without their `[bot]` suffix
+ */
+const toActor = (login: string) =>
+  login.endsWith("[bot]") ? { __typename: "Bot", login: login.slice(0, -"[bot]".length) } : { __typename: "User", login };
+
+/**
+ * Renders a stored issue as the GraphQL API lists it
+ */
+const toGraphQL = (issue: FakeIssue) => ({
+  __typename: "Issue",
+  number: issue.number,
+  title: issue.title,
+  createdAt: issue.created_at,
+  updatedAt: issue.updated_at,
+  body: issue.body ?? "",
+  url: issue.html_url,
+  author: toActor(issue.user.login),
+  assignees: { nodes: [] },
+  labels: { nodes: issue.labels.map(name => ({ name })) },
+});
+
+/**
+ * Renders a stored issue as the REST API returns it
+ */
+const toJson = ({ comments, events: _, labels, ...issue }: FakeIssue) => ({
+  ...issue,
+  labels: labels.map(name => ({ name })),
+  assignees: [],
+  comments: comments.length,
+});
+
+const json = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
@@ -0,0 +1,39 @@
+import { assertEquals } from "@std/assert";
+import { GitHubClient } from "./github-api.ts";
+import { RequestLimiter } from "./rate-limit.ts";
+
+Deno.test("comments are read across every page by following the Link header's next URL", async () => {
+  const comments = Array.from({ length: 5 }, (_, i) => ({
+    id: i + 1,
+    body: `Comment ${i + 1}`,
+    user: { login: "alice" },
+    created_at: "2026-10-19T09:00:00Z",
+    updated_at: "2026-10-19T09:00:00Z",
+  }));
+  const requests: string[] = [];
+  // Pages of two, linked the way GitHub does it: the next page isn't always listed first
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, request => {
+    const url = new URL(request.url);
+    requests.push(`${url.pathname}${url.search}`);
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const link = (n: number) => `<${url.origin}${url.pathname}?per_page=2&page=${n}>`;
+    const rels = [
+      ...(page > 1 ? [`${link(page - 1)}; rel="prev"`] : []),
+      ...(page < 3 ? [`${link(page + 1)}; rel="next"`, `${link(3)}; rel="last"`] : []),
+      ...(page > 1 ? [`${link(1)}; rel="first"`] : []),
+    ];
+    const headers: Record<string, string> = rels.length > 0 ? { link: rels.join(", ") } : {};
+    return Response.json(comments.slice((page - 1) * 2, page * 2), { headers });
+  });
+  try {
+    const client = new GitHubClient("test-token", "acme", "qa", false, new RequestLimiter(4, 0), undefined, `http://127.0.0.1:${server.addr.port}`);
+
+    const listed = await client.listComments(42);
+
+    assertEquals(listed.map(c => c.body), ["Comment 1", "Comment 2", "Comment 3", "Comment 4", "Comment 5"]);
+    assertEquals(requests.slice(1), ["/repos/acme/qa/issues/42/comments?per_page=2&page=2", "/repos/acme/qa/issues/42/comments?per_page=2&page=3"]);
+    assertEquals(requests[0].split("?")[0], "/repos/acme/qa/issues/42/comments");
+  } finally {
+    await server.shutdown();
+  }
+});
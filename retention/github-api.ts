@@ -1,16 +1,72 @@
-import { Issue, IssueComment } from "./types.ts";
+import { Issue, IssueComment, IssueEvent, Reaction, Repository, TokenProvider } from "./types.ts";
+import { getRetryDelay, RequestLimiter, sleep } from "./rate-limit.ts";
+import { CacheStore } from "./cache-store.ts";
 
-const BASE_URL = 'https://api.github.com';
+/**
+ * REST API of github.com; GitHub Enterprise Server and test servers have their own
+ */
+export const DEFAULT_API_URL = 'https://api.github.com';
+const PER_PAGE = 100;
+
+/**
+ * Attempts after the first for a request that hits a rate limit or a server error
+ */
+const MAX_RETRIES = 5;
+
+/**
+ * Methods that can safely be repeated after a server error. GraphQL requests are POSTs, so
+ * `graphql` decides for itself: queries are repeated, mutations aren't.
+ */
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * A request GitHub rejected, or one that could not reach it
+ */
+export class GitHubApiError extends Error {
+  /**
+   * @param status HTTP status of the response, if there was one
+   */
+  constructor(message: string, readonly status?: number, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/**
+ * `fetch`, failing with a GitHubApiError when the request doesn't get a response (DNS failures,
+ * refused connections and the like)
+ */
+export async function fetchGitHub(url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+    throw new GitHubApiError(`Could not reach GitHub: ${error.message}`, undefined, { cause: error });
+  }
+}
 
 interface GitHubErrorResponse {
   message: string;
   documentation_url?: string;
 }
 
-interface GitHubRateLimit {
-  limit: number;
-  remaining: number;
-  reset: number;
+/**
+ * A cached GET response with the validators used to revalidate it
+ */
+interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  data: unknown;
+  next?: string;
+}
+
+/**
+ * A request, with how it may be retried and cached
+ */
+interface SendOptions extends RequestInit {
+  /** Whether the request may be repeated after a server error; by default for idempotent methods */
+  idempotent?: boolean;
+  /** Whether a GET response is kept in the cache; off for lists the caller caches itself */
+  store?: boolean;
 }
 
 interface GitHubLabel {
@@ -26,131 +82,371 @@ interface GitHubIssue {
   title: string;
   created_at: string;
   updated_at: string;
+  body?: string | null;
   user: GitHubUser;
+  assignees?: GitHubUser[];
   labels: GitHubLabel[];
+  state: 'open' | 'closed';
+  html_url: string;
+  pull_request?: unknown;
 }
 
 interface GitHubComment {
+  id: number;
   created_at: string;
+  updated_at?: string;
   user: GitHubUser;
   body: string;
 }
 
+interface GitHubTimelineEvent {
+  event: string;
+  created_at?: string;
+  actor?: GitHubUser | null;
+}
+
+interface GitHubRepository {
+  name: string;
+  full_name: string;
+  topics?: string[];
+  archived: boolean;
+}
+
+interface GitHubReaction {
+  content: string;
+  created_at: string;
+  user: GitHubUser | null;
+}
+
 export class GitHubClient {
+  /**
+   * @param token a static token, or a provider minting tokens per repository (GitHub App)
+   */
   constructor(
-    private token: string,
+    private token: string | TokenProvider,
     private owner: string,
     private repo: string,
-    private debug = false
+    private debug = false,
+    private limiter = new RequestLimiter(),
+    private cache?: CacheStore,
+    private baseUrl = DEFAULT_API_URL,
   ) {}
 
+  /**
+   * The repository this client works on, as `owner/name`
+   */
+  get repository(): string {
+    return `${this.owner}/${this.repo}`;
+  }
+
+  /**
+   * Returns a client for another repository that shares this client's token (or token provider)
+   * and settings. Subclass state (such as a dry-run plan) is shared with the new client.
+   */
+  forRepository(repository: string): this {
+    const [owner, repo] = repository.split('/');
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, { owner, repo });
+  }
+
   private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
-    const url = `${BASE_URL}${path}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+    const { data } = await this.send<T>(path, options);
+    return data;
+  }
 
-    // Parse rate limit info
-    const rateLimit: GitHubRateLimit = {
-      limit: Number(response.headers.get('x-ratelimit-limit')),
-      remaining: Number(response.headers.get('x-ratelimit-remaining')),
-      reset: Number(response.headers.get('x-ratelimit-reset')),
-    };
+  /**
+   * Sends a request and returns the parsed body along with the URL of the next page, if any.
+   * `path` may be an API path or an absolute URL taken from a `Link` header. Requests go through
+   * the shared limiter and are retried on rate limits, and on server errors when `idempotent`.
+   * With a cache, GET requests are sent conditionally and a `304 Not Modified` is answered from
+   * the cache.
+   */
+  private async send<T>(path: string, sendOptions: SendOptions = {}): Promise<{ data: T; next?: string }> {
+    const url = path.startsWith('http') ? path : `${this.baseUrl}${path}`;
+    const method = sendOptions.method || 'GET';
+    const { idempotent = IDEMPOTENT_METHODS.includes(method), store = true, ...options } = sendOptions;
+    const resource = url.includes('/graphql') ? 'graphql' : 'core';
 
-    if (this.debug) {
-      console.log(`[GitHub API] ${options.method || 'GET'} ${path} - Rate limit: ${rateLimit.remaining}/${rateLimit.limit}`);
-    }
+    const cacheKey = method === 'GET' && store && this.cache ? `http:${url}` : undefined;
+    const cached = cacheKey ? await this.cache!.get<CachedResponse>(cacheKey) : undefined;
+    const conditional: Record<string, string> = cached?.etag
+      ? { 'If-None-Match': cached.etag }
+      : cached?.lastModified ? { 'If-Modified-Since': cached.lastModified } : {};
 
-    const data = await response.json();
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.limiter.run(resource, async () => {
+        const token = typeof this.token === 'string'
+          ? this.token
+          : await this.token.getToken(this.owner, this.repo || undefined);
+        return await fetchGitHub(url, {
+          ...options,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Accept': 'application/vnd.github.v3+json',
+            'Content-Type': 'application/json',
+            ...conditional,
+            ...options.headers,
+          },
+        });
+      });
+      this.limiter.update(resource, response.headers);
 
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${(data as GitHubErrorResponse).message}`);
-    }
+      if (this.debug) {
+        const remaining = response.headers.get('x-ratelimit-remaining');
+        const limit = response.headers.get('x-ratelimit-limit');
+        console.log(`[GitHub API] ${method} ${url.replace(this.baseUrl, '')} ${response.status} - Rate limit: ${remaining}/${limit}`);
+      }
 
-    return data as T;
-  }
+      if (response.status === 304 && cached) {
+        await response.body?.cancel();
+        return { data: cached.data as T, next: cached.next };
+      }
 
-  private async retryWithRateLimit<T>(fn: () => Promise<T>, retries = 3): Promise<T> {
-    try {
-      return await fn();
-    } catch (error: unknown) {
-      if (retries > 0 && error instanceof Error && error.message.includes('API rate limit exceeded')) {
-        const waitTime = 1000 * 60; // Wait 1 minute before retrying
-        if (this.debug) {
-          console.log(`Rate limit hit, waiting ${waitTime}ms before retry. ${retries} retries left`);
+      const text = response.status === 204 ? '' : await response.text();
+      const data = text ? parseJson(text) : undefined;
+
+      if (response.ok) {
+        const next = parseNextLink(response.headers.get('link'));
+        const etag = response.headers.get('etag') ?? undefined;
+        const lastModified = response.headers.get('last-modified') ?? undefined;
+        if (cacheKey && (etag || lastModified)) {
+          await this.cache!.set<CachedResponse>(cacheKey, { etag, lastModified, data, next });
         }
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.retryWithRateLimit(fn, retries - 1);
+        return { data: data as T, next };
+      }
+
+      const message = (data as GitHubErrorResponse | undefined)?.message ?? response.statusText;
+      const delay = attempt < MAX_RETRIES
+        ? getRetryDelay(response, message, attempt, idempotent)
+        : undefined;
+      if (delay === undefined) {
+        throw new GitHubApiError(`GitHub API error: ${message}`, response.status);
       }
-      throw error;
+
+      console.log(`⏳ GitHub API ${response.status} on ${method} ${url.replace(this.baseUrl, '')}, retrying in ${Math.ceil(delay / 1000)}s (${MAX_RETRIES - attempt} retries left)`);
+      await sleep(delay);
     }
   }
 
-  async listIssues(): Promise<Issue[]> {
-    const data = await this.retryWithRateLimit(async () => {
-      const response = await this.request<GitHubIssue[]>(`/repos/${this.owner}/${this.repo}/issues?state=open&per_page=100`);
-      return response.map(issue => ({
-        number: issue.number,
-        title: issue.title,
-        created_at: issue.created_at,
-        updated_at: issue.updated_at,
-        user: { login: issue.user.login },
-        labels: issue.labels.map(label => ({ name: label.name })),
-      }));
+  /**
+   * Runs a GraphQL query or mutation, throwing if the response contains errors. Only queries are
+   * retried after a server error, as a failed mutation may still have been applied.
+   */
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    // GitHub Enterprise Server serves GraphQL at /api/graphql, next to the REST API at /api/v3
+    const url = this.baseUrl.endsWith('/api/v3') ? `${this.baseUrl.slice(0, -'v3'.length)}graphql` : `${this.baseUrl}/graphql`;
+    const mutation = /^\s*mutation\b/.test(query);
+    const { data: { data, errors } } = await this.send<{ data?: T; errors?: Array<{ message: string }> }>(url, {
+      method: 'POST',
+      body: JSON.stringify({ query, variables }),
+      idempotent: !mutation,
     });
-    return data;
+    if (errors?.length) {
+      throw new GitHubApiError(`GitHub GraphQL error: ${errors.map(e => e.message).join('; ')}`);
+    }
+    return data as T;
   }
 
-  async listComments(issueNumber: number): Promise<IssueComment[]> {
-    const data = await this.retryWithRateLimit(async () => {
-      const response = await this.request<GitHubComment[]>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/comments`);
-      return response.map(comment => ({
+  /**
+   * Iterates over every item of a paginated list endpoint, following `Link` headers. With `store`
+   * off the pages aren't kept in the cache, for lists the caller caches itself.
+   */
+  async *paginate<T>(path: string, store = true): AsyncGenerator<T> {
+    let next: string | undefined = path;
+    while (next) {
+      const url: string = next;
+      const page = await this.send<T[]>(url, { store });
+      yield* page.data;
+      next = page.next;
+    }
+  }
+
+  /**
+   * Iterates over all open issues in the repository
+   */
+  async *iterateIssues(): AsyncGenerator<Issue> {
+    const path = `/repos/${this.owner}/${this.repo}/issues?state=open&per_page=${PER_PAGE}`;
+    for await (const issue of this.paginate<GitHubIssue>(path)) {
+      yield this.toIssue(issue);
+    }
+  }
+
+  /**
+   * Fetches a single issue
+   */
+  async getIssue(issueNumber: number): Promise<Issue> {
+    const issue = await this.request<GitHubIssue>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}`);
+    return this.toIssue(issue);
+  }
+
+  private toIssue(issue: GitHubIssue): Issue {
+    return {
+      number: issue.number,
+      title: issue.title,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      body: issue.body ?? undefined,
+      user: { login: issue.user.login },
+      assignees: issue.assignees?.map(assignee => ({ login: assignee.login })) ?? [],
+      labels: issue.labels.map(label => ({ name: label.name })),
+      state: issue.state,
+      isPullRequest: issue.pull_request !== undefined,
+      repository: this.repository,
+      html_url: issue.html_url,
+    };
+  }
+
+  /**
+   * Iterates over all comments on an issue. The pages aren't cached here: the comments are cached
+   * by the issue's `updated_at` instead (see issues-api.ts).
+   */
+  async *iterateComments(issueNumber: number): AsyncGenerator<IssueComment> {
+    const path = `/repos/${this.owner}/${this.repo}/issues/${issueNumber}/comments?per_page=${PER_PAGE}`;
+    for await (const comment of this.paginate<GitHubComment>(path, false)) {
+      yield {
+        id: comment.id,
         created_at: comment.created_at,
+        updated_at: comment.updated_at,
         user: { login: comment.user.login },
         body: comment.body,
-      }));
-    });
-    return data;
+      };
+    }
+  }
+
+  /**
+   * Iterates over the timeline events of an issue (labels, renames, reopens, ...).
+   * Events without a timestamp or actor, such as commits, are skipped. Like comments, they're
+   * cached by the issue's `updated_at` rather than per page.
+   */
+  async *iterateTimeline(issueNumber: number): AsyncGenerator<IssueEvent> {
+    const path = `/repos/${this.owner}/${this.repo}/issues/${issueNumber}/timeline?per_page=${PER_PAGE}`;
+    for await (const event of this.paginate<GitHubTimelineEvent>(path, false)) {
+      if (!event.created_at || !event.actor) continue;
+      yield {
+        event: event.event,
+        created_at: event.created_at,
+        actor: { login: event.actor.login },
+      };
+    }
+  }
+
+  /**
+   * Iterates over the reactions on an issue, or on one of its comments when `commentId` is given
+   */
+  async *iterateReactions(issueNumber: number, commentId?: number): AsyncGenerator<Reaction> {
+    const target = commentId === undefined ? `issues/${issueNumber}` : `issues/comments/${commentId}`;
+    const path = `/repos/${this.owner}/${this.repo}/${target}/reactions?per_page=${PER_PAGE}`;
+    for await (const reaction of this.paginate<GitHubReaction>(path)) {
+      if (!reaction.user) continue;
+      yield {
+        content: reaction.content,
+        created_at: reaction.created_at,
+        user: { login: reaction.user.login },
+      };
+    }
+  }
+
+  /**
+   * Iterates over the repositories of an organization
+   */
+  async *iterateOrgRepositories(org: string): AsyncGenerator<Repository> {
+    const path = `/orgs/${org}/repos?type=all&per_page=${PER_PAGE}`;
+    for await (const repo of this.paginate<GitHubRepository>(path)) {
+      yield {
+        fullName: repo.full_name,
+        name: repo.name,
+        topics: repo.topics ?? [],
+        archived: repo.archived,
+      };
+    }
+  }
+
+  async listIssues(): Promise<Issue[]> {
+    return await Array.fromAsync(this.iterateIssues());
+  }
+
+  async listComments(issueNumber: number): Promise<IssueComment[]> {
+    return await Array.fromAsync(this.iterateComments(issueNumber));
+  }
+
+  async listTimeline(issueNumber: number): Promise<IssueEvent[]> {
+    return await Array.fromAsync(this.iterateTimeline(issueNumber));
+  }
+
+  async listReactions(issueNumber: number, commentId?: number): Promise<Reaction[]> {
+    return await Array.fromAsync(this.iterateReactions(issueNumber, commentId));
   }
 
   async createComment(issueNumber: number, body: string): Promise<void> {
-    await this.retryWithRateLimit(() => 
-      this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/comments`, {
-        method: 'POST',
-        body: JSON.stringify({ body }),
-      })
-    );
+    await this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
   }
 
   async addLabels(issueNumber: number, labels: string[]): Promise<void> {
-    await this.retryWithRateLimit(() => 
-      this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/labels`, {
-        method: 'POST',
-        body: JSON.stringify({ labels }),
-      })
-    );
+    await this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/labels`, {
+      method: 'POST',
+      body: JSON.stringify({ labels }),
+    });
   }
 
   async removeLabel(issueNumber: number, label: string): Promise<void> {
-    await this.retryWithRateLimit(() => 
-      this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/labels/${encodeURIComponent(label)}`, {
-        method: 'DELETE',
-      })
-    );
+    await this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}/labels/${encodeURIComponent(label)}`, {
+      method: 'DELETE',
+    });
   }
 
-  async updateIssue(issueNumber: number, data: { state?: 'open' | 'closed' }): Promise<void> {
-    await this.retryWithRateLimit(() => 
-      this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}`, {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      })
+  async updateIssue(issueNumber: number, data: { state?: 'open' | 'closed'; body?: string }): Promise<void> {
+    await this.request<void>(`/repos/${this.owner}/${this.repo}/issues/${issueNumber}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Opens a new issue and returns its number
+   */
+  async createIssue(title: string, body: string): Promise<number> {
+    const issue = await this.request<GitHubIssue>(`/repos/${this.owner}/${this.repo}/issues`, {
+      method: 'POST',
+      body: JSON.stringify({ title, body }),
+    });
+    return issue.number;
+  }
+
+  /**
+   * Pins an issue to the top of the repository's issue list. Only available through GraphQL.
+   */
+  async pinIssue(issueNumber: number): Promise<void> {
+    const [owner, name] = this.repository.split('/');
+    const { repository } = await this.graphql<{ repository: { issue: { id: string } } }>(
+      `query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) { issue(number: $number) { id } }
+      }`,
+      { owner, name, number: issueNumber },
     );
+    await this.graphql(`mutation($id: ID!) { pinIssue(input: { issueId: $id }) { issue { number } } }`, {
+      id: repository.issue.id,
+    });
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Parses a response body, returning undefined for non-JSON bodies such as proxy error pages
+ */
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts the `rel="next"` URL from a GitHub `Link` header
+ */
+function parseNextLink(header: string | null): string | undefined {
+  if (!header) return undefined;
+  const match = header.split(',').map(part => part.trim()).find(part => part.endsWith('rel="next"'));
+  return match?.match(/^<([^>]+)>/)?.[1];
+}
@@ -0,0 +1,184 @@
+import { GitHubAppCredentials, TokenProvider } from "./types.ts";
+import { DEFAULT_API_URL, fetchGitHub, GitHubApiError, parseJson } from "./github-api.ts";
+
+/**
+ * Installation tokens are refreshed once they expire within this margin
+ */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Lifetime of the app JWT. GitHub accepts at most 10 minutes.
+ */
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+/**
+ * DER encoding of the rsaEncryption algorithm identifier, used to wrap PKCS#1 keys as PKCS#8
+ */
+const RSA_ALGORITHM_IDENTIFIER = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Encodes bytes or a string as base64url without padding
+ */
+function base64url(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Encodes a DER element with the given tag
+ */
+function der(tag: number, content: Uint8Array): Uint8Array<ArrayBuffer> {
+  const length = content.length < 0x80
+    ? [content.length]
+    : (() => {
+      const bytes: number[] = [];
+      for (let n = content.length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+      return [0x80 | bytes.length, ...bytes];
+    })();
+  return new Uint8Array([tag, ...length, ...content]);
+}
+
+/**
+ * Converts a PEM private key to PKCS#8 DER. GitHub issues PKCS#1 (`RSA PRIVATE KEY`) keys,
+ * which Web Crypto can't import directly, so those are wrapped.
+ */
+function pemToPkcs8(pem: string): Uint8Array<ArrayBuffer> {
+  const match = pem.match(/-----BEGIN (RSA )?PRIVATE KEY-----([\s\S]+?)-----END (RSA )?PRIVATE KEY-----/);
+  if (!match) {
+    throw new Error("GitHub App private key must be a PEM encoded RSA key");
+  }
+  const der64 = match[2].replace(/\s+/g, '');
+  const key = Uint8Array.from(atob(der64), c => c.charCodeAt(0));
+  if (!match[1]) return key;
+
+  return der(0x30, new Uint8Array([0x02, 0x01, 0x00, ...RSA_ALGORITHM_IDENTIFIER, ...der(0x04, key)]));
+}
+
+/**
+ * Signs a JWT that authenticates as the app itself
+ */
+export async function createAppJwt(appId: string, privateKey: string, now = Date.now()): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToPkcs8(privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+
+  // Backdate issuance to allow for clock drift
+  const iat = Math.floor(now / 1000) - 60;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat, exp: iat + JWT_LIFETIME_SECONDS, iss: appId }));
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Provides installation tokens for a GitHub App. The installation is discovered per repository
+ * (or organization) unless configured, and tokens are cached and refreshed before they expire.
+ */
+export class GitHubAppAuth implements TokenProvider {
+  private installations = new Map<string, Promise<number>>();
+  private tokens = new Map<number, Promise<InstallationToken>>();
+
+  /**
+   * @param now current time in ms, checked against token expiry
+   */
+  constructor(
+    private credentials: GitHubAppCredentials,
+    private debug = false,
+    private baseUrl = DEFAULT_API_URL,
+    private now = () => Date.now(),
+  ) {}
+
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetchGitHub(`${this.baseUrl}${path}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${await createAppJwt(this.credentials.appId, this.credentials.privateKey)}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    });
+    const data = parseJson(await response.text());
+    if (!response.ok) {
+      throw new GitHubApiError(
+        `GitHub App authentication failed: ${(data as { message?: string } | undefined)?.message ?? response.status}`,
+        response.status,
+      );
+    }
+    if (data === undefined) {
+      throw new GitHubApiError(`GitHub App authentication failed: unreadable response from ${path}`, response.status);
+    }
+    return data as T;
+  }
+
+  /**
+   * Returns the login the app comments as, e.g. `my-app[bot]`
+   */
+  async getBotUsername(): Promise<string> {
+    const app = await this.request<{ slug: string }>('/app');
+    return `${app.slug}[bot]`;
+  }
+
+  /**
+   * Finds the installation for a repository, or for an organization when `repo` is omitted
+   */
+  private getInstallationId(owner: string, repo?: string): Promise<number> {
+    if (this.credentials.installationId) return Promise.resolve(this.credentials.installationId);
+
+    const target = repo ? `repos/${owner}/${repo}` : `orgs/${owner}`;
+    let installation = this.installations.get(target);
+    if (!installation) {
+      installation = this.request<{ id: number }>(`/${target}/installation`)
+        .then(({ id }) => id)
+        .catch(error => {
+          this.installations.delete(target);
+          if (!(error instanceof GitHubApiError)) throw error;
+          throw new GitHubApiError(
+            `No GitHub App installation found for ${target.replace(/^\w+\//, '')}: ${error.message}`,
+            error.status,
+            { cause: error },
+          );
+        });
+      this.installations.set(target, installation);
+    }
+    return installation;
+  }
+
+  /**
+   * Exchanges the app JWT for a token of an installation
+   */
+  private async createInstallationToken(installationId: number): Promise<InstallationToken> {
+    const { token, expires_at } = await this.request<{ token: string; expires_at: string }>(
+      `/app/installations/${installationId}/access_tokens`,
+      { method: 'POST' },
+    );
+    if (this.debug) {
+      console.log(`[GitHub App] Created token for installation ${installationId}, expires ${expires_at}`);
+    }
+    return { token, expiresAt: new Date(expires_at).getTime() };
+  }
+
+  async getToken(owner: string, repo?: string): Promise<string> {
+    const installationId = await this.getInstallationId(owner, repo);
+
+    const cached = this.tokens.get(installationId);
+    if (cached) {
+      const { token, expiresAt } = await cached;
+      if (expiresAt - this.now() > REFRESH_MARGIN_MS) return token;
+      // Another request may already be refreshing it
+      if (this.tokens.get(installationId) !== cached) return this.getToken(owner, repo);
+    }
+
+    const created = this.createInstallationToken(installationId);
+    this.tokens.set(installationId, created);
+    created.catch(() => this.tokens.delete(installationId));
+    return (await created).token;
+  }
+}
@@ -0,0 +1,108 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { FakeGitHubServer } from "./fake-github.ts";
+import { GitHubClient } from "./github-api.ts";
+import { fetchIssuesWithDetails } from "./github-graphql.ts";
+import { RequestLimiter } from "./rate-limit.ts";
+
+const BOT = "github-actions[bot]";
+
+/**
+ * Runs a test with a client of acme/qa talking to a fake GitHub API
+ */
+function withClient(test: (github: FakeGitHubServer, client: GitHubClient) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const github = new FakeGitHubServer({ maxPerPage: 2 });
+    const client = new GitHubClient("test-token", "acme", "qa", false, new RequestLimiter(4, 0), undefined, github.listen());
+    try {
+      await test(github, client);
+    } finally {
+      await github.close();
+    }
+  };
+}
+
+Deno.test(
+  "the GraphQL data source returns issues, comments and events in the same shape as REST",
+  withClient(async (github, client) => {
+    const checkout = github.addIssue("acme/qa", {
+      title: "QA-Instance ready: checkout",
+      body: "Namespace: qa-checkout",
+      labels: ["qa", "retention-warning"],
+      created_at: "2026-10-15T09:00:00Z",
+    });
+    github.addComment("acme/qa", checkout, { body: "Still testing", created_at: "2026-10-16T09:00:00Z" });
+    github.addComment("acme/qa", checkout, { body: "⚠️ Inactive", user: BOT, created_at: "2026-10-17T09:00:00Z" });
+    github.issue("acme/qa", checkout).comments[0].updated_at = "2026-10-16T10:00:00Z";
+    github.issue("acme/qa", checkout).events.push(
+      { event: "labeled", actor: { login: "carol" }, created_at: "2026-10-16T11:00:00Z" },
+      { event: "reopened", actor: { login: BOT }, created_at: "2026-10-17T11:00:00Z" },
+    );
+    github.addIssue("acme/qa", { title: "QA-Instance ready: search", created_at: "2026-10-18T09:00:00Z" });
+    github.addIssue("acme/qa", { title: "Checkout button misaligned", created_at: "2026-10-19T09:00:00Z" });
+
+    const rest = await Promise.all((await client.listIssues()).map(async issue => ({
+      ...issue,
+      comments: await client.listComments(issue.number),
+      events: await client.listTimeline(issue.number),
+      reactions: await client.listReactions(issue.number),
+    })));
+    const graphql = await fetchIssuesWithDetails(client, {
+      pullRequests: false,
+      timeline: true,
+      reactions: true,
+      botUsername: BOT,
+      withDetails: () => true,
+    });
+
+    assertEquals(graphql, rest);
+    assertEquals(graphql.map(i => i.number), [3, 2, 1]);
+    assertEquals(graphql[2].comments!.map(c => `${c.user.login}: ${c.body}`), ["bob: Still testing", `${BOT}: ⚠️ Inactive`]);
+    assertEquals(graphql[2].events!.map(e => `${e.event} by ${e.actor.login}`), ["labeled by carol", `reopened by ${BOT}`]);
+  }),
+);
+
+Deno.test(
+  "only the selected issues get details, with all their comment pages",
+  withClient(async (github, client) => {
+    const bug = github.addIssue("acme/qa", { title: "Checkout button misaligned" });
+    const checkout = github.addIssue("acme/qa", { title: "QA-Instance ready: checkout" });
+    for (const issue of [bug, checkout]) {
+      for (const body of ["one", "two", "three", "four", "five"]) github.addComment("acme/qa", issue, { body });
+    }
+
+    const issues = await fetchIssuesWithDetails(client, {
+      pullRequests: false,
+      timeline: false,
+      reactions: false,
+      botUsername: BOT,
+      withDetails: issue => issue.title.startsWith("QA-Instance ready"),
+    });
+
+    assertEquals(issues.map(i => [i.number, i.comments?.map(c => c.body)]), [
+      [checkout, ["one", "two", "three", "four", "five"]],
+      [bug, undefined],
+    ]);
+    // The listing, the details of the instance, then its two further comment pages
+    const numbers = github.queries.map(query => query.match(/issueOrPullRequest\(number: (\$?\w+)\)/)?.[1]);
+    assertEquals(numbers, [undefined, String(checkout), "$number", "$number"]);
+  }),
+);
+
+Deno.test(
+  "a GraphQL mutation that fails with a server error isn't retried, a query is",
+  withClient(async (github, client) => {
+    const number = github.addIssue("acme/qa", { title: "QA instance dashboard" });
+    const graphqlRequests = () => github.requests.filter(r => r === "POST /graphql").length;
+
+    github.failNext({ path: "/graphql", operation: "mutation", status: 502 });
+    await assertRejects(() => client.pinIssue(number), Error, "GitHub API error: Bad Gateway");
+    // The lookup of the issue's id, then the mutation once
+    assertEquals(graphqlRequests(), 2);
+    assertEquals(github.pinned, []);
+
+    github.failNext({ path: "/graphql", operation: "query", status: 502 });
+    await client.pinIssue(number);
+    assertEquals(graphqlRequests(), 2 + 3);
+    assertEquals(github.pinned, [`acme/qa#${number}`]);
+  }),
+);
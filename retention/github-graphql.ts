@@ -0,0 +1,312 @@
+import { GitHubClient } from "./github-api.ts";
+import { Issue, IssueComment, IssueEvent, Reaction } from "./types.ts";
+
+/**
+ * Issues per page. Kept small so the nested connections stay well below GitHub's node limit.
+ */
+const ISSUES_PER_PAGE = 25;
+
+/**
+ * Reaction contents as GraphQL names them, mapped to the REST names
+ */
+const REACTION_CONTENT: Record<string, string> = {
+  THUMBS_UP: '+1',
+  THUMBS_DOWN: '-1',
+  LAUGH: 'laugh',
+  HOORAY: 'hooray',
+  CONFUSED: 'confused',
+  HEART: 'heart',
+  ROCKET: 'rocket',
+  EYES: 'eyes',
+};
+
+/**
+ * Timeline item types, mapped to the REST event names
+ */
+const TIMELINE_EVENTS: Record<string, string> = {
+  LabeledEvent: 'labeled',
+  UnlabeledEvent: 'unlabeled',
+  RenamedTitleEvent: 'renamed',
+  ReopenedEvent: 'reopened',
+  AssignedEvent: 'assigned',
+  UnassignedEvent: 'unassigned',
+};
+
+interface GraphQLActor {
+  __typename: string;
+  login: string;
+}
+
+interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface GraphQLReaction {
+  content: string;
+  createdAt: string;
+  user: { login: string } | null;
+}
+
+interface GraphQLComment {
+  databaseId: number;
+  createdAt: string;
+  lastEditedAt: string | null;
+  author: GraphQLActor | null;
+  body: string;
+  reactions?: { nodes: GraphQLReaction[] };
+}
+
+interface GraphQLIssue {
+  __typename: 'Issue' | 'PullRequest';
+  number: number;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  body: string;
+  url: string;
+  author: GraphQLActor | null;
+  assignees: { nodes: Array<{ login: string }> };
+  labels: { nodes: Array<{ name: string }> };
+}
+
+interface GraphQLIssueDetails {
+  comments: { pageInfo: GraphQLPageInfo; nodes: GraphQLComment[] };
+  reactions?: { nodes: GraphQLReaction[] };
+  timelineItems?: { nodes: Array<{ __typename: string; createdAt: string; actor: GraphQLActor | null }> };
+}
+
+interface GraphQLConnection<T> {
+  pageInfo: GraphQLPageInfo;
+  nodes: T[];
+}
+
+/**
+ * What to fetch along with the issues
+ */
+export interface GraphQLFetchOptions {
+  /** Also fetch open pull requests */
+  pullRequests: boolean;
+  timeline: boolean;
+  reactions: boolean;
+  /** Reactions are fetched on the issue and on this account's comments */
+  botUsername: string;
+  /** Selects the issues whose comments, timeline and reactions are fetched */
+  withDetails: (issue: Issue) => boolean;
+}
+
+const REACTION_FIELDS = `content createdAt user { login }`;
+
+/**
+ * Fields fetched for a comment
+ */
+const commentFields = (reactions: boolean) => `
+  databaseId createdAt lastEditedAt body
+  author { __typename login }
+  ${reactions ? `reactions(last: 10) { nodes { ${REACTION_FIELDS} } }` : ''}`;
+
+/**
+ * Fields fetched for every open issue or pull request, enough to tell whether it's a QA instance
+ */
+const ISSUE_FIELDS = `
+  __typename number title createdAt updatedAt body url
+  author { __typename login }
+  assignees(first: 100) { nodes { login } }
+  labels(first: 100) { nodes { name } }`;
+
+/**
+ * Fields fetched for the selected issues. Only the latest reactions and timeline events are
+ * needed to find the last activity; comments are paginated in full.
+ */
+const detailFields = ({ timeline, reactions }: GraphQLFetchOptions) => `
+  comments(first: 100) { pageInfo { hasNextPage endCursor } nodes { ${commentFields(reactions)} } }
+  ${reactions ? `reactions(last: 100) { nodes { ${REACTION_FIELDS} } }` : ''}
+  ${timeline
+    ? `timelineItems(last: 100, itemTypes: [${Object.keys(TIMELINE_EVENTS).map(toItemType).join(', ')}]) {
+    nodes { __typename ${Object.keys(TIMELINE_EVENTS).map(t => `... on ${t} { createdAt actor { __typename login } }`).join(' ')} }
+  }`
+    : ''}`;
+
+/**
+ * Converts a timeline type name (`LabeledEvent`) to its item type (`LABELED_EVENT`)
+ */
+function toItemType(typename: string): string {
+  return typename.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * Returns the login of an actor the way the REST API reports it (bots end in `[bot]`)
+ */
+const toLogin = (actor: GraphQLActor | null): string =>
+  !actor ? 'ghost' : actor.__typename === 'Bot' ? `${actor.login}[bot]` : actor.login;
+
+const toReactions = (reactions: GraphQLReaction[] = []): Reaction[] =>
+  reactions
+    .filter(r => r.user)
+    .map(r => ({ content: REACTION_CONTENT[r.content] ?? r.content.toLowerCase(), created_at: r.createdAt, user: { login: r.user!.login } }));
+
+const toComment = (comment: GraphQLComment): IssueComment => ({
+  id: comment.databaseId,
+  created_at: comment.createdAt,
+  updated_at: comment.lastEditedAt ?? comment.createdAt,
+  user: { login: toLogin(comment.author) },
+  body: comment.body,
+});
+
+/**
+ * Fetches the comments of an issue beyond the first page
+ */
+async function fetchRemainingComments(
+  client: GitHubClient,
+  number: number,
+  after: string,
+  options: GraphQLFetchOptions,
+): Promise<GraphQLComment[]> {
+  const [owner, name] = client.repository.split('/');
+  const query = `query($owner: String!, $name: String!, $number: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      issueOrPullRequest(number: $number) {
+        ... on Issue { comments(first: 100, after: $after) { pageInfo { hasNextPage endCursor } nodes { ${commentFields(options.reactions)} } } }
+        ... on PullRequest { comments(first: 100, after: $after) { pageInfo { hasNextPage endCursor } nodes { ${commentFields(options.reactions)} } } }
+      }
+    }
+  }`;
+
+  const comments: GraphQLComment[] = [];
+  let cursor: string | null = after;
+  while (cursor) {
+    const data: { repository: { issueOrPullRequest: { comments: GraphQLConnection<GraphQLComment> } } } =
+      await client.graphql(query, { owner, name, number, after: cursor });
+    const page = data.repository.issueOrPullRequest.comments;
+    comments.push(...page.nodes);
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  }
+  return comments;
+}
+
+/**
+ * Converts a GraphQL issue to the shared `Issue` shape, without comments, events or reactions
+ */
+const toIssue = (client: GitHubClient, node: GraphQLIssue): Issue => ({
+  number: node.number,
+  title: node.title,
+  created_at: node.createdAt,
+  updated_at: node.updatedAt,
+  // GraphQL returns an empty body as "", REST as null
+  body: node.body || undefined,
+  user: { login: toLogin(node.author) },
+  assignees: node.assignees.nodes.map(a => ({ login: a.login })),
+  labels: node.labels.nodes.map(l => ({ name: l.name })),
+  // Only open issues are queried
+  state: 'open',
+  isPullRequest: node.__typename === 'PullRequest',
+  repository: client.repository,
+  html_url: node.url,
+});
+
+/**
+ * Adds the comments, events and reactions of an issue, fetching any further comment pages
+ */
+async function addDetails(
+  client: GitHubClient,
+  issue: Issue,
+  details: GraphQLIssueDetails,
+  options: GraphQLFetchOptions,
+): Promise<Issue> {
+  const nodes = details.comments.pageInfo.hasNextPage
+    ? [...details.comments.nodes, ...await fetchRemainingComments(client, issue.number, details.comments.pageInfo.endCursor!, options)]
+    : details.comments.nodes;
+  const comments = nodes.map(toComment);
+
+  const events: IssueEvent[] = (details.timelineItems?.nodes ?? [])
+    .filter(item => TIMELINE_EVENTS[item.__typename] && item.actor)
+    .map(item => ({ event: TIMELINE_EVENTS[item.__typename], created_at: item.createdAt, actor: { login: toLogin(item.actor) } }));
+
+  const reactions = [
+    ...toReactions(details.reactions?.nodes),
+    ...nodes
+      .filter(c => toLogin(c.author) === options.botUsername)
+      .flatMap(c => toReactions(c.reactions?.nodes)),
+  ];
+
+  return {
+    ...issue,
+    comments,
+    ...(options.timeline ? { events } : {}),
+    ...(options.reactions ? { reactions } : {}),
+  };
+}
+
+/**
+ * Lists all open issues (and optionally pull requests) of the client's repository
+ */
+async function listOpenIssues(client: GitHubClient, pullRequests: boolean): Promise<Issue[]> {
+  const [owner, name] = client.repository.split('/');
+  const connections = pullRequests ? ['issues', 'pullRequests'] : ['issues'];
+  const issues: Issue[] = [];
+
+  for (const connection of connections) {
+    const type = connection === 'issues' ? 'Issue' : 'PullRequest';
+    const query = `query($owner: String!, $name: String!, $after: String) {
+      repository(owner: $owner, name: $name) {
+        ${connection}(states: OPEN, first: ${ISSUES_PER_PAGE}, after: $after, orderBy: { field: CREATED_AT, direction: DESC }) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ... on ${type} { ${ISSUE_FIELDS} } }
+        }
+      }
+    }`;
+
+    let cursor: string | null = null;
+    do {
+      const data: { repository: Record<string, GraphQLConnection<GraphQLIssue>> } =
+        await client.graphql(query, { owner, name, after: cursor });
+      const page = data.repository[connection];
+      issues.push(...page.nodes.map(node => toIssue(client, node)));
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+  }
+
+  return issues;
+}
+
+/**
+ * Fetches the comments, timeline events and reactions of the given issues, a page of issues per
+ * query
+ */
+async function fetchDetails(
+  client: GitHubClient,
+  issues: Issue[],
+  options: GraphQLFetchOptions,
+): Promise<Map<number, GraphQLIssueDetails>> {
+  const [owner, name] = client.repository.split('/');
+  const fields = detailFields(options);
+  const details = new Map<number, GraphQLIssueDetails>();
+
+  for (let i = 0; i < issues.length; i += ISSUES_PER_PAGE) {
+    const numbers = issues.slice(i, i + ISSUES_PER_PAGE).map(issue => issue.number);
+    const query = `query($owner: String!, $name: String!) {
+      repository(owner: $owner, name: $name) {
+        ${numbers.map(n => `issue${n}: issueOrPullRequest(number: ${n}) { ... on Issue { ${fields} } ... on PullRequest { ${fields} } }`).join('\n')}
+      }
+    }`;
+    const data: { repository: Record<string, GraphQLIssueDetails> } = await client.graphql(query, { owner, name });
+    for (const number of numbers) details.set(number, data.repository[`issue${number}`]);
+  }
+
+  return details;
+}
+
+/**
+ * Fetches all open issues (and optionally pull requests) of the client's repository with their
+ * labels, then the comments, timeline events and reactions of those `withDetails` selects, in a
+ * few paginated GraphQL queries. The other issues are returned without details.
+ */
+export async function fetchIssuesWithDetails(client: GitHubClient, options: GraphQLFetchOptions): Promise<Issue[]> {
+  const issues = await listOpenIssues(client, options.pullRequests);
+  const details = await fetchDetails(client, issues.filter(options.withDetails), options);
+
+  return Promise.all(issues.map(issue => {
+    const issueDetails = details.get(issue.number);
+    return issueDetails ? addDetails(client, issue, issueDetails, options) : issue;
+  }));
+}
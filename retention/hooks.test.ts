@@ -0,0 +1,125 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { parseIssueMetadata, runTeardownHooks, SIGNATURE_HEADER, signPayload, TeardownPayload } from "./hooks.ts";
+import { Issue } from "./types.ts";
+
+const issue: Issue = {
+  number: 42,
+  title: "QA-Instance ready: checkout",
+  body: "Deployed checkout\n- **Namespace**: qa-42\nPreview URL: https://qa-42.example.com",
+  created_at: "2026-10-15T09:00:00Z",
+  updated_at: "2026-10-18T09:00:00Z",
+  user: { login: "alice" },
+  labels: [],
+};
+
+const closedAt = new Date("2026-10-19T12:00:00Z");
+
+/**
+ * Runs a test against a local webhook receiver
+ */
+async function withReceiver(
+  handler: (request: Request) => Response | Promise<Response>,
+  test: (url: string) => Promise<void>,
+): Promise<void> {
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, handler);
+  try {
+    await test(`http://127.0.0.1:${server.addr.port}/teardown`);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.test("parseIssueMetadata reads key: value lines from the issue body", () => {
+  assertEquals(parseIssueMetadata(issue.body), { namespace: "qa-42", preview_url: "https://qa-42.example.com" });
+  assertEquals(parseIssueMetadata(undefined), {});
+});
+
+Deno.test("the webhook gets the payload signed with its secret", async () => {
+  const received: Array<{ body: string; signature: string | null }> = [];
+
+  await withReceiver(async request => {
+    received.push({ body: await request.text(), signature: request.headers.get(SIGNATURE_HEADER) });
+    return new Response(null, { status: 204 });
+  }, async url => {
+    const result = await runTeardownHooks([{ type: "webhook", url, secret: "hook-secret" }], issue, "acme/qa", closedAt);
+    assertEquals(result, { success: true });
+  });
+
+  assertEquals(received.length, 1);
+  const payload: TeardownPayload = JSON.parse(received[0].body);
+  assertEquals(payload, {
+    event: "teardown",
+    repository: "acme/qa",
+    issue: { number: 42, title: "QA-Instance ready: checkout" },
+    metadata: { namespace: "qa-42", preview_url: "https://qa-42.example.com" },
+    closedAt: "2026-10-19T12:00:00.000Z",
+  });
+  assertEquals(received[0].signature, await signPayload(received[0].body, "hook-secret"));
+  assert(received[0].signature !== await signPayload(received[0].body, "another-secret"));
+});
+
+Deno.test("a webhook that doesn't answer in time fails the teardown, and later hooks still run", async () => {
+  let answer = () => {};
+  const answered = new Promise<void>(resolve => answer = resolve);
+
+  await withReceiver(async () => {
+    await answered;
+    return new Response(null, { status: 204 });
+  }, async url => {
+    try {
+      const result = await runTeardownHooks(
+        [{ type: "webhook", url }, { type: "command", command: ["true"] }],
+        issue,
+        "acme/qa",
+        closedAt,
+        200,
+      );
+      assertEquals(result.success, false);
+      // The command after it ran and succeeded
+      assertEquals(result.error?.split("; ").length, 1);
+      assertStringIncludes(result.error!, "webhook timed out after 200ms");
+    } finally {
+      answer();
+    }
+  });
+});
+
+Deno.test("a command is killed once it runs past the timeout", async () => {
+  const started = Date.now();
+  const result = await runTeardownHooks([{ type: "command", command: ["sleep", "30"] }], issue, "acme/qa", closedAt, 200);
+
+  assertEquals(result, { success: false, error: "command sleep: command timed out after 200ms and was killed" });
+  assert(Date.now() - started < 10_000);
+});
+
+Deno.test("a command gets the payload on stdin and fails with its exit code", async () => {
+  const script = 'test "$ISSUE_NUMBER $META_NAMESPACE" = "42 qa-42" && grep -q \'"event":"teardown"\' || { echo "unexpected input" >&2; exit 3; }';
+  assertEquals(await runTeardownHooks([{ type: "command", command: ["sh", "-c", script] }], issue, "acme/qa", closedAt), {
+    success: true,
+  });
+
+  const failed = await runTeardownHooks([{ type: "command", command: ["sh", "-c", script] }], { ...issue, body: "" }, "acme/qa", closedAt);
+  assertEquals(failed.success, false);
+  assertStringIncludes(failed.error!, "command sh: command exited with code 3: unexpected input");
+});
+
+Deno.test("a command only gets the basic environment and the variables listed for it", async () => {
+  const saved = { GITHUB_TOKEN: Deno.env.get("GITHUB_TOKEN"), KUBECONFIG: Deno.env.get("KUBECONFIG") };
+  Deno.env.set("GITHUB_TOKEN", "secret-token");
+  Deno.env.set("KUBECONFIG", "/etc/kube/qa");
+  try {
+    const script = 'test -z "$GITHUB_TOKEN" && test -n "$PATH" && test "$KUBECONFIG" = "/etc/kube/qa" || { env >&2; exit 1; }';
+    assertEquals(
+      await runTeardownHooks([{ type: "command", command: ["sh", "-c", script], env: ["KUBECONFIG"] }], issue, "acme/qa", closedAt),
+      { success: true },
+    );
+
+    const unlisted = await runTeardownHooks([{ type: "command", command: ["sh", "-c", 'test -z "$KUBECONFIG"'] }], issue, "acme/qa", closedAt);
+    assertEquals(unlisted, { success: true });
+  } finally {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+});
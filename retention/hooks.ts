@@ -0,0 +1,206 @@
+import { HookResult, Issue, TeardownHook } from "./types.ts";
+
+/**
+ * Payload sent to teardown hooks after an instance is closed
+ */
+export interface TeardownPayload {
+  event: "teardown";
+  repository: string;
+  issue: {
+    number: number;
+    title: string;
+  };
+  metadata: Record<string, string>;
+  closedAt: string;
+}
+
+/**
+ * Header carrying the HMAC-SHA256 signature of the webhook body
+ */
+export const SIGNATURE_HEADER = "X-Retention-Signature-256";
+
+const encoder = new TextEncoder();
+
+/**
+ * Hooks that don't finish within this time fail, so a hanging hook can't hold up the run
+ */
+export const DEFAULT_HOOK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Parses `key: value` lines in the issue body (e.g. `namespace: qa-1234`) into metadata.
+ * Keys are lower-cased with spaces and dashes replaced by underscores.
+ */
+export function parseIssueMetadata(body: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const line of (body ?? "").split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:[-*]\s*)?\**([A-Za-z][\w .-]*?)\**\s*:\s*(\S.*?)\s*$/);
+    if (match) {
+      metadata[match[1].toLowerCase().replace(/[\s-]+/g, "_")] = match[2];
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Signs a body with HMAC-SHA256, in the same `sha256=<hex>` format GitHub uses for webhooks
+ */
+export async function signPayload(body: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  const hex = Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, "0")).join("");
+  return `sha256=${hex}`;
+}
+
+/**
+ * Posts the signed payload to a webhook
+ */
+async function runWebhook(
+  hook: Extract<TeardownHook, { type: "webhook" }>,
+  payload: TeardownPayload,
+  timeoutMs: number,
+): Promise<void> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (hook.secret) {
+    headers[SIGNATURE_HEADER] = await signPayload(body, hook.secret);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(hook.url, { method: "POST", headers, body, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new Error(`webhook timed out after ${formatTimeout(timeoutMs)}`);
+    }
+    throw error;
+  }
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new Error(`webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Writes the payload to a command's stdin. Commands don't have to read it: one that exits without
+ * reading closes the pipe, which is left for its exit code to judge.
+ */
+async function writePayload(stdin: WritableStream<Uint8Array>, payload: TeardownPayload): Promise<void> {
+  const writer = stdin.getWriter();
+  try {
+    await writer.write(encoder.encode(JSON.stringify(payload)));
+    await writer.close();
+  } catch (error) {
+    if (!(error instanceof Deno.errors.BrokenPipe)) throw error;
+  }
+}
+
+/**
+ * Variables of the process environment every command gets. Anything else, such as GITHUB_TOKEN
+ * or the GitHub App's private key, is only passed on when listed in TEARDOWN_COMMAND_ENV.
+ */
+const COMMAND_ENV = ["PATH", "HOME", "USER", "LANG", "LC_ALL", "TZ", "TMPDIR"];
+
+/**
+ * Runs the local command with the payload on stdin and the main fields as env vars. A command
+ * still running after the timeout is killed.
+ */
+async function runCommand(
+  hook: Extract<TeardownHook, { type: "command" }>,
+  payload: TeardownPayload,
+  timeoutMs: number,
+): Promise<void> {
+  const [command, ...args] = hook.command;
+  const child = new Deno.Command(command, {
+    args,
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+    clearEnv: true,
+    env: {
+      ...Object.fromEntries(
+        [...COMMAND_ENV, ...(hook.env ?? [])].flatMap(name => {
+          const value = Deno.env.get(name);
+          return value === undefined ? [] : [[name, value]];
+        }),
+      ),
+      ISSUE_NUMBER: String(payload.issue.number),
+      ISSUE_TITLE: payload.issue.title,
+      REPOSITORY: payload.repository,
+      ...Object.fromEntries(
+        Object.entries(payload.metadata).map(([k, v]) => [`META_${k.toUpperCase()}`, v]),
+      ),
+    },
+  }).spawn();
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    child.kill("SIGKILL");
+  }, timeoutMs);
+
+  let result: Deno.CommandOutput;
+  try {
+    await writePayload(child.stdin, payload);
+    result = await child.output();
+  } catch (error) {
+    // Writing to a killed command fails; report the timeout instead
+    if (!timedOut) throw error;
+    await child.status;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (timedOut) {
+    throw new Error(`command timed out after ${formatTimeout(timeoutMs)} and was killed`);
+  }
+  const { code, stderr } = result!;
+  if (code !== 0) {
+    const detail = new TextDecoder().decode(stderr).trim().split("\n").at(-1);
+    throw new Error(`command exited with code ${code}${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+const formatTimeout = (ms: number): string => ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+
+/**
+ * Describes a hook for logs and comments
+ */
+export const describeHook = (hook: TeardownHook): string =>
+  hook.type === "webhook" ? `webhook ${new URL(hook.url).host}` : `command ${hook.command[0]}`;
+
+/**
+ * Runs all teardown hooks for a closed issue. Every hook runs even if an earlier one fails or
+ * times out.
+ */
+export async function runTeardownHooks(
+  hooks: TeardownHook[],
+  issue: Issue,
+  repository: string,
+  closedAt = new Date(),
+  timeoutMs = DEFAULT_HOOK_TIMEOUT_MS,
+): Promise<HookResult> {
+  const payload: TeardownPayload = {
+    event: "teardown",
+    repository,
+    issue: { number: issue.number, title: issue.title },
+    metadata: parseIssueMetadata(issue.body),
+    closedAt: closedAt.toISOString(),
+  };
+
+  const errors: string[] = [];
+  for (const hook of hooks) {
+    try {
+      await (hook.type === "webhook" ? runWebhook(hook, payload, timeoutMs) : runCommand(hook, payload, timeoutMs));
+    } catch (error) {
+      errors.push(`${describeHook(hook)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return errors.length === 0 ? { success: true } : { success: false, error: errors.join("; ") };
+}
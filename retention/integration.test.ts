@@ -0,0 +1,317 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { FakeGitHubOptions, FakeGitHubServer } from "./fake-github.ts";
+import { main } from "./main.ts";
+import { formatMarker } from "./state-machine.ts";
+
+const BOT = "github-actions[bot]";
+
+const hoursAgo = (hours: number): Date => new Date(Date.now() - hours * 3600000);
+
+/**
+ * Runs a test against a fake GitHub API, with the environment of a run pointed at it
+ */
+function withFakeGitHub(
+  options: FakeGitHubOptions,
+  test: (github: FakeGitHubServer, env: Record<string, string>) => Promise<void>,
+): () => Promise<void> {
+  return async () => {
+    const github = new FakeGitHubServer(options);
+    const env = {
+      GITHUB_API_URL: github.listen(),
+      GITHUB_TOKEN: "test-token",
+      GITHUB_REPOS: "acme/qa",
+      DATA_SOURCE: "rest",
+      RETENTION_HOURS: "48",
+      INACTIVITY_THRESHOLD_HOURS: "24",
+      RATE_LIMIT_RESERVE: "0",
+    };
+    try {
+      await test(github, env);
+    } finally {
+      await github.close();
+    }
+  };
+}
+
+/**
+ * Runs the command line with the given environment, returning its exit code and what it printed
+ */
+async function run(env: Record<string, string>, argv = ["run"]): Promise<{ code: number; output: string }> {
+  const output: string[] = [];
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = (...data: unknown[]) => void output.push(data.join(" "));
+  try {
+    const code = await main(argv, name => env[name]);
+    return { code, output: output.join("\n") };
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+const addInstance = (github: FakeGitHubServer, name: string, idleHours: number, labels: string[] = []): number =>
+  github.addIssue("acme/qa", {
+    title: `QA-Instance ready: ${name}`,
+    created_at: hoursAgo(idleHours).toISOString(),
+    labels,
+  });
+
+/**
+ * Adds the warning the bot leaves on an instance
+ */
+const addWarning = (github: FakeGitHubServer, issueNumber: number, hours: number) =>
+  github.addComment("acme/qa", issueNumber, {
+    body: `⚠️ This instance will be closed soon.\n${formatMarker("warned", hoursAgo(hours), { policy: "default" })}`,
+    user: BOT,
+    created_at: hoursAgo(hours).toISOString(),
+  });
+
+const botComments = (github: FakeGitHubServer, issueNumber: number) =>
+  github.issue("acme/qa", issueNumber).comments.filter(c => c.user.login === BOT);
+
+Deno.test(
+  "warns the instances idle past the retention threshold, reading every page of issues",
+  withFakeGitHub({ maxPerPage: 2 }, async (github, env) => {
+    const idle = [addInstance(github, "checkout", 50), addInstance(github, "search", 60), addInstance(github, "cart", 72)];
+    const active = [addInstance(github, "login", 10), addInstance(github, "profile", 2)];
+    const bug = github.addIssue("acme/qa", { title: "Checkout button misaligned", created_at: hoursAgo(100).toISOString() });
+
+    const { code } = await run(env);
+
+    assertEquals(code, 0);
+    for (const number of idle) {
+      assertEquals(github.issue("acme/qa", number).labels, ["retention-warning"]);
+      assertEquals(botComments(github, number).length, 1);
+      assertStringIncludes(botComments(github, number)[0].body, '"state":"warned"');
+    }
+    for (const number of [...active, bug]) {
+      assertEquals(github.issue("acme/qa", number).labels, []);
+      assertEquals(github.issue("acme/qa", number).comments, []);
+    }
+    // Newest first, so the idle instances are on the last pages
+    assert(github.requests.some(r => r.startsWith("GET /repos/acme/qa/issues?") && r.endsWith("&page=3")));
+  }),
+);
+
+Deno.test(
+  "takes back a warning after someone comments on the instance",
+  withFakeGitHub({}, async (github, env) => {
+    const number = addInstance(github, "checkout", 100, ["retention-warning"]);
+    addWarning(github, number, 20);
+    github.addComment("acme/qa", number, { body: "Still testing the refund flow", created_at: hoursAgo(1).toISOString() });
+
+    const { code } = await run(env);
+
+    assertEquals(code, 0);
+    const issue = github.issue("acme/qa", number);
+    assertEquals(issue.state, "open");
+    assertEquals(issue.labels, []);
+    assertEquals(issue.events.map(e => `${e.event} by ${e.actor.login}`), [`unlabeled by ${BOT}`]);
+  }),
+);
+
+Deno.test(
+  "closes instances warned longer than the inactivity threshold ago",
+  withFakeGitHub({}, async (github, env) => {
+    const warned = addInstance(github, "checkout", 100, ["retention-warning"]);
+    addWarning(github, warned, 30);
+    const recent = addInstance(github, "search", 100, ["retention-warning"]);
+    addWarning(github, recent, 10);
+
+    const { code } = await run(env);
+
+    assertEquals(code, 0);
+    assertEquals(github.issue("acme/qa", warned).state, "closed");
+    assertStringIncludes(botComments(github, warned).at(-1)!.body, '"state":"closed"');
+    assertEquals(github.issue("acme/qa", recent).state, "open");
+    assertEquals(botComments(github, recent).length, 1);
+  }),
+);
+
+Deno.test(
+  "a failed warning fails the run without stopping the others, and isn't retried",
+  withFakeGitHub({}, async (github, env) => {
+    const [first, failing, last] = ["checkout", "search", "cart"].map(name => addInstance(github, name, 50));
+    github.failNext({ method: "POST", path: `/repos/acme/qa/issues/${failing}/comments`, status: 500 });
+
+    const { code, output } = await run(env);
+
+    assertEquals(code, 1);
+    assertEquals(github.issue("acme/qa", first).labels, ["retention-warning"]);
+    assertEquals(github.issue("acme/qa", last).labels, ["retention-warning"]);
+    assertEquals(github.issue("acme/qa", failing).labels, []);
+    assertEquals(github.issue("acme/qa", failing).comments, []);
+    assertEquals(github.requests.filter(r => r === `POST /repos/acme/qa/issues/${failing}/comments`).length, 1);
+    assertStringIncludes(output, "acme/qa: 3 instances, 2 warned, 0 reclaimed, 0 closed, 0 released, 0 exempt, 1 failed");
+  }),
+);
+
+Deno.test(
+  "a repository that can't be read fails the run after the others are processed",
+  withFakeGitHub({}, async (github, env) => {
+    const number = addInstance(github, "checkout", 50);
+
+    const { code, output } = await run({ ...env, GITHUB_REPOS: "acme/gone,acme/qa" });
+
+    assertEquals(code, 1);
+    assertEquals(github.issue("acme/qa", number).labels, ["retention-warning"]);
+    assertStringIncludes(output, "❌ acme/gone: Failed to fetch issues of acme/gone from GitHub");
+  }),
+);
+
+Deno.test(
+  "waits for an exhausted rate limit to reset and carries on",
+  withFakeGitHub({}, async (github, env) => {
+    const number = addInstance(github, "checkout", 50);
+    github.exhaustRateLimit(1);
+
+    const { code, output } = await run(env);
+
+    assertEquals(code, 0);
+    assertEquals(github.issue("acme/qa", number).labels, ["retention-warning"]);
+    assertStringIncludes(output, "⏳ GitHub API 403 on GET /repos/acme/qa/issues");
+    assert(github.requests.filter(r => r.startsWith("GET /repos/acme/qa/issues?")).length >= 2);
+  }),
+);
+
+Deno.test(
+  "an instance reopened after a /release is not closed again",
+  withFakeGitHub({}, async (github, env) => {
+    const number = addInstance(github, "checkout", 100);
+    github.addComment("acme/qa", number, { body: "/release", created_at: hoursAgo(30).toISOString() });
+    github.addComment("acme/qa", number, {
+      body: `Closed: released with \`/release\`\n${formatMarker("closed", hoursAgo(29))}`,
+      user: BOT,
+      created_at: hoursAgo(29).toISOString(),
+    });
+    github.issue("acme/qa", number).events.push({ event: "reopened", actor: { login: "carol" }, created_at: hoursAgo(2).toISOString() });
+    github.addComment("acme/qa", number, { body: "Reopened, still testing", user: "carol", created_at: hoursAgo(1).toISOString() });
+
+    const { code } = await run(env);
+
+    assertEquals(code, 0);
+    assertEquals(github.issue("acme/qa", number).state, "open");
+    assertEquals(botComments(github, number).length, 1);
+  }),
+);
+
+Deno.test(
+  "only fetches details of QA instances, and skips the timeline and reactions when ACTIVITY_TYPES leaves them out",
+  withFakeGitHub({}, async (github, env) => {
+    const number = addInstance(github, "checkout", 50);
+    // Idle by its comments, but a label changed an hour ago, which counts by default
+    github.issue("acme/qa", number).events.push({ event: "labeled", actor: { login: "carol" }, created_at: hoursAgo(1).toISOString() });
+    const bug = github.addIssue("acme/qa", { title: "Checkout button misaligned", created_at: hoursAgo(100).toISOString() });
+    const detailRequests = () => github.requests.filter(r => r.startsWith("GET /repos/acme/qa/issues/")).map(r => r.split("?")[0]);
+
+    assertEquals((await run(env)).code, 0);
+    assertEquals(botComments(github, number), []);
+    assertEquals([...new Set(detailRequests())].sort(), [
+      `GET /repos/acme/qa/issues/${number}/comments`,
+      `GET /repos/acme/qa/issues/${number}/reactions`,
+      `GET /repos/acme/qa/issues/${number}/timeline`,
+    ]);
+    assert(!github.requests.some(r => r.includes(`/issues/${bug}/`)));
+
+    // Counting only comments saves the timeline and reaction requests, and the label no longer counts
+    github.requests.length = 0;
+    assertEquals((await run({ ...env, ACTIVITY_TYPES: "comment" })).code, 0);
+    assertEquals([...new Set(detailRequests())], [`GET /repos/acme/qa/issues/${number}/comments`]);
+    assertEquals(botComments(github, number).length, 1);
+  }),
+);
+
+Deno.test(
+  "with the GraphQL data source, only QA instances get their details and further comment pages fetched",
+  withFakeGitHub({ maxPerPage: 2 }, async (github, env) => {
+    const idle = addInstance(github, "checkout", 50);
+    const warned = addInstance(github, "search", 100, ["retention-warning"]);
+    addWarning(github, warned, 30);
+    // Its latest comment, on the third page of comments, keeps it active
+    const active = addInstance(github, "cart", 100);
+    for (const hours of [90, 80, 70, 60, 1]) {
+      github.addComment("acme/qa", active, { body: "Still testing", created_at: hoursAgo(hours).toISOString() });
+    }
+    const bug = github.addIssue("acme/qa", { title: "Checkout button misaligned", created_at: hoursAgo(100).toISOString() });
+    for (const hours of [90, 80, 70]) {
+      github.addComment("acme/qa", bug, { body: "Same on mobile", created_at: hoursAgo(hours).toISOString() });
+    }
+
+    assertEquals((await run({ ...env, DATA_SOURCE: "graphql" })).code, 0);
+
+    assertEquals(github.issue("acme/qa", idle).labels, ["retention-warning"]);
+    assertEquals(github.issue("acme/qa", warned).state, "closed");
+    assertEquals(botComments(github, active), []);
+    // Details come from GraphQL alone, and never for the bug
+    assert(!github.requests.some(r => /^GET \/repos\/acme\/qa\/issues\/\d+\//.test(r)));
+    const detailed = github.queries.flatMap(query => [...query.matchAll(/issueOrPullRequest\(number: (\d+)\)/g)].map(m => Number(m[1])));
+    assertEquals(detailed.sort(), [idle, warned, active].sort());
+    assertEquals(github.queries.filter(query => query.includes("issueOrPullRequest(number: $number)")).length, 2);
+  }),
+);
+
+Deno.test(
+  "with CACHE_FILE, comments are fetched again only for updated issues, and closed issues are dropped",
+  withFakeGitHub({}, async (github, env) => {
+    const dir = await Deno.makeTempDir();
+    const cacheEnv = { ...env, CACHE_FILE: `${dir}/cache.json` };
+    const cachedKeys = async () => Object.keys(JSON.parse(await Deno.readTextFile(cacheEnv.CACHE_FILE)).entries);
+    const commentRequests = () => github.requests.filter(r => /\/issues\/\d+\/comments/.test(r)).map(r => r.split("?")[0]);
+    try {
+      const checkout = addInstance(github, "checkout", 10);
+      const search = addInstance(github, "search", 20);
+
+      assertEquals((await run(cacheEnv)).code, 0);
+      assertEquals(commentRequests().length, 2);
+
+      // Nothing changed: the stored comments are used
+      github.requests.length = 0;
+      assertEquals((await run(cacheEnv)).code, 0);
+      assertEquals(commentRequests(), []);
+
+      github.addComment("acme/qa", checkout, { body: "Still testing" });
+      github.requests.length = 0;
+      assertEquals((await run(cacheEnv)).code, 0);
+      assertEquals(commentRequests(), [`GET /repos/acme/qa/issues/${checkout}/comments`]);
+      // Stored once, not also as the response of the comments page
+      assertEquals((await cachedKeys()).filter(key => key.includes("comments")).sort(), [
+        `comments:acme/qa#${checkout}`,
+        `comments:acme/qa#${search}`,
+      ]);
+
+      github.issue("acme/qa", search).state = "closed";
+      assertEquals((await run(cacheEnv)).code, 0);
+      assertEquals((await cachedKeys()).filter(key => key.includes("comments")), [`comments:acme/qa#${checkout}`]);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  }),
+);
+
+Deno.test(
+  "each kind of failure ends the command line with its own exit code",
+  withFakeGitHub({}, async (github, env) => {
+    const number = addInstance(github, "checkout", 10);
+    const bug = github.addIssue("acme/qa", { title: "Checkout button misaligned" });
+    const exitCode = async (argv: string[], overrides: Record<string, string> = {}) => (await run({ ...env, ...overrides }, argv)).code;
+
+    assertEquals(await exitCode(["status"]), 0);
+    assertEquals(await exitCode(["bogus"]), 2);
+    assertEquals(await exitCode(["status"], { RETENTION_HOURS: "soon" }), 3);
+    assertEquals(await exitCode(["explain", "99"]), 4);
+    assertEquals(await exitCode(["explain", String(bug)]), 4);
+
+    // GitHub rejects a request, directly or behind the error of a lookup or a close
+    github.failNext({ method: "GET", path: `/repos/acme/qa/issues/${number}`, status: 401 });
+    assertEquals(await exitCode(["explain", String(number)]), 5);
+    github.failNext({ method: "GET", path: "/repos/acme/qa/issues", status: 401 });
+    assertEquals(await exitCode(["status"]), 5);
+    github.failNext({ method: "POST", path: `/repos/acme/qa/issues/${number}/comments`, status: 422 });
+    assertEquals(await exitCode(["close", String(number)]), 5);
+    assertEquals(github.issue("acme/qa", number).state, "open");
+
+    // GitHub can't be reached
+    const { code, output } = await run({ ...env, GITHUB_API_URL: "http://127.0.0.1:1" }, ["status"]);
+    assertEquals(code, 5);
+    assertStringIncludes(output, "Could not reach GitHub");
+  }),
+);
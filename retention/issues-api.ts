@@ -1,47 +1,185 @@
-import { github, config } from "./config.ts";
-import { Issue, IssueComment } from "./types.ts";
+import { RetentionContext } from "./context.ts";
+import { Config } from "./config.ts";
+import { Issue, IssueComment, IssueEvent, Reaction } from "./types.ts";
+import { compileMatcher, matchesPullRequests } from "./matchers.ts";
+import { fetchIssuesWithDetails } from "./github-graphql.ts";
+import { isDashboardIssue } from "./dashboard.ts";
 
-const { OWNER, REPO } = config;
+/**
+ * Activity types that can only be seen in the issue timeline
+ */
+const TIMELINE_TYPES = ["label", "edit", "reopen", "assign"];
+const needsTimeline = ({ ACTIVITY_TYPES }: Config) => ACTIVITY_TYPES.some(t => TIMELINE_TYPES.includes(t));
+const needsReactions = ({ ACTIVITY_TYPES }: Config) => ACTIVITY_TYPES.includes("reaction");
+
+/**
+ * Compiled QA_MATCHER rules by configuration, built on first use
+ */
+const matchers = new WeakMap<Config, (issue: Issue) => boolean>();
 
 /**
- * Cache for API responses to minimize GitHub API calls
+ * Checks if an issue is a QA instance. The dashboard issue never is, whatever the matcher says.
  */
-const cache = {
-  issues: new Map<string, Issue[]>(),
-  comments: new Map<number, IssueComment[]>(),
+const isQAInstance = ({ config }: RetentionContext, issue: Issue): boolean => {
+  let matches = matchers.get(config);
+  if (!matches) {
+    matches = compileMatcher(config.QA_MATCHER);
+    matchers.set(config, matches);
+  }
+  return !isDashboardIssue(issue) && matches(issue);
 };
 
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+/**
+ * Details of an issue saved in the persistent cache with the `updated_at` they were fetched at
+ */
+interface StoredDetails<T> {
+  updatedAt: string;
+  value: T;
+}
+
+/**
+ * Returns details of an issue from the run cache, then from the persistent cache if the issue
+ * hasn't been updated since they were stored, and only otherwise fetches them
+ */
+async function getDetails<T>(
+  { client, cache, cacheStore }: RetentionContext,
+  kind: "comments" | "events",
+  issue: Issue,
+  fetch: () => Promise<T[]>,
+): Promise<T[]> {
+  const cacheKey = `${client.repository}#${issue.number}`;
+  const runCache = cache[kind] as Map<string, T[]>;
+  const cached = runCache.get(cacheKey);
+  if (cached) return cached;
+
+  const storeKey = `${kind}:${cacheKey}`;
+  const stored = await cacheStore.get<StoredDetails<T[]>>(storeKey);
+  const value = stored?.updatedAt === issue.updated_at ? stored.value : await fetch();
+  if (stored?.value !== value) {
+    await cacheStore.set<StoredDetails<T[]>>(storeKey, { updatedAt: issue.updated_at, value });
+  }
+  runCache.set(cacheKey, value);
+  return value;
+}
+
+/**
+ * Drops the cached details of the repository's issues that are no longer open: their comments,
+ * timeline events and any responses for them, such as reactions
+ */
+async function evictClosedIssues({ client, cacheStore }: RetentionContext, open: Issue[]): Promise<void> {
+  const numbers = new Set(open.map(i => i.number));
+  const repository = client.repository.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`^(?:(?:comments|events):${repository}#|http:.*/repos/${repository}/issues/)(\\d+)(?:\\D|$)`);
+  await cacheStore.evict(key => {
+    const match = key.match(pattern);
+    return match !== null && !numbers.has(Number(match[1]));
+  });
+}
+
+/**
+ * Lists the reactions on an issue and on the bot's comments
+ */
+async function listIssueReactions(
+  { client, config }: RetentionContext,
+  issueNumber: number,
+  comments: IssueComment[],
+): Promise<Reaction[]> {
+  const botCommentIds = comments
+    .filter(c => c.user.login === config.BOT_USERNAME && c.id !== undefined)
+    .map(c => c.id!);
+  return (await Promise.all([
+    client.listReactions(issueNumber),
+    ...botCommentIds.map(id => client.listReactions(issueNumber, id)),
+  ])).flat();
+}
 
 const api = {
-  async issues(githubOverride = github): Promise<Issue[]> {
-    const cacheKey = `${OWNER}/${REPO}`;
-    const cached = cache.issues.get(cacheKey);
+  issues(ctx: RetentionContext): Promise<Issue[]> {
+    const cacheKey = ctx.client.repository;
+    const cached = ctx.cache.issues.get(cacheKey);
     if (cached) return cached;
 
+    const issues = api.listIssues(ctx);
+    ctx.cache.issues.set(cacheKey, issues);
+    // A failed listing is tried again by the next lookup
+    issues.catch(() => ctx.cache.issues.delete(cacheKey));
+    return issues;
+  },
+
+  async listIssues(ctx: RetentionContext): Promise<Issue[]> {
+    const cacheKey = ctx.client.repository;
     try {
-      const issues = await githubOverride.listIssues();
-      cache.issues.set(cacheKey, issues);
-      setTimeout(() => cache.issues.delete(cacheKey), CACHE_TTL);
+      const issues = ctx.config.DATA_SOURCE === "graphql"
+        ? await api.graphqlIssues(ctx)
+        : await ctx.client.listIssues();
+      await evictClosedIssues(ctx, issues);
       return issues;
     } catch (error) {
-      console.error("Failed to fetch issues:", error instanceof Error ? error.message : error);
-      throw new Error("Failed to fetch issues from GitHub");
+      ctx.logger.error(`Failed to fetch issues of ${cacheKey}:`, error instanceof Error ? error.message : error);
+      throw new Error(`Failed to fetch issues of ${cacheKey} from GitHub`, { cause: error });
     }
   },
 
-  async comments(issueNumber: number, githubOverride = github): Promise<IssueComment[]> {
-    const cached = cache.comments.get(issueNumber);
+  /**
+   * Fetches issues through GraphQL, with the details of QA instances only, and caches the
+   * details so the per-instance lookups below don't need further requests
+   */
+  async graphqlIssues(ctx: RetentionContext): Promise<Issue[]> {
+    const { client, config, cache } = ctx;
+    const detailed = await fetchIssuesWithDetails(client, {
+      pullRequests: matchesPullRequests(config.QA_MATCHER),
+      timeline: needsTimeline(config),
+      reactions: needsReactions(config),
+      botUsername: config.BOT_USERNAME,
+      withDetails: issue => isQAInstance(ctx, issue),
+    });
+
+    return detailed.map(({ comments, events, reactions, ...issue }) => {
+      const cacheKey = `${client.repository}#${issue.number}`;
+      if (comments) cache.comments.set(cacheKey, comments);
+      if (events) cache.events.set(cacheKey, events);
+      if (reactions) cache.reactions.set(cacheKey, reactions);
+      return issue;
+    });
+  },
+
+  /**
+   * Comments are only refetched when the issue's `updated_at` changed since they were stored
+   */
+  async comments(ctx: RetentionContext, issue: Issue): Promise<IssueComment[]> {
+    try {
+      return await getDetails(ctx, "comments", issue, () => ctx.client.listComments(issue.number));
+    } catch (error) {
+      ctx.logger.error(`Failed to fetch comments for issue #${issue.number}:`, error instanceof Error ? error.message : error);
+      throw new Error(`Failed to fetch comments for issue #${issue.number}`, { cause: error });
+    }
+  },
+
+  async events(ctx: RetentionContext, issue: Issue): Promise<IssueEvent[]> {
+    try {
+      return await getDetails(ctx, "events", issue, () => ctx.client.listTimeline(issue.number));
+    } catch (error) {
+      ctx.logger.error(`Failed to fetch timeline for issue #${issue.number}:`, error instanceof Error ? error.message : error);
+      throw new Error(`Failed to fetch timeline for issue #${issue.number}`, { cause: error });
+    }
+  },
+
+  /**
+   * Reactions on the issue itself and on the bot's comments (e.g. a 👍 on a warning). Reactions
+   * don't change the issue's `updated_at`, so they're always revalidated (with ETags).
+   */
+  async reactions(ctx: RetentionContext, issueNumber: number, comments: IssueComment[]): Promise<Reaction[]> {
+    const cacheKey = `${ctx.client.repository}#${issueNumber}`;
+    const cached = ctx.cache.reactions.get(cacheKey);
     if (cached) return cached;
 
     try {
-      const comments = await githubOverride.listComments(issueNumber);
-      cache.comments.set(issueNumber, comments);
-      setTimeout(() => cache.comments.delete(issueNumber), CACHE_TTL);
-      return comments;
+      const reactions = await listIssueReactions(ctx, issueNumber, comments);
+      ctx.cache.reactions.set(cacheKey, reactions);
+      return reactions;
     } catch (error) {
-      console.error(`Failed to fetch comments for issue #${issueNumber}:`, error instanceof Error ? error.message : error);
-      throw new Error(`Failed to fetch comments for issue #${issueNumber}`);
+      ctx.logger.error(`Failed to fetch reactions for issue #${issueNumber}:`, error instanceof Error ? error.message : error);
+      throw new Error(`Failed to fetch reactions for issue #${issueNumber}`, { cause: error });
     }
   },
 };
@@ -49,30 +187,61 @@ const api = {
 /**
  * Retrieves all open issues from the repository
  */
-export const getOpenIssues = (githubOverride = github) => api.issues(githubOverride);
+export const getOpenIssues = (ctx: RetentionContext) => api.issues(ctx);
 
 /**
- * Retrieves all QA-ready instances (open issues with "QA-Instance ready" in title)
+ * Retrieves all QA-ready instances (open issues matching the configured QA_MATCHER rules)
  */
-export const getQAReadyInstances = async (githubOverride = github) => {
-  const issues = await api.issues(githubOverride);
-  return issues.filter(i => i.title.includes("QA-Instance ready"));
+export const getQAReadyInstances = async (ctx: RetentionContext) => {
+  const issues = await api.issues(ctx);
+  return issues.filter(issue => isQAInstance(ctx, issue));
 };
 
 /**
- * Retrieves all open issues with their comments
+ * Retrieves all QA instances with their comments, plus timeline events and reactions when
+ * ACTIVITY_TYPES needs them. Other issues are filtered out before any details are fetched. With
+ * the GraphQL data source the details come from the bulk fetch.
  */
-export const getOpenIssuesWithComments = async (githubOverride = github) => {
-  const issues = await api.issues(githubOverride);
+export const getQAInstancesWithComments = async (ctx: RetentionContext) => {
+  const instances = await getQAReadyInstances(ctx);
   return Promise.all(
-    issues.map(async i => ({ ...i, comments: await api.comments(i.number, githubOverride) }))
+    instances.map(async i => {
+      const comments = await api.comments(ctx, i);
+      const [events, reactions] = await Promise.all([
+        needsTimeline(ctx.config) ? api.events(ctx, i) : undefined,
+        needsReactions(ctx.config) ? api.reactions(ctx, i.number, comments) : undefined,
+      ]);
+      return { ...i, comments, events, reactions };
+    })
   );
 };
 
 /**
- * Clears the API cache
+ * Fetches a single issue with its comments (and timeline events and reactions when needed),
+ * bypassing the run cache. Returns undefined if it isn't an open QA instance.
+ */
+export const getQAInstanceWithComments = async (
+  ctx: RetentionContext,
+  issueNumber: number,
+): Promise<Issue | undefined> => {
+  const { client, config } = ctx;
+  const issue = await client.getIssue(issueNumber);
+  if (issue.state !== "open" || !isQAInstance(ctx, issue)) return undefined;
+
+  const comments = await client.listComments(issueNumber);
+  const [events, reactions] = await Promise.all([
+    needsTimeline(config) ? client.listTimeline(issueNumber) : undefined,
+    needsReactions(config) ? listIssueReactions(ctx, issueNumber, comments) : undefined,
+  ]);
+  return { ...issue, comments, events, reactions };
+};
+
+/**
+ * Clears the responses cached for the current run. The persistent cache is kept.
  */
-export const clearCache = () => {
+export const clearCache = ({ cache }: RetentionContext) => {
   cache.issues.clear();
   cache.comments.clear();
+  cache.events.clear();
+  cache.reactions.clear();
 };
@@ -1,123 +1,54 @@
-import { config, validateEnv } from "./config.ts";
-import { getOpenIssues, getQAReadyInstances } from "./issues-api.ts";
-import { getExpiredQAInstances, getInactiveWarnedIssues, addWarningToIssues, closeIssues } from "./retention.ts";
-import { Issue } from "./types.ts";
+import { CliError, CliOptions, EXIT_CODES, parseCli, usage } from "./cli.ts";
+import { Config, EnvReader, loadConfig } from "./config.ts";
+import { createContext } from "./context.ts";
+import { COMMANDS } from "./commands.ts";
+import { GitHubApiError } from "./github-api.ts";
 
 /**
- * Prints a section header to the console
+ * Returns the exit code for an error that ended a command, looking through the errors it wraps
  */
-function logSection(title: string): void {
-  console.log("\n" + "=".repeat(80));
-  console.log(title);
-  console.log("=".repeat(80) + "\n");
-}
-
-/**
- * Generates the warning message for expired QA instances
- */
-function generateWarningMessage(): string {
-  return `⚠️ QA instance inactive for ${config.RETENTION_HOURS} hours
-
-Add any comment (e.g. "bump") to keep open, or it will auto-close in ${config.INACTIVITY_THRESHOLD_HOURS} hours`;
-}
-
-/**
- * Processes warnings for expired QA instances
- */
-async function processWarnings(needWarning: Issue[]): Promise<void> {
-  if (needWarning.length === 0) {
-    console.log("✓ No expired instances need warnings");
-    return;
-  }
-
-  console.log(`⚠️ Adding warnings to ${needWarning.length} expired instances...`);
-  const results = await addWarningToIssues(needWarning, generateWarningMessage());
-  const succeeded = results.filter(r => r.success).length;
-  const failed = results.filter(r => !r.success).length;
-
-  console.log(`✓ Warning results: ${succeeded} succeeded, ${failed} failed`);
-
-  if (failed > 0) {
-    results
-      .filter(r => !r.success)
-      .forEach(r => console.error(`Failed to warn issue #${r.issueNumber}:`, r.error));
+function exitCodeOf(error: unknown): number {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof CliError) return current.exitCode;
+    if (current instanceof GitHubApiError) return EXIT_CODES.github;
   }
+  return EXIT_CODES.failed;
 }
 
 /**
- * Processes inactive issues that need to be closed
+ * Parses the command line and runs the command. Flags override the environment variables they
+ * stand for, which are read from `env` (the process environment by default).
  */
-async function processInactiveIssues(inactiveIssues: Issue[]): Promise<void> {
-  if (inactiveIssues.length === 0) {
-    console.log("✓ No inactive warned issues to close");
-    return;
+export async function main(argv: string[], env: EnvReader = name => Deno.env.get(name)): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCli(argv);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\nRun with --help for usage.`);
+    return exitCodeOf(error);
   }
-
-  console.log(`🔒 Found ${inactiveIssues.length} inactive warned issues to close...`);
-  const closeMessage = `🔒 Auto-closed: No activity for ${config.INACTIVITY_THRESHOLD_HOURS}h after warning\n\n` +
-    `This QA instance exceeded the ${config.INACTIVITY_THRESHOLD_HOURS}h inactivity threshold after receiving a warning.\n` +
-    `If you need this instance again, please reopen the issue and add a comment explaining why.`;
-  
-  const results = await closeIssues(inactiveIssues, closeMessage);
-  const succeeded = results.filter(r => r.success).length;
-  const failed = results.filter(r => !r.success).length;
-
-  console.log(`✓ Closing results: ${succeeded} succeeded, ${failed} failed`);
-
-  if (failed > 0) {
-    results
-      .filter(r => !r.success)
-      .forEach(r => console.error(`Failed to close issue #${r.issueNumber}:`, r.error));
+  if (options.help) {
+    console.log(usage());
+    return EXIT_CODES.success;
   }
-}
 
-/**
- * Main function that runs the retention check process
- */
-async function main() {
+  let config: Config;
   try {
-    logSection("Starting QA Instance Retention Check");
-    validateEnv();
-
-    // Log initial state
-    const [allIssues, qaIssues] = await Promise.all([
-      getOpenIssues(),
-      getQAReadyInstances(),
-    ]);
-
-    console.log("📊 Current state:", {
-      totalOpenIssues: allIssues.length,
-      qaInstances: qaIssues.length,
-    });
-
-    // Get list of issues that need warnings and those that are inactive
-    const needWarning = await getExpiredQAInstances();
-    const inactiveIssues = await getInactiveWarnedIssues();
-
-    // Filter out any issues that just received warnings from the inactive list
-    const trulyInactiveIssues = inactiveIssues.filter(inactive =>
-      !needWarning.some(warning => warning.number === inactive.number)
-    );
-
-    // Process warnings and inactive issues
-    await Promise.all([
-      processWarnings(needWarning),
-      processInactiveIssues(trulyInactiveIssues),
-    ]);
+    config = loadConfig(name => options.env[name] ?? env(name));
+  } catch (error) {
+    console.error("❌ Invalid configuration:", error instanceof Error ? error.message : error);
+    return EXIT_CODES.config;
+  }
 
-    logSection("Retention Check Completed Successfully");
-    Deno.exit(0);
+  try {
+    return await COMMANDS[options.command](await createContext({ config }), options.args);
   } catch (error) {
     console.error("❌ Fatal error:", error instanceof Error ? error.message : error);
-    logSection("Retention Check Failed");
-    Deno.exit(1);
+    return exitCodeOf(error);
   }
 }
 
-// Run the main function if this is the entry point
+// Run the command line if this is the entry point
 if (import.meta.main) {
-  main().catch(error => {
-    console.error("❌ Fatal error:", error instanceof Error ? error.message : error);
-    Deno.exit(1);
-  });
+  Deno.exit(await main(Deno.args));
 }
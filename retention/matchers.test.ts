@@ -0,0 +1,92 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { compileMatcher, DEFAULT_MATCHER_RULE, matchesPullRequests, parseMatcherRule } from "./matchers.ts";
+import { loadConfig } from "./config.ts";
+import { Issue, MatcherRule } from "./types.ts";
+
+const issue = (overrides: Partial<Issue> & { labelNames?: string[] } = {}): Issue => {
+  const { labelNames = [], ...rest } = overrides;
+  return {
+    number: 1,
+    title: "QA-Instance ready: checkout",
+    created_at: "2026-10-19T00:00:00Z",
+    updated_at: "2026-10-19T00:00:00Z",
+    user: { login: "alice" },
+    labels: labelNames.map(name => ({ name })),
+    ...rest,
+  };
+};
+
+const cases: Array<[name: string, rule: MatcherRule, issue: Issue, matches: boolean]> = [
+  ["default rule, QA title", DEFAULT_MATCHER_RULE, issue(), true],
+  ["default rule, other title", DEFAULT_MATCHER_RULE, issue({ title: "Checkout button misaligned" }), false],
+  ["title regex, anchored match", { title: "^\\[QA\\] .+-\\d+$" }, issue({ title: "[QA] checkout-42" }), true],
+  ["title regex, no match", { title: "^\\[QA\\] .+-\\d+$" }, issue({ title: "[QA] checkout" }), false],
+  ["title regex is case-sensitive", { title: "qa-instance" }, issue(), false],
+  ["title regex with inline alternatives", { title: "^(QA|Staging) env" }, issue({ title: "Staging env: search" }), true],
+  ["labels, all present", { labels: ["qa", "env"] }, issue({ labelNames: ["env", "qa", "bug"] }), true],
+  ["labels, one missing", { labels: ["qa", "env"] }, issue({ labelNames: ["qa"] }), false],
+  ["excluded label present", { labels: ["qa"], excludeLabels: ["keep"] }, issue({ labelNames: ["qa", "keep"] }), false],
+  ["excluded label absent", { labels: ["qa"], excludeLabels: ["keep"] }, issue({ labelNames: ["qa"] }), true],
+  ["author listed", { authors: ["deploy-bot"] }, issue({ user: { login: "deploy-bot" } }), true],
+  ["author not listed", { authors: ["deploy-bot"] }, issue(), false],
+  ["pull requests skipped by default", { title: "QA" }, issue({ isPullRequest: true }), false],
+  ["pull requests included on request", { title: "QA", includePullRequests: true }, issue({ isPullRequest: true }), true],
+  ["all, every rule matches", { all: [{ title: "QA" }, { labels: ["qa"] }] }, issue({ labelNames: ["qa"] }), true],
+  ["all, one rule fails", { all: [{ title: "QA" }, { labels: ["qa"] }] }, issue(), false],
+  ["any, one rule matches", { any: [{ title: "^Preview" }, { labels: ["qa"] }] }, issue({ labelNames: ["qa"] }), true],
+  ["any, no rule matches", { any: [{ title: "^Preview" }, { labels: ["qa"] }] }, issue(), false],
+];
+
+for (const [name, rule, candidate, matches] of cases) {
+  Deno.test(`compileMatcher: ${name}`, () => {
+    assertEquals(compileMatcher(parseMatcherRule(rule))(candidate), matches);
+  });
+}
+
+Deno.test("parseMatcherRule rejects invalid definitions with their path", () => {
+  const invalid: Array<[raw: unknown, message: string]> = [
+    ["QA", "matcher must be an object"],
+    [{ title: "[QA" }, "matcher.title is not a valid regex"],
+    [{ any: [{ title: "ok" }, { title: "(unclosed" }] }, "matcher.any[1].title is not a valid regex"],
+    [{ title: 42 }, "matcher.title must be a string"],
+    [{ labels: "qa" }, "matcher.labels must be an array of strings"],
+    [{ authors: ["alice", 1] }, "matcher.authors must be an array of strings"],
+    [{ includePullRequests: "yes" }, "matcher.includePullRequests must be a boolean"],
+    [{ titles: "QA" }, "matcher has unknown keys: titles"],
+    [{ all: [] }, "matcher.all must be a non-empty array"],
+    [{ all: [{ title: "QA" }], labels: ["qa"] }, 'matcher must only contain "all"'],
+  ];
+  for (const [raw, message] of invalid) {
+    assertThrows(() => parseMatcherRule(raw), Error, message);
+  }
+});
+
+Deno.test("parseMatcherRule rejects rules that would match every issue", () => {
+  const invalid: Array<[raw: unknown, message: string]> = [
+    [{}, "matcher must set at least one of title, labels or authors"],
+    [{ includePullRequests: true }, "matcher must set at least one of title, labels or authors"],
+    [{ excludeLabels: ["keep"] }, "matcher must set at least one of title, labels or authors"],
+    [{ title: "", labels: [], authors: [] }, "matcher must set at least one of title, labels or authors"],
+    [{ any: [{ title: "QA" }, {}] }, "matcher.any[1] must set at least one of title, labels or authors"],
+  ];
+  for (const [raw, message] of invalid) {
+    assertThrows(() => parseMatcherRule(raw), Error, message);
+  }
+});
+
+Deno.test("an invalid QA_MATCHER regex fails the configuration", () => {
+  const env: Record<string, string> = {
+    GITHUB_TOKEN: "test-token",
+    GITHUB_REPOS: "acme/qa",
+    RETENTION_HOURS: "48",
+    INACTIVITY_THRESHOLD_HOURS: "24",
+    QA_MATCHER: '{"title": "QA-Instance ready: (*"}',
+  };
+  assertThrows(() => loadConfig(name => env[name]), Error, "title is not a valid regex");
+});
+
+Deno.test("matchesPullRequests follows all and any", () => {
+  assertEquals(matchesPullRequests(DEFAULT_MATCHER_RULE), false);
+  assertEquals(matchesPullRequests({ any: [{ title: "QA" }, { includePullRequests: true }] }), true);
+  assertEquals(matchesPullRequests({ all: [{ title: "QA" }, { includePullRequests: true }] }), false);
+});
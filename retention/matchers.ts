@@ -0,0 +1,102 @@
+import { Issue, MatcherRule } from "./types.ts";
+
+/**
+ * Predicate deciding whether an issue is a QA instance
+ */
+export type IssueMatcher = (issue: Issue) => boolean;
+
+/**
+ * Matcher used when no rules are configured, equivalent to the original title check
+ */
+export const DEFAULT_MATCHER_RULE: MatcherRule = { title: "QA-Instance ready" };
+
+const CONDITION_KEYS = ["title", "labels", "excludeLabels", "authors", "includePullRequests"];
+
+/**
+ * Validates a raw (parsed JSON) matcher definition and returns it as a typed rule
+ */
+export function parseMatcherRule(raw: unknown, path = "matcher"): MatcherRule {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const rule = raw as Record<string, unknown>;
+
+  if ("all" in rule || "any" in rule) {
+    const key = "all" in rule ? "all" : "any";
+    if (Object.keys(rule).length !== 1) {
+      throw new Error(`${path} must only contain "${key}" when combining matchers`);
+    }
+    const children = rule[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new Error(`${path}.${key} must be a non-empty array`);
+    }
+    const parsed = children.map((child, i) => parseMatcherRule(child, `${path}.${key}[${i}]`));
+    return key === "all" ? { all: parsed } : { any: parsed };
+  }
+
+  const unknownKeys = Object.keys(rule).filter(k => !CONDITION_KEYS.includes(k));
+  if (unknownKeys.length > 0) {
+    throw new Error(`${path} has unknown keys: ${unknownKeys.join(", ")}`);
+  }
+
+  if (rule.title !== undefined) {
+    if (typeof rule.title !== "string") throw new Error(`${path}.title must be a string`);
+    try {
+      new RegExp(rule.title);
+    } catch (error) {
+      throw new Error(`${path}.title is not a valid regex: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  for (const key of ["labels", "excludeLabels", "authors"]) {
+    const value = rule[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== "string"))) {
+      throw new Error(`${path}.${key} must be an array of strings`);
+    }
+  }
+  if (rule.includePullRequests !== undefined && typeof rule.includePullRequests !== "boolean") {
+    throw new Error(`${path}.includePullRequests must be a boolean`);
+  }
+  // Without a title, label or author condition a rule matches every open issue, and they would
+  // all be warned and closed
+  const hasCondition = (typeof rule.title === "string" && rule.title !== "") ||
+    [rule.labels, rule.authors].some(value => Array.isArray(value) && value.length > 0);
+  if (!hasCondition) {
+    throw new Error(`${path} must set at least one of title, labels or authors`);
+  }
+
+  return rule as MatcherRule;
+}
+
+/**
+ * Compiles a matcher rule into a predicate
+ */
+export function compileMatcher(rule: MatcherRule): IssueMatcher {
+  if ("all" in rule) {
+    const matchers = rule.all.map(compileMatcher);
+    return issue => matchers.every(m => m(issue));
+  }
+  if ("any" in rule) {
+    const matchers = rule.any.map(compileMatcher);
+    return issue => matchers.some(m => m(issue));
+  }
+
+  const title = rule.title !== undefined ? new RegExp(rule.title) : undefined;
+  return issue => {
+    const labels = issue.labels.map(l => l.name);
+    if (issue.isPullRequest && !rule.includePullRequests) return false;
+    if (title && !title.test(issue.title)) return false;
+    if (rule.labels && !rule.labels.every(l => labels.includes(l))) return false;
+    if (rule.excludeLabels?.some(l => labels.includes(l))) return false;
+    if (rule.authors && !rule.authors.includes(issue.user.login)) return false;
+    return true;
+  };
+}
+
+/**
+ * Checks if a rule can match pull requests at all
+ */
+export function matchesPullRequests(rule: MatcherRule): boolean {
+  if ("all" in rule) return rule.all.every(matchesPullRequests);
+  if ("any" in rule) return rule.any.some(matchesPullRequests);
+  return rule.includePullRequests === true;
+}
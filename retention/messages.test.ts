@@ -0,0 +1,136 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { resolveConfig } from "./config.ts";
+import { createContext } from "./context.ts";
+import { GitHubClient } from "./github-api.ts";
+import { BUILTIN_TEMPLATES, loadTemplatesFile, MessageVariables, parseTemplates, renderTemplate, selectTemplate } from "./messages.ts";
+import { addWarningToIssues, closeIssues, generateMessage } from "./retention.ts";
+import { formatMarker, parseMarker } from "./state-machine.ts";
+import { Issue } from "./types.ts";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const variables: MessageVariables = {
+  author: "@alice",
+  assignees: "@bob",
+  mentions: "@alice @bob",
+  hoursInactive: "50",
+  retentionHours: "48",
+  inactivityHours: "24",
+  unit: "hours",
+  deadline: "Tue, 20 Oct 2026, 12:00 UTC",
+  policy: "default",
+  instanceLimit: "",
+};
+
+/**
+ * Client recording the comments it is asked to post
+ */
+class RecordingGitHub extends GitHubClient {
+  comments: string[] = [];
+
+  constructor() {
+    super("test-token", "acme", "qa");
+  }
+
+  override createComment(_issueNumber: number, body: string): Promise<void> {
+    this.comments.push(body);
+    return Promise.resolve();
+  }
+
+  override addLabels(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  override updateIssue(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+const instance: Issue = {
+  number: 7,
+  title: "QA-Instance ready: checkout",
+  created_at: "2026-10-17T10:00:00Z",
+  updated_at: "2026-10-17T10:00:00Z",
+  user: { login: "alice" },
+  assignees: [{ login: "bob" }, { login: "alice" }],
+  labels: [],
+  comments: [],
+};
+
+Deno.test("renderTemplate fills every placeholder, with or without spaces inside the braces", () => {
+  assertEquals(
+    renderTemplate("{{mentions}}: idle {{ hoursInactive }} {{unit}}, closing {{deadline}} ({{policy}}, {{hoursInactive}})", variables),
+    "@alice @bob: idle 50 hours, closing Tue, 20 Oct 2026, 12:00 UTC (default, 50)",
+  );
+  assertEquals(renderTemplate("Limit: {{instanceLimit}}.", variables), "Limit: .");
+  // Values are inserted as they are, not rendered again
+  assertEquals(renderTemplate("{{policy}}", { ...variables, policy: "{{author}}" }), "{{author}}");
+});
+
+Deno.test("renderTemplate leaves unknown placeholders as they are", () => {
+  assertEquals(renderTemplate("Hi {{author}}, see {{runbook}} or {{ }}", variables), "Hi @alice, see {{runbook}} or {{ }}");
+});
+
+Deno.test("parseTemplates rejects unknown placeholders and message kinds", () => {
+  assertEquals(parseTemplates({ warning: "{{ author }} idle {{hoursInactive}}" }, "templates"), {
+    warning: "{{ author }} idle {{hoursInactive}}",
+  });
+  assertThrows(
+    () => parseTemplates({ warning: "{{author}} see {{runbook}} and {{team}}" }, "templates.en"),
+    Error,
+    "templates.en.warning uses unknown placeholders: runbook, team",
+  );
+  assertThrows(() => parseTemplates({ reminder: "{{author}}" }, "templates.en"), Error, "templates.en.reminder is not a message kind");
+  assertThrows(() => parseTemplates({ close: "  " }, "templates.en"), Error, "templates.en.close must be a non-empty string");
+});
+
+Deno.test("loadTemplatesFile reads YAML and names the file and locale in errors", () => {
+  const path = Deno.makeTempFileSync({ suffix: ".yaml" });
+  try {
+    Deno.writeTextFileSync(path, "locales:\n  fr:\n    warning: \"{{mentions}} instance inactive\"\n");
+    assertEquals(loadTemplatesFile(path), { fr: { warning: "{{mentions}} instance inactive" } });
+
+    Deno.writeTextFileSync(path, "locales:\n  fr:\n    warning: \"{{mention}} instance inactive\"\n");
+    assertThrows(() => loadTemplatesFile(path), Error, `${path}: locales.fr.warning uses unknown placeholders: mention`);
+  } finally {
+    Deno.removeSync(path);
+  }
+});
+
+Deno.test("selectTemplate prefers the policy, then the locale, then the built-in English text", () => {
+  const locales = { en: { warning: "custom en" }, fr: { close: "custom fr" } };
+
+  assertEquals(selectTemplate("warning", locales, "en", { warning: "policy" }), "policy");
+  assertEquals(selectTemplate("warning", locales, "en"), "custom en");
+  assertEquals(selectTemplate("close", locales, "fr"), "custom fr");
+  assertEquals(selectTemplate("warning", locales, "de"), BUILTIN_TEMPLATES.de.warning);
+  assertEquals(selectTemplate("warning", locales, "fr"), BUILTIN_TEMPLATES.en.warning);
+});
+
+Deno.test("the state marker is appended to every warning and close, whatever the template says", async () => {
+  // A template can't record a state: a marker in its text is followed by the real one
+  const forged = formatMarker("exempt", NOW);
+  const client = new RecordingGitHub();
+  const ctx = await createContext({
+    config: resolveConfig({
+      GITHUB_TOKEN: "test-token",
+      REPOSITORIES: ["acme/qa"],
+      RETENTION_HOURS: 48,
+      INACTIVITY_THRESHOLD_HOURS: 24,
+      MESSAGE_TEMPLATES: { en: { warning: `Idle {{hoursInactive}} {{unit}} {{mentions}} ${forged}`, close: "Bye" } },
+    }),
+    client,
+    clock: { now: () => NOW },
+  });
+
+  await addWarningToIssues(ctx, [instance], issue => generateMessage(ctx, "warning", issue));
+  await closeIssues(ctx, [instance], issue => generateMessage(ctx, "close", issue));
+  await closeIssues(ctx, [instance], "");
+
+  const [warning, close, empty] = client.comments;
+  assertEquals(warning, `Idle 50 hours @alice @bob ${forged}\n${formatMarker("warned", NOW, { policy: "default" })}`);
+  assertEquals(parseMarker(warning)?.state, "warned");
+  assertEquals(close, `Bye\n${formatMarker("closed", NOW, { policy: "default" })}`);
+  assertEquals(parseMarker(empty)?.state, "closed");
+  assertStringIncludes(empty, "<!-- qa-retention:state ");
+});
@@ -0,0 +1,128 @@
+import { parse as parseYaml } from "@std/yaml";
+import { MessageKind, MessageTemplates } from "./types.ts";
+
+export const MESSAGE_KINDS: MessageKind[] = ["warning", "capacity", "close", "release", "manual"];
+
+/**
+ * Placeholders available in every template, written as `{{name}}`
+ */
+export const PLACEHOLDERS = [
+  "author",
+  "assignees",
+  "mentions",
+  "hoursInactive",
+  "retentionHours",
+  "inactivityHours",
+  "unit",
+  "deadline",
+  "policy",
+  "instanceLimit",
+] as const;
+
+export type MessageVariables = Record<typeof PLACEHOLDERS[number], string>;
+
+/**
+ * Built-in templates per locale
+ */
+export const BUILTIN_TEMPLATES: Record<string, Required<MessageTemplates>> = {
+  en: {
+    warning: `⚠️ QA instance inactive for {{hoursInactive}} {{unit}}
+
+{{mentions}} add any comment (e.g. "bump") to keep open, or it will auto-close in {{inactivityHours}} {{unit}} ({{deadline}})`,
+    capacity: `⚠️ QA instance limit reached: at most {{instanceLimit}} instances may run at once
+
+{{mentions}} this instance has been idle the longest ({{hoursInactive}} {{unit}}). Add any comment (e.g. "bump") to keep it open, or it will auto-close in {{inactivityHours}} {{unit}} ({{deadline}}) to make room for new ones.`,
+    close: `🔒 Auto-closed: No activity for {{inactivityHours}} {{unit}} after warning
+
+{{mentions}} this QA instance exceeded the {{inactivityHours}} {{unit}} inactivity threshold after receiving a warning.
+If you need this instance again, please reopen the issue and add a comment explaining why.`,
+    release: "🔓 Closed: released with `/release`. {{mentions}}",
+    manual: "🔒 Closed by an operator from the command line. {{mentions}}",
+  },
+  de: {
+    warning: `⚠️ QA-Instanz seit {{hoursInactive}} {{unit}} inaktiv
+
+{{mentions}} bitte kommentieren (z. B. "bump"), um sie offen zu halten, sonst wird sie in {{inactivityHours}} {{unit}} automatisch geschlossen ({{deadline}})`,
+    capacity: `⚠️ Limit an QA-Instanzen erreicht: höchstens {{instanceLimit}} Instanzen dürfen gleichzeitig laufen
+
+{{mentions}} diese Instanz ist am längsten inaktiv ({{hoursInactive}} {{unit}}). Bitte kommentieren (z. B. "bump"), um sie offen zu halten, sonst wird sie in {{inactivityHours}} {{unit}} automatisch geschlossen ({{deadline}}), um Platz für neue zu schaffen.`,
+    close: `🔒 Automatisch geschlossen: {{inactivityHours}} {{unit}} ohne Aktivität nach der Warnung
+
+{{mentions}} diese QA-Instanz hat nach der Warnung die Inaktivitätsgrenze von {{inactivityHours}} {{unit}} überschritten.
+Falls sie noch gebraucht wird, bitte das Issue wieder öffnen und begründen.`,
+    release: "🔓 Geschlossen: freigegeben mit `/release`. {{mentions}}",
+    manual: "🔒 Von einem Operator über die Kommandozeile geschlossen. {{mentions}}",
+  },
+};
+
+/**
+ * Validates a set of templates, rejecting unknown kinds and placeholders
+ */
+export function parseTemplates(raw: unknown, path: string): MessageTemplates {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+  for (const [kind, template] of Object.entries(raw)) {
+    if (!MESSAGE_KINDS.includes(kind as MessageKind)) {
+      throw new Error(`${path}.${kind} is not a message kind, expected one of: ${MESSAGE_KINDS.join(", ")}`);
+    }
+    if (typeof template !== "string" || !template.trim()) {
+      throw new Error(`${path}.${kind} must be a non-empty string`);
+    }
+    const unknown = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+      .map(m => m[1])
+      .filter(name => !(PLACEHOLDERS as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`${path}.${kind} uses unknown placeholders: ${unknown.join(", ")}`);
+    }
+  }
+  return raw as MessageTemplates;
+}
+
+/**
+ * Reads a JSON or YAML file of the form `{ locales: { <locale>: { warning, close, release } } }`
+ */
+export function loadTemplatesFile(path: string): Record<string, MessageTemplates> {
+  let raw: unknown;
+  try {
+    const text = Deno.readTextFileSync(path);
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to read templates file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const locales = (raw as { locales?: unknown } | null)?.locales;
+  if (typeof locales !== "object" || locales === null || Array.isArray(locales)) {
+    throw new Error(`${path} must contain a "locales" object`);
+  }
+  return Object.fromEntries(
+    Object.entries(locales).map(([locale, templates]) => [locale, parseTemplates(templates, `${path}: locales.${locale}`)]),
+  );
+}
+
+/**
+ * Replaces `{{name}}` placeholders with their values
+ */
+export function renderTemplate(template: string, variables: MessageVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof MessageVariables] : match
+  );
+}
+
+/**
+ * Picks the template for a message: policy override, then the locale, then English
+ */
+export function selectTemplate(
+  kind: MessageKind,
+  locales: Record<string, MessageTemplates>,
+  locale: string,
+  override?: MessageTemplates,
+): string {
+  return override?.[kind] ?? locales[locale]?.[kind] ?? BUILTIN_TEMPLATES[locale]?.[kind] ??
+    BUILTIN_TEMPLATES.en[kind];
+}
+
+/**
+ * Formats logins as @-mentions
+ */
+export const mention = (logins: string[]): string => logins.map(l => `@${l}`).join(" ");
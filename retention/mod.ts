@@ -0,0 +1,53 @@
+/**
+ * Warns about and closes inactive QA instances tracked as GitHub issues.
+ *
+ * `runRetention` runs one retention check over every configured repository. Importing this
+ * module reads no environment variables and makes no requests; the configuration comes from
+ * `loadConfig` (environment variables) or `resolveConfig` (settings in code), and the GitHub
+ * client, cache, notifier, clock and logger can all be replaced.
+ *
+ * @example
+ * ```ts
+ * import { loadConfig, runRetention } from "@doloresdei/qa-retention";
+ *
+ * const { success, repositories } = await runRetention({ config: loadConfig() });
+ * ```
+ *
+ * @module
+ */
+
+export { runRetention, runRetentionCheck } from "./run.ts";
+export { createContext, forRepository, systemClock } from "./context.ts";
+export type { RetentionContext, RetentionOptions, RunCache } from "./context.ts";
+export { describeConfig, loadConfig, resolveConfig } from "./config.ts";
+export type { Config, ConfigInput, EnvReader } from "./config.ts";
+export { GitHubClient } from "./github-api.ts";
+export { DryRunGitHubClient } from "./dry-run.ts";
+export { MemoryCacheStore, FileCacheStore } from "./cache-store.ts";
+export type { CacheStore } from "./cache-store.ts";
+export { Notifier } from "./notifier.ts";
+export { clearCache, getQAInstanceWithComments } from "./issues-api.ts";
+export {
+  closeIssues,
+  evaluateIssue,
+  explainIssue,
+  extendIssue,
+  getDashboardRows,
+  getDecisionRecord,
+  getDecisionRecords,
+  getIssueState,
+} from "./retention.ts";
+export type {
+  Clock,
+  DashboardRow,
+  DecisionRecord,
+  Issue,
+  IssueExplanation,
+  IssueState,
+  Logger,
+  OperationResult,
+  PlannedAction,
+  RepositorySummary,
+  RetentionPolicy,
+  RetentionResult,
+} from "./types.ts";
@@ -0,0 +1,179 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { SIGNATURE_HEADER, signPayload } from "./hooks.ts";
+import { Notifier, parseNotificationSettings, toNotifiedIssue } from "./notifier.ts";
+import { NotifiedIssue, RepositorySummary } from "./types.ts";
+
+interface Received {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Starts a local server standing in for Slack, Teams and webhook endpoints. `/down` answers 500.
+ */
+async function withStub(fn: (baseUrl: string, received: Received[]) => Promise<void>): Promise<void> {
+  const received: Received[] = [];
+  const controller = new AbortController();
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", signal: controller.signal, onListen: () => {} }, async request => {
+    const path = new URL(request.url).pathname;
+    received.push({ path, headers: request.headers, body: await request.text() });
+    return new Response(path === "/down" ? "oops" : "ok", { status: path === "/down" ? 500 : 200 });
+  });
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`, received);
+  } finally {
+    controller.abort();
+    await server.finished;
+  }
+}
+
+const notifierFor = (baseUrl: string) =>
+  new Notifier(parseNotificationSettings({
+    channels: [
+      { name: "team", type: "slack", url: `${baseUrl}/slack`, events: ["warning", "close", "digest"] },
+      { name: "managers", type: "teams", url: `${baseUrl}/teams`, events: ["digest"] },
+      { name: "ops", type: "webhook", url: `${baseUrl}/ops`, secret: "ops-secret", events: ["failure"] },
+    ],
+    users: { alice: "<@U024BE7LH>" },
+  }));
+
+const issue: NotifiedIssue = {
+  repository: "acme/qa",
+  number: 42,
+  title: "QA-Instance ready: checkout <beta>",
+  url: "https://github.com/acme/qa/issues/42",
+  owners: ["alice", "bob"],
+};
+
+const summary: RepositorySummary = {
+  repository: "acme/qa",
+  qaInstances: 7,
+  warned: 1,
+  reclaimed: 0,
+  closed: 1,
+  released: 0,
+  exempt: 2,
+  failed: 0,
+};
+
+Deno.test("warnings go to subscribed channels with chat handles and Slack links", async () => {
+  await withStub(async (baseUrl, received) => {
+    await notifierFor(baseUrl).notify({
+      event: "warning",
+      issue,
+      reason: "inactivity",
+      closesAt: new Date("2026-10-20T12:00:00Z"),
+    });
+
+    assertEquals(received.map(r => r.path), ["/slack"]);
+    const { text } = JSON.parse(received[0].body);
+    assertStringIncludes(text, "<https://github.com/acme/qa/issues/42|acme/qa#42 QA-Instance ready: checkout &lt;beta&gt;>");
+    assertStringIncludes(text, "Owners: <@U024BE7LH>, bob");
+  });
+});
+
+Deno.test("issues link to the web page GitHub reports for them, and to nothing when there is none", async () => {
+  const notified = toNotifiedIssue({
+    number: 42,
+    title: "QA-Instance ready: checkout",
+    created_at: "2026-10-15T09:00:00Z",
+    updated_at: "2026-10-15T09:00:00Z",
+    user: { login: "alice" },
+    assignees: [{ login: "bob" }, { login: "alice" }],
+    labels: [],
+    html_url: "https://github.acme.example/acme/qa/issues/42",
+  }, "acme/qa");
+  assertEquals(notified, {
+    repository: "acme/qa",
+    number: 42,
+    title: "QA-Instance ready: checkout",
+    url: "https://github.acme.example/acme/qa/issues/42",
+    owners: ["alice", "bob"],
+  });
+
+  await withStub(async (baseUrl, received) => {
+    const notifier = notifierFor(baseUrl);
+    await notifier.notify({ event: "close", issue: { ...issue, url: undefined }, reason: "release" });
+    await notifier.sendDigest([summary]);
+
+    const slack = received.filter(r => r.path === "/slack").map(r => JSON.parse(r.body).text);
+    assertStringIncludes(slack[0], "\nacme/qa#42 QA-Instance ready: checkout &lt;beta&gt;\n");
+    assertStringIncludes(JSON.parse(received.find(r => r.path === "/teams")!.body).text, "• acme/qa#42 QA-Instance ready: checkout <beta> (");
+  });
+});
+
+Deno.test("failures go only to the ops channel, signed", async () => {
+  await withStub(async (baseUrl, received) => {
+    await notifierFor(baseUrl).notify({ event: "failure", repository: "acme/qa", errors: ["close #42: 502 Bad Gateway"] });
+
+    assertEquals(received.map(r => r.path), ["/ops"]);
+    const [{ headers, body }] = received;
+    assertEquals(headers.get(SIGNATURE_HEADER), await signPayload(body, "ops-secret"));
+    const payload = JSON.parse(body);
+    assertEquals(payload.event, "failure");
+    assertEquals(payload.errors, ["close #42: 502 Bad Gateway"]);
+    assertStringIncludes(payload.text, "failed in acme/qa");
+  });
+});
+
+Deno.test("the digest lists the run's warnings and closes and is skipped when nothing happened", async () => {
+  await withStub(async (baseUrl, received) => {
+    const notifier = notifierFor(baseUrl);
+    await notifier.sendDigest([{ ...summary, warned: 0, closed: 0 }]);
+    assertEquals(received, []);
+
+    await notifier.notify({ event: "close", issue, reason: "inactivity" });
+    received.length = 0;
+    await notifier.sendDigest([summary]);
+
+    assertEquals(received.map(r => r.path).sort(), ["/slack", "/teams"]);
+    const card = JSON.parse(received.find(r => r.path === "/teams")!.body);
+    assertEquals(card["@type"], "MessageCard");
+    assertStringIncludes(card.text, "acme/qa: 7 instances, 1 warned, 1 closed, 0 failed");
+    assertStringIncludes(card.text, "Closed:\n\n• [acme/qa#42 QA-Instance ready: checkout <beta>](https://github.com/acme/qa/issues/42)");
+
+    // Each digest only covers what happened since the previous one
+    received.length = 0;
+    await notifier.sendDigest([{ ...summary, warned: 0, closed: 0 }]);
+    assertEquals(received, []);
+  });
+});
+
+Deno.test("a channel that is down does not fail the notification", async () => {
+  await withStub(async (baseUrl, received) => {
+    const notifier = new Notifier(parseNotificationSettings({
+      channels: [{ type: "slack", url: `${baseUrl}/down`, events: ["close"] }],
+    }));
+    await notifier.notify({ event: "close", issue, reason: "release" });
+    assertEquals(received.length, 1);
+  });
+});
+
+Deno.test("parseNotificationSettings validates channels and resolves env references", () => {
+  Deno.env.set("TEST_SLACK_WEBHOOK_URL", "https://hooks.slack.com/services/T000/B000/XXX");
+  const settings = parseNotificationSettings({
+    channels: [{ type: "slack", url: "env:TEST_SLACK_WEBHOOK_URL", events: ["warning"] }],
+  });
+  assertEquals(settings.channels[0].url, "https://hooks.slack.com/services/T000/B000/XXX");
+  assertEquals(settings.channels[0].name, "slack");
+  assertEquals(settings.users, {});
+
+  assertThrows(() => parseNotificationSettings({}), Error, 'must contain a "channels" list');
+  assertThrows(
+    () => parseNotificationSettings({ channels: [{ type: "irc", url: "https://x", events: ["close"] }] }),
+    Error,
+    "channels[0].type must be one of",
+  );
+  assertThrows(
+    () => parseNotificationSettings({ channels: [{ type: "slack", url: "https://x", events: ["lunch"] }] }),
+    Error,
+    "channels[0].events must be a non-empty list",
+  );
+  assertThrows(
+    () => parseNotificationSettings({ channels: [{ type: "slack", url: "env:TEST_UNSET_VARIABLE", events: ["close"] }] }),
+    Error,
+    "refers to TEST_UNSET_VARIABLE, which is not set",
+  );
+  assert(parseNotificationSettings({ channels: [], users: { alice: "@alice" } }).users.alice === "@alice");
+});
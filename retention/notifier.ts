@@ -0,0 +1,279 @@
+import { parse as parseYaml } from "@std/yaml";
+import { formatDateTime } from "./calendar.ts";
+import { SIGNATURE_HEADER, signPayload } from "./hooks.ts";
+import {
+  Issue,
+  Logger,
+  Notification,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationSettings,
+  NotifiedIssue,
+  RepositorySummary,
+} from "./types.ts";
+
+const EVENTS: NotificationEvent[] = ["warning", "close", "digest", "failure"];
+const CHANNEL_TYPES: NotificationChannel["type"][] = ["slack", "teams", "webhook"];
+
+/**
+ * Chat services that don't answer within this time are given up on
+ */
+const SEND_TIMEOUT_MS = 10_000;
+
+/**
+ * Resolves a value written as `env:NAME` from the environment, so webhook URLs and secrets can
+ * stay out of the settings file
+ */
+function resolveValue(value: unknown, path: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${path} must be a non-empty string`);
+  }
+  if (!value.startsWith("env:")) return value;
+
+  const name = value.slice(4);
+  const resolved = Deno.env.get(name);
+  if (!resolved) {
+    throw new Error(`${path} refers to ${name}, which is not set`);
+  }
+  return resolved;
+}
+
+/**
+ * Validates a single channel
+ */
+function parseChannel(raw: unknown, path: string): NotificationChannel {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const channel = raw as Record<string, unknown>;
+
+  if (!CHANNEL_TYPES.includes(channel.type as NotificationChannel["type"])) {
+    throw new Error(`${path}.type must be one of: ${CHANNEL_TYPES.join(", ")}, got: ${JSON.stringify(channel.type)}`);
+  }
+  const url = resolveValue(channel.url, `${path}.url`);
+  if (!URL.canParse(url)) {
+    throw new Error(`${path}.url is not a valid URL`);
+  }
+  const events = channel.events;
+  if (!Array.isArray(events) || events.length === 0 || events.some(e => !EVENTS.includes(e))) {
+    throw new Error(`${path}.events must be a non-empty list of: ${EVENTS.join(", ")}`);
+  }
+
+  return {
+    name: typeof channel.name === "string" && channel.name ? channel.name : `${channel.type}`,
+    type: channel.type as NotificationChannel["type"],
+    url,
+    ...(channel.secret !== undefined ? { secret: resolveValue(channel.secret, `${path}.secret`) } : {}),
+    events: events as NotificationEvent[],
+  };
+}
+
+/**
+ * Validates notification settings of the form `{ channels: [...], users: { login: handle } }`
+ */
+export function parseNotificationSettings(raw: unknown, path = "notifications"): NotificationSettings {
+  const { channels, users = {} } = (raw ?? {}) as { channels?: unknown; users?: unknown };
+  if (!Array.isArray(channels)) {
+    throw new Error(`${path} must contain a "channels" list`);
+  }
+  if (typeof users !== "object" || users === null || Array.isArray(users)) {
+    throw new Error(`${path}: users must map GitHub logins to chat handles`);
+  }
+  for (const [login, handle] of Object.entries(users)) {
+    if (typeof handle !== "string" || !handle.trim()) {
+      throw new Error(`${path}: users.${login} must be a non-empty string`);
+    }
+  }
+
+  return {
+    channels: channels.map((channel, i) => parseChannel(channel, `${path}: channels[${i}]`)),
+    users: users as Record<string, string>,
+  };
+}
+
+/**
+ * Reads and validates a JSON or YAML notifications file
+ */
+export function loadNotificationsFile(path: string): NotificationSettings {
+  let raw: unknown;
+  try {
+    const text = Deno.readTextFileSync(path);
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to read notifications file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseNotificationSettings(raw, path);
+}
+
+/**
+ * Describes an instance for notifications
+ */
+export const toNotifiedIssue = (issue: Issue, repository: string): NotifiedIssue => ({
+  repository,
+  number: issue.number,
+  title: issue.title,
+  url: issue.html_url,
+  owners: [...new Set([issue.user.login, ...(issue.assignees?.map(a => a.login) ?? [])])],
+});
+
+/**
+ * A notification rendered as a headline and lines of text, with links in the channel's syntax
+ */
+interface Message {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * Sends notifications to the channels subscribed to them. Sending never throws: a chat service
+ * being down must not fail the retention run.
+ */
+export class Notifier {
+  /** Instances warned and closed since the last digest */
+  private warned: NotifiedIssue[] = [];
+  private closed: NotifiedIssue[] = [];
+
+  constructor(
+    private settings: NotificationSettings,
+    private options: { dryRun?: boolean; timezone?: string; logger?: Logger } = {},
+  ) {}
+
+  private get logger(): Logger {
+    return this.options.logger ?? console;
+  }
+
+  /**
+   * Sends a notification to every channel subscribed to its event
+   */
+  async notify(notification: Notification): Promise<void> {
+    if (notification.event === "warning") this.warned.push(notification.issue);
+    if (notification.event === "close") this.closed.push(notification.issue);
+
+    const channels = this.settings.channels.filter(c => c.events.includes(notification.event));
+    await Promise.all(channels.map(channel => this.send(channel, notification)));
+  }
+
+  /**
+   * Sends the digest of a run: the results per repository and the instances warned and closed
+   * along the way. Runs in which nothing happened send nothing.
+   */
+  async sendDigest(repositories: RepositorySummary[]): Promise<void> {
+    const [warned, closed] = [this.warned, this.closed];
+    this.warned = [];
+    this.closed = [];
+    if (warned.length === 0 && closed.length === 0 && !repositories.some(r => r.error || r.failed > 0)) {
+      return;
+    }
+    await this.notify({ event: "digest", repositories, warned, closed });
+  }
+
+  private async send(channel: NotificationChannel, notification: Notification): Promise<void> {
+    const message = this.render(notification, channel.type === "slack" ? slackLink : markdownLink);
+    if (this.options.dryRun) {
+      this.logger.log(`📝 Dry run: would notify ${channel.name}: ${message.title}`);
+      return;
+    }
+
+    const payload = channel.type === "slack"
+      ? { text: [`*${message.title}*`, ...message.lines].join("\n") }
+      : channel.type === "teams"
+      ? {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: message.title,
+        title: message.title,
+        // Teams only breaks lines on blank lines
+        text: message.lines.join("\n\n"),
+      }
+      : { ...notification, text: [message.title, ...message.lines].join("\n") };
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (channel.type === "webhook" && channel.secret) {
+      headers[SIGNATURE_HEADER] = await signPayload(body, channel.secret);
+    }
+
+    try {
+      const response = await fetch(channel.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`responded with ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to notify ${channel.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Returns the chat handles of GitHub users, falling back to the login
+   */
+  private handles(logins: string[]): string {
+    return logins.map(login => this.settings.users[login] ?? login).join(", ");
+  }
+
+  private render(notification: Notification, link: (url: string | undefined, text: string) => string): Message {
+    const issueLink = (issue: NotifiedIssue) =>
+      link(issue.url, `${issue.repository}#${issue.number} ${issue.title}`);
+    const time = (date: Date) => formatDateTime(date, this.options.timezone);
+
+    switch (notification.event) {
+      case "warning":
+        return {
+          title: notification.reason === "capacity"
+            ? "⚠️ QA instance limit reached, this instance will be closed to make room"
+            : "⚠️ QA instance will be closed for inactivity",
+          lines: [
+            issueLink(notification.issue),
+            `Owners: ${this.handles(notification.issue.owners)}`,
+            `Closes ${time(notification.closesAt)} unless someone comments on the issue`,
+          ],
+        };
+      case "close":
+        return {
+          title: {
+            inactivity: "🔒 QA instance closed after inactivity",
+            release: "🔓 QA instance released",
+            manual: "🔒 QA instance closed by an operator",
+          }[notification.reason],
+          lines: [issueLink(notification.issue), `Owners: ${this.handles(notification.issue.owners)}`],
+        };
+      case "digest": {
+        const list = (issues: NotifiedIssue[]) => issues.map(i => `• ${issueLink(i)} (${this.handles(i.owners)})`);
+        return {
+          title: "📊 QA instance retention run",
+          lines: [
+            ...notification.repositories.map(r =>
+              r.error
+                ? `❌ ${r.repository}: ${r.error}`
+                : `${r.repository}: ${r.qaInstances} instances, ${r.warned + r.reclaimed} warned, ` +
+                  `${r.closed + r.released} closed, ${r.failed} failed`
+            ),
+            ...(notification.warned.length > 0 ? ["Warned:", ...list(notification.warned)] : []),
+            ...(notification.closed.length > 0 ? ["Closed:", ...list(notification.closed)] : []),
+          ],
+        };
+      }
+      case "failure":
+        return {
+          title: `🚨 QA instance retention failed${notification.repository ? ` in ${notification.repository}` : ""}`,
+          lines: notification.errors.map(e => `• ${e}`),
+        };
+    }
+  }
+}
+
+/**
+ * Slack's link syntax; `&`, `<` and `>` must be escaped in the text. Without a URL, just the text.
+ */
+const slackLink = (url: string | undefined, text: string): string => {
+  const escaped = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return url ? `<${url}|${escaped}>` : escaped;
+};
+
+const markdownLink = (url: string | undefined, text: string): string =>
+  url ? `[${text.replace(/[[\]]/g, "\\$&")}](${url})` : text;
@@ -0,0 +1,134 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { loadConfig, resolveConfig } from "./config.ts";
+import { createContext } from "./context.ts";
+import { GitHubClient } from "./github-api.ts";
+import { createPolicyResolver, DEFAULT_POLICY_NAME, parsePolicies } from "./policies.ts";
+import { parseRepositoryOverrides } from "./repositories.ts";
+import { getIssuePolicy } from "./retention.ts";
+import { Issue, RetentionPolicy } from "./types.ts";
+
+const issue = (labels: string[] = [], repository = "acme/qa"): Issue => ({
+  number: 1,
+  title: "QA-Instance ready: checkout",
+  created_at: "2026-10-19T00:00:00Z",
+  updated_at: "2026-10-19T00:00:00Z",
+  user: { login: "alice" },
+  labels: labels.map(name => ({ name })),
+  repository,
+});
+
+const POLICIES = {
+  policies: [
+    { name: "perf", retentionHours: 8, inactivityThresholdHours: 4, match: { labels: ["perf"] } },
+    { name: "long-running", retentionHours: 168, inactivityThresholdHours: 48, match: { labels: ["soak"] } },
+    { name: "soak-short", retentionHours: 12, inactivityThresholdHours: 6, match: { labels: ["soak"] } },
+  ],
+};
+
+const fallback: RetentionPolicy = { name: DEFAULT_POLICY_NAME, retentionHours: 48, inactivityThresholdHours: 24 };
+
+Deno.test("the first policy matching an issue's labels applies, the default otherwise", () => {
+  const resolve = createPolicyResolver(parsePolicies(POLICIES), fallback);
+
+  assertEquals(resolve(issue(["perf"])).name, "perf");
+  // Both soak policies match; the one listed first wins
+  assertEquals(resolve(issue(["soak"])).name, "long-running");
+  assertEquals(resolve(issue(["perf", "soak"])).name, "perf");
+  assertEquals(resolve(issue(["bug"])), fallback);
+});
+
+Deno.test("repository overrides replace the policies and thresholds of their repository only", async () => {
+  const ctx = await createContext({
+    config: resolveConfig({
+      GITHUB_TOKEN: "test-token",
+      REPOSITORIES: ["acme/qa", "acme/web", "acme/api", "other/api"],
+      RETENTION_HOURS: 48,
+      INACTIVITY_THRESHOLD_HOURS: 24,
+      POLICIES: parsePolicies(POLICIES),
+      REPOSITORY_OVERRIDES: parseRepositoryOverrides({
+        repositories: {
+          "acme/web": {
+            retentionHours: 96,
+            policies: [{ name: "web-perf", retentionHours: 2, inactivityThresholdHours: 1, match: { labels: ["perf"] } }],
+          },
+          // A bare name applies to the repository under any owner, unless an owner/name key exists
+          api: { retentionHours: 72, inactivityThresholdHours: 12 },
+          "other/api": { inactivityThresholdHours: 36 },
+        },
+      }),
+    }),
+    client: new GitHubClient("test-token", "acme", "qa"),
+  });
+  const policy = (labels: string[], repository: string) => {
+    const { name, retentionHours, inactivityThresholdHours } = getIssuePolicy(ctx, issue(labels, repository));
+    return { name, retentionHours, inactivityThresholdHours };
+  };
+
+  // No override: global policies, then the default thresholds
+  assertEquals(policy(["perf"], "acme/qa"), { name: "perf", retentionHours: 8, inactivityThresholdHours: 4 });
+  assertEquals(policy([], "acme/qa"), { name: "default", retentionHours: 48, inactivityThresholdHours: 24 });
+  // The override's policies replace the global ones, its thresholds the default ones
+  assertEquals(policy(["perf"], "acme/web"), { name: "web-perf", retentionHours: 2, inactivityThresholdHours: 1 });
+  assertEquals(policy(["soak"], "acme/web"), { name: "default", retentionHours: 96, inactivityThresholdHours: 24 });
+  // Without policies of its own, the global policies still apply
+  assertEquals(policy(["perf"], "acme/api"), { name: "perf", retentionHours: 8, inactivityThresholdHours: 4 });
+  assertEquals(policy([], "acme/api"), { name: "default", retentionHours: 72, inactivityThresholdHours: 12 });
+  assertEquals(policy([], "other/api"), { name: "default", retentionHours: 48, inactivityThresholdHours: 36 });
+});
+
+Deno.test("parsePolicies rejects invalid durations and definitions", () => {
+  const policy = { name: "perf", retentionHours: 8, inactivityThresholdHours: 4, match: { labels: ["perf"] } };
+  const invalid: Array<[raw: unknown, message: string]> = [
+    [{ policies: [{ ...policy, retentionHours: 0 }] }, "policies[0].retentionHours must be a positive number, got: 0"],
+    [{ policies: [{ ...policy, retentionHours: -8 }] }, "retentionHours must be a positive number, got: -8"],
+    [{ policies: [{ ...policy, retentionHours: "8h" }] }, 'retentionHours must be a positive number, got: "8h"'],
+    [{ policies: [{ ...policy, inactivityThresholdHours: null }] }, "inactivityThresholdHours must be a positive number, got: null"],
+    [{ policies: [{ ...policy, inactivityThresholdHours: 8 }] }, "inactivityThresholdHours must be less than retentionHours"],
+    [{ policies: [policy, policy] }, 'duplicate policy name "perf"'],
+    [{ policies: [{ ...policy, name: DEFAULT_POLICY_NAME }] }, 'duplicate policy name "default"'],
+    [{ policies: [{ ...policy, match: undefined }] }, "policies[0].match is required"],
+    [{ policies: [{ ...policy, ttl: 4 }] }, "policies[0] has unknown keys: ttl"],
+    [{ rules: [] }, 'must contain a "policies" array'],
+  ];
+  for (const [raw, message] of invalid) {
+    assertThrows(() => parsePolicies(raw), Error, message);
+  }
+
+  assertThrows(
+    () => parseRepositoryOverrides({ repositories: { "acme/web": { retentionHours: "two days" } } }),
+    Error,
+    'repositories.acme/web.retentionHours must be a positive number, got: "two days"',
+  );
+});
+
+Deno.test("thresholds from the environment are required and must be positive numbers", () => {
+  const load = (env: Record<string, string | undefined>) =>
+    loadConfig(name =>
+      ({ GITHUB_TOKEN: "test-token", GITHUB_REPOS: "acme/qa", RETENTION_HOURS: "48", INACTIVITY_THRESHOLD_HOURS: "24", ...env })[name]
+    );
+
+  assertEquals(load({}).DEFAULT_POLICY, fallback);
+  assertEquals(load({ RETENTION_HOURS: "72" }).DEFAULT_POLICY.retentionHours, 72);
+  // A missing or misspelled variable stops the run rather than guessing a threshold
+  assertThrows(() => load({ RETENTION_HOURS: undefined }), Error, "RETENTION_HOURS is required");
+  assertThrows(() => load({ INACTIVITY_THRESHOLD_HOURS: " " }), Error, "INACTIVITY_THRESHOLD_HOURS is required");
+  assertThrows(() => load({ RETENTION_HOURS: "two days" }), Error, "RETENTION_HOURS must be a positive number, got: NaN");
+  assertThrows(() => load({ INACTIVITY_THRESHOLD_HOURS: "-1" }), Error, "INACTIVITY_THRESHOLD_HOURS must be a positive number");
+  assertThrows(
+    () => load({ RETENTION_HOURS: "24", INACTIVITY_THRESHOLD_HOURS: "24" }),
+    Error,
+    "INACTIVITY_THRESHOLD_HOURS must be less than RETENTION_HOURS",
+  );
+  assertThrows(
+    () =>
+      resolveConfig({
+        GITHUB_TOKEN: "test-token",
+        REPOSITORIES: ["acme/qa"],
+        RETENTION_HOURS: 48,
+        INACTIVITY_THRESHOLD_HOURS: 24,
+        REPOSITORY_OVERRIDES: { web: { inactivityThresholdHours: 60 } },
+      }),
+    Error,
+    'Repository override "web": inactivityThresholdHours must be less than retentionHours',
+  );
+});
@@ -0,0 +1,103 @@
+import { parse as parseYaml } from "@std/yaml";
+import { compileMatcher, IssueMatcher, parseMatcherRule } from "./matchers.ts";
+import { parseTemplates } from "./messages.ts";
+import { Issue, RetentionPolicy } from "./types.ts";
+
+/**
+ * Name of the policy built from RETENTION_HOURS / INACTIVITY_THRESHOLD_HOURS
+ */
+export const DEFAULT_POLICY_NAME = "default";
+
+/**
+ * Validates a single policy entry
+ */
+function parsePolicy(raw: unknown, path: string): RetentionPolicy {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const policy = raw as Record<string, unknown>;
+
+  const unknownKeys = Object.keys(policy)
+    .filter(k => !["name", "retentionHours", "inactivityThresholdHours", "match", "locale", "messages"].includes(k));
+  if (unknownKeys.length > 0) {
+    throw new Error(`${path} has unknown keys: ${unknownKeys.join(", ")}`);
+  }
+
+  if (typeof policy.name !== "string" || !policy.name.trim()) {
+    throw new Error(`${path}.name is required`);
+  }
+  for (const key of ["retentionHours", "inactivityThresholdHours"]) {
+    const value = policy[key];
+    if (typeof value !== "number" || !(value > 0)) {
+      throw new Error(`${path}.${key} must be a positive number, got: ${JSON.stringify(value)}`);
+    }
+  }
+  if (policy.match === undefined) {
+    throw new Error(`${path}.match is required`);
+  }
+  if (policy.locale !== undefined && (typeof policy.locale !== "string" || !policy.locale.trim())) {
+    throw new Error(`${path}.locale must be a non-empty string`);
+  }
+
+  const parsed: RetentionPolicy = {
+    name: policy.name,
+    retentionHours: policy.retentionHours as number,
+    inactivityThresholdHours: policy.inactivityThresholdHours as number,
+    match: parseMatcherRule(policy.match, `${path}.match`),
+    ...(policy.locale !== undefined ? { locale: policy.locale as string } : {}),
+    ...(policy.messages !== undefined ? { messages: parseTemplates(policy.messages, `${path}.messages`) } : {}),
+  };
+
+  if (parsed.inactivityThresholdHours >= parsed.retentionHours) {
+    throw new Error(`${path}.inactivityThresholdHours must be less than retentionHours`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Validates a parsed policy document of the form `{ policies: [...] }`
+ */
+export function parsePolicies(raw: unknown, source = "policies"): RetentionPolicy[] {
+  if (typeof raw !== "object" || raw === null || !Array.isArray((raw as { policies?: unknown }).policies)) {
+    throw new Error(`${source} must contain a "policies" array`);
+  }
+  const policies = (raw as { policies: unknown[] }).policies
+    .map((policy, i) => parsePolicy(policy, `${source}: policies[${i}]`));
+
+  const names = new Set<string>();
+  for (const { name } of policies) {
+    if (names.has(name) || name === DEFAULT_POLICY_NAME) {
+      throw new Error(`${source}: duplicate policy name "${name}"`);
+    }
+    names.add(name);
+  }
+
+  return policies;
+}
+
+/**
+ * Reads and validates a JSON or YAML policy file
+ */
+export function loadPolicyFile(path: string): RetentionPolicy[] {
+  let raw: unknown;
+  try {
+    const text = Deno.readTextFileSync(path);
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to read policy file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parsePolicies(raw, path);
+}
+
+/**
+ * Creates a function returning the first policy matching an issue, or the fallback policy
+ */
+export function createPolicyResolver(
+  policies: RetentionPolicy[],
+  fallback: RetentionPolicy,
+): (issue: Issue) => RetentionPolicy {
+  const compiled: Array<[IssueMatcher, RetentionPolicy]> = policies
+    .map(policy => [compileMatcher(policy.match!), policy]);
+  return issue => compiled.find(([matches]) => matches(issue))?.[1] ?? fallback;
+}
@@ -0,0 +1,134 @@
+import { assert, assertEquals } from "@std/assert";
+import { getRetryDelay, RequestLimiter } from "./rate-limit.ts";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+/**
+ * A limiter on a fake clock whose pauses are recorded and end when `resume` is called
+ */
+function fakeLimiter(maxConcurrent: number, reserve: number) {
+  const pauses: number[] = [];
+  let resume = () => {};
+  const limiter = new RequestLimiter(maxConcurrent, reserve, () => NOW, ms => {
+    pauses.push(ms);
+    return new Promise(resolve => resume = resolve);
+  });
+  return { limiter, pauses, resume: () => resume() };
+}
+
+const rateLimitHeaders = (remaining: number, resetInSeconds: number, resource?: string) =>
+  new Headers({
+    "x-ratelimit-remaining": String(remaining),
+    "x-ratelimit-reset": String(NOW / 1000 + resetInSeconds),
+    ...(resource ? { "x-ratelimit-resource": resource } : {}),
+  });
+
+/**
+ * Lets pending promise callbacks run
+ */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+Deno.test("no more than maxConcurrent requests run at once, and waiting ones start in order", async () => {
+  const { limiter } = fakeLimiter(2, 0);
+  const started: number[] = [];
+  const finish: Array<() => void> = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const requests = [0, 1, 2, 3, 4].map(i =>
+    limiter.run("core", async () => {
+      started.push(i);
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise<void>(resolve => finish[i] = resolve);
+      active--;
+      return i;
+    })
+  );
+
+  await settle();
+  assertEquals(started, [0, 1]);
+  finish[1]();
+  await settle();
+  assertEquals(started, [0, 1, 2]);
+  finish[0]();
+  finish[2]();
+  await settle();
+  assertEquals(started, [0, 1, 2, 3, 4]);
+  finish[3]();
+  finish[4]();
+
+  assertEquals(await Promise.all(requests), [0, 1, 2, 3, 4]);
+  assertEquals(maxActive, 2);
+});
+
+Deno.test("requests pause until the reset once the budget is down to the reserve, together", async () => {
+  const { limiter, pauses, resume } = fakeLimiter(4, 10);
+  const sent: string[] = [];
+  const request = (name: string) => limiter.run("core", () => Promise.resolve(void sent.push(name)));
+
+  // One above the reserve: one more request goes out, counted against the budget
+  limiter.update("core", rateLimitHeaders(11, 30));
+  await request("first");
+  assertEquals(pauses, []);
+
+  const paused = [request("second"), request("third")];
+  await settle();
+  assertEquals(sent, ["first"]);
+  // Until the reset, plus a second for clock drift; both wait for the same pause
+  assertEquals(pauses, [31000]);
+
+  resume();
+  await Promise.all(paused);
+  assertEquals(sent, ["first", "second", "third"]);
+
+  // The budget is known again once a response reports it
+  await request("fourth");
+  assertEquals(pauses, [31000]);
+});
+
+Deno.test("budgets are kept per resource, and a reset in the past doesn't pause", async () => {
+  const { limiter, pauses, resume } = fakeLimiter(4, 10);
+
+  // The header names the resource, whatever the request was counted as
+  limiter.update("core", rateLimitHeaders(5, 60, "graphql"));
+  await limiter.run("core", () => Promise.resolve());
+  assertEquals(pauses, []);
+
+  const graphql = limiter.run("graphql", () => Promise.resolve("done"));
+  await settle();
+  assertEquals(pauses, [61000]);
+  resume();
+  assertEquals(await graphql, "done");
+
+  limiter.update("core", rateLimitHeaders(0, -5));
+  await limiter.run("core", () => Promise.resolve());
+  // Responses without rate limit headers leave the budget alone
+  limiter.update("core", new Headers());
+  assertEquals(pauses, [61000]);
+});
+
+Deno.test("403 and 429 responses are retried after retry-after, the reset, or a minute", () => {
+  const delay = (status: number, headers: Record<string, string>, message = "", idempotent = true) =>
+    getRetryDelay({ status, headers: new Headers(headers) }, message, 0, idempotent, NOW);
+
+  assertEquals(delay(429, { "retry-after": "12" }), 12000);
+  assertEquals(delay(403, { "retry-after": "5" }, "You have exceeded a secondary rate limit"), 5000);
+  // Writes are retried too: a rate limited request was never applied
+  assertEquals(delay(403, { "retry-after": "5" }, "", false), 5000);
+  assertEquals(delay(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(NOW / 1000 + 90) }), 91000);
+  assertEquals(delay(429, {}), 60000);
+  assertEquals(delay(403, {}, "You have exceeded a secondary rate limit"), 60000);
+  // A 403 that isn't about rate limits is a permission problem
+  assertEquals(delay(403, { "x-ratelimit-remaining": "4000" }, "Resource not accessible by integration"), undefined);
+});
+
+Deno.test("server errors are only retried for idempotent requests", () => {
+  const delay = (headers: Record<string, string>, idempotent: boolean, attempt = 0) =>
+    getRetryDelay({ status: 502, headers: new Headers(headers) }, "Bad Gateway", attempt, idempotent, NOW);
+
+  assertEquals(delay({ "retry-after": "3" }, true), 3000);
+  const backoff = delay({}, true, 2);
+  assert(backoff !== undefined && backoff >= 2000 && backoff <= 4000, `backoff of ${backoff}ms`);
+  assertEquals(delay({}, false), undefined);
+  assertEquals(getRetryDelay({ status: 404, headers: new Headers() }, "Not Found", 0, true, NOW), undefined);
+});
@@ -0,0 +1,144 @@
+/**
+ * Remaining requests of a rate limit resource (`core`, `graphql`, ...) and when it resets
+ */
+interface Budget {
+  remaining: number;
+  /** Reset time in epoch milliseconds */
+  reset: number;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+export const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of `base * 2^attempt`
+ */
+export function backoff(attempt: number, base = 1000): number {
+  const delay = base * 2 ** attempt;
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Secondary rate limits ask clients to wait at least a minute when no `retry-after` is given
+ */
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+
+/**
+ * Returns how long to wait before retrying a failed response, or undefined if it shouldn't be
+ * retried. Server errors are only retried for idempotent requests, since a failed write may still
+ * have been applied.
+ */
+export function getRetryDelay(
+  response: { status: number; headers: Headers },
+  message: string,
+  attempt: number,
+  idempotent: boolean,
+  now = Date.now(),
+): number | undefined {
+  const { status, headers } = response;
+  const retryAfter = headers.get('retry-after');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = Number(headers.get('x-ratelimit-reset'));
+
+  if (status === 403 || status === 429) {
+    if (retryAfter && !isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+    // Primary limit exhausted: wait until it resets
+    if (remaining === '0' && reset) return Math.max(reset * 1000 - now, 0) + 1000;
+    if (status === 429 || /rate limit/i.test(message)) {
+      return Math.max(SECONDARY_LIMIT_WAIT_MS, backoff(attempt));
+    }
+    return undefined;
+  }
+
+  if (status >= 500 && idempotent) {
+    return retryAfter && !isNaN(Number(retryAfter)) ? Number(retryAfter) * 1000 : backoff(attempt);
+  }
+  return undefined;
+}
+
+/**
+ * Caps the number of requests in flight and pauses before a rate limit budget runs out.
+ * One limiter is shared by all clients using the same credentials.
+ */
+export class RequestLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private budgets = new Map<string, Budget>();
+  /** Pauses in progress by resource, so concurrent requests wait for the same reset */
+  private pauses = new Map<string, Promise<void>>();
+
+  /**
+   * @param maxConcurrent maximum number of requests in flight
+   * @param reserve requests left unused before pausing until the budget resets
+   * @param now current time in ms, compared with the reset times
+   * @param wait waits out a pause
+   */
+  constructor(
+    readonly maxConcurrent = 4,
+    readonly reserve = 50,
+    private now = () => Date.now(),
+    private wait = sleep,
+  ) {}
+
+  /**
+   * Runs a request once a slot is free and the budget of its resource allows it
+   */
+  async run<T>(resource: string, fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.waitForBudget(resource);
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Records the budget reported by the `x-ratelimit-*` headers of a response
+   */
+  update(resource: string, headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining');
+    const reset = headers.get('x-ratelimit-reset');
+    if (remaining === null || reset === null) return;
+    this.budgets.set(headers.get('x-ratelimit-resource') ?? resource, {
+      remaining: Number(remaining),
+      reset: Number(reset) * 1000,
+    });
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by release()
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+
+  private async waitForBudget(resource: string): Promise<void> {
+    const pause = this.pauses.get(resource);
+    if (pause) return await pause;
+
+    const budget = this.budgets.get(resource);
+    if (!budget) return;
+
+    if (budget.remaining <= this.reserve && budget.reset > this.now()) {
+      const wait = budget.reset - this.now() + 1000;
+      console.log(`⏳ GitHub ${resource} rate limit nearly used up (${budget.remaining} left), pausing ${Math.ceil(wait / 1000)}s until it resets`);
+      this.budgets.delete(resource);
+      const paused = this.wait(wait).then(() => void this.pauses.delete(resource));
+      this.pauses.set(resource, paused);
+      return await paused;
+    }
+    // Count requests in flight until the next response reports the real budget
+    budget.remaining--;
+  }
+}
@@ -0,0 +1,59 @@
+import { assertEquals } from "@std/assert";
+import { GitHubClient } from "./github-api.ts";
+import { isScannedRepository, resolveRepositories } from "./repositories.ts";
+import { Repository } from "./types.ts";
+
+const repo = (fullName: string, topics: string[] = [], archived = false): Repository =>
+  ({ fullName, name: fullName.split("/")[1], topics, archived });
+
+const ORG_REPOSITORIES = [
+  repo("acme/checkout", ["qa-instances", "payments"]),
+  repo("acme/search", ["search"]),
+  repo("acme/legacy-cart", ["qa-instances"], true),
+  repo("acme/qa-tools", ["qa-instances"]),
+  // Listed under the org after a transfer, but owned elsewhere by now
+  repo("other/profile", ["qa-instances"]),
+];
+
+/**
+ * Client listing the repositories of one organization from memory
+ */
+class FakeOrg extends GitHubClient {
+  listed: string[] = [];
+
+  constructor() {
+    super("test-token", "acme", "qa");
+  }
+
+  override async *iterateOrgRepositories(org: string): AsyncGenerator<Repository> {
+    this.listed.push(org);
+    yield* ORG_REPOSITORIES;
+  }
+}
+
+Deno.test("resolveRepositories adds the org's unarchived repositories with the topic to the explicit ones", async () => {
+  const client = new FakeOrg();
+
+  assertEquals(await resolveRepositories(client, ["acme/qa", "acme/checkout"], { org: "acme", topic: "qa-instances" }), [
+    "acme/qa",
+    "acme/checkout",
+    "acme/qa-tools",
+  ]);
+  assertEquals(await resolveRepositories(client, [], { org: "ACME" }), ["acme/checkout", "acme/search", "acme/qa-tools"]);
+  assertEquals(await resolveRepositories(client, [], { org: "acme", namePattern: "^qa-" }), ["acme/qa-tools"]);
+  assertEquals(client.listed, ["acme", "ACME", "acme"]);
+
+  // Without a scan the org isn't listed at all
+  assertEquals(await resolveRepositories(client, ["acme/qa"]), ["acme/qa"]);
+  assertEquals(client.listed.length, 3);
+});
+
+Deno.test("isScannedRepository covers the explicit repositories and those passing the org scan's filters", () => {
+  const scan = { org: "acme", topic: "qa-instances" };
+  const scanned = ORG_REPOSITORIES.filter(r => isScannedRepository(r, ["acme/Search"], scan)).map(r => r.fullName);
+
+  assertEquals(scanned, ["acme/checkout", "acme/search", "acme/qa-tools"]);
+  // An explicit repository counts even when archived
+  assertEquals(isScannedRepository(repo("acme/legacy-cart", [], true), ["acme/legacy-cart"], scan), true);
+  assertEquals(isScannedRepository(repo("acme/checkout", ["qa-instances"]), []), false);
+});
@@ -0,0 +1,161 @@
+import { parse as parseYaml } from "@std/yaml";
+import { GitHubClient } from "./github-api.ts";
+import { parsePolicies } from "./policies.ts";
+import { OrgScan, Repository, RepositoryOverride, RetentionPolicy } from "./types.ts";
+
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+/**
+ * Parses a comma-separated list of repositories. Entries without an owner use `defaultOwner`.
+ */
+export function parseRepositoryList(value: string, defaultOwner?: string): string[] {
+  const repositories = value.split(",").map(r => r.trim()).filter(Boolean).map(entry => {
+    if (!entry.includes("/")) {
+      if (!defaultOwner) {
+        throw new Error(`GITHUB_REPOS entry "${entry}" has no owner, use owner/name or set GITHUB_OWNER`);
+      }
+      entry = `${defaultOwner}/${entry}`;
+    }
+    if (!REPOSITORY_PATTERN.test(entry)) {
+      throw new Error(`GITHUB_REPOS entry "${entry}" is not a valid repository, expected owner/name`);
+    }
+    return entry;
+  });
+  return [...new Set(repositories)];
+}
+
+/**
+ * Validates a single repository override
+ */
+function parseOverride(raw: unknown, path: string): RepositoryOverride {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const override = raw as Record<string, unknown>;
+
+  const unknownKeys = Object.keys(override)
+    .filter(k => !["retentionHours", "inactivityThresholdHours", "policies", "maxInstances"].includes(k));
+  if (unknownKeys.length > 0) {
+    throw new Error(`${path} has unknown keys: ${unknownKeys.join(", ")}`);
+  }
+
+  for (const key of ["retentionHours", "inactivityThresholdHours"]) {
+    const value = override[key];
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new Error(`${path}.${key} must be a positive number, got: ${JSON.stringify(value)}`);
+    }
+  }
+  if (override.maxInstances !== undefined && (!Number.isInteger(override.maxInstances) || (override.maxInstances as number) < 1)) {
+    throw new Error(`${path}.maxInstances must be a positive integer, got: ${JSON.stringify(override.maxInstances)}`);
+  }
+
+  return {
+    ...(override.retentionHours !== undefined ? { retentionHours: override.retentionHours as number } : {}),
+    ...(override.inactivityThresholdHours !== undefined
+      ? { inactivityThresholdHours: override.inactivityThresholdHours as number }
+      : {}),
+    ...(override.policies !== undefined ? { policies: parsePolicies(override, path) } : {}),
+    ...(override.maxInstances !== undefined ? { maxInstances: override.maxInstances as number } : {}),
+  };
+}
+
+/**
+ * Validates a parsed overrides document of the form `{ repositories: { "owner/name": {...} } }`.
+ * Keys may also be a bare repository name, matching that name under any owner.
+ */
+export function parseRepositoryOverrides(raw: unknown, source = "repositories"): Record<string, RepositoryOverride> {
+  const repositories = (raw as { repositories?: unknown } | null)?.repositories;
+  if (typeof repositories !== "object" || repositories === null || Array.isArray(repositories)) {
+    throw new Error(`${source} must contain a "repositories" object`);
+  }
+  return Object.fromEntries(
+    Object.entries(repositories).map(([name, override]) => [
+      name,
+      parseOverride(override, `${source}: repositories.${name}`),
+    ]),
+  );
+}
+
+/**
+ * Reads and validates a JSON or YAML repository overrides file
+ */
+export function loadRepositoryOverridesFile(path: string): Record<string, RepositoryOverride> {
+  let raw: unknown;
+  try {
+    const text = Deno.readTextFileSync(path);
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to read repository overrides file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseRepositoryOverrides(raw, path);
+}
+
+/**
+ * Returns the override for a repository, preferring an `owner/name` key over a bare name
+ */
+export function findRepositoryOverride(
+  overrides: Record<string, RepositoryOverride>,
+  repository: string,
+): RepositoryOverride | undefined {
+  return overrides[repository] ?? overrides[repository.split("/")[1]];
+}
+
+/**
+ * Applies a repository override to the global policies
+ */
+export function applyRepositoryOverride(
+  override: RepositoryOverride | undefined,
+  policies: RetentionPolicy[],
+  fallback: RetentionPolicy,
+): { policies: RetentionPolicy[]; fallback: RetentionPolicy } {
+  if (!override) return { policies, fallback };
+  return {
+    policies: override.policies ?? policies,
+    fallback: {
+      ...fallback,
+      retentionHours: override.retentionHours ?? fallback.retentionHours,
+      inactivityThresholdHours: override.inactivityThresholdHours ?? fallback.inactivityThresholdHours,
+    },
+  };
+}
+
+/**
+ * Lists the repositories of an organization matching the scan's topic and name pattern.
+ * Archived repositories are skipped.
+ */
+export async function discoverRepositories(client: GitHubClient, scan: OrgScan): Promise<string[]> {
+  const repositories: string[] = [];
+  for await (const repo of client.iterateOrgRepositories(scan.org)) {
+    if (matchesOrgScan(repo, scan)) repositories.push(repo.fullName);
+  }
+  return repositories;
+}
+
+/**
+ * Checks if a repository belongs to the scanned organization and passes its filters
+ */
+export function matchesOrgScan(repo: Repository, scan: OrgScan): boolean {
+  if (repo.archived || repo.fullName.split("/")[0].toLowerCase() !== scan.org.toLowerCase()) return false;
+  if (scan.topic && !repo.topics.includes(scan.topic)) return false;
+  return !scan.namePattern || new RegExp(scan.namePattern).test(repo.name);
+}
+
+/**
+ * Checks if a repository is covered by the configured repositories or organization scan
+ */
+export function isScannedRepository(repo: Repository, explicit: string[], scan?: OrgScan): boolean {
+  return explicit.some(r => r.toLowerCase() === repo.fullName.toLowerCase()) ||
+    (scan !== undefined && matchesOrgScan(repo, scan));
+}
+
+/**
+ * Returns every repository to scan: the explicit list plus the repositories found in the org
+ */
+export async function resolveRepositories(
+  client: GitHubClient,
+  explicit: string[],
+  scan?: OrgScan,
+): Promise<string[]> {
+  const discovered = scan ? await discoverRepositories(client, scan) : [];
+  return [...new Set([...explicit, ...discovered])];
+}
@@ -0,0 +1,99 @@
+import { assertEquals } from "@std/assert";
+import { ConfigInput, resolveConfig } from "./config.ts";
+import { createContext, RetentionContext } from "./context.ts";
+import { FakeGitHubServer } from "./fake-github.ts";
+import { GitHubClient } from "./github-api.ts";
+import { RequestLimiter } from "./rate-limit.ts";
+import { getOverCapacityInstances } from "./retention.ts";
+import { formatMarker } from "./state-machine.ts";
+
+const BOT = "github-actions[bot]";
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const hoursAgo = (hours: number): string => new Date(NOW.getTime() - hours * 3600000).toISOString();
+
+/**
+ * Runs a test with a context of acme/qa, whose issues are served by a fake GitHub API
+ */
+function withRepository(
+  config: Partial<ConfigInput>,
+  test: (github: FakeGitHubServer, ctx: RetentionContext) => Promise<void>,
+): () => Promise<void> {
+  return async () => {
+    const github = new FakeGitHubServer();
+    try {
+      const ctx = await createContext({
+        config: resolveConfig({ GITHUB_TOKEN: "test-token", REPOSITORIES: ["acme/qa"], RETENTION_HOURS: 48, INACTIVITY_THRESHOLD_HOURS: 24, ...config }),
+        client: new GitHubClient("test-token", "acme", "qa", false, new RequestLimiter(4, 0), undefined, github.listen()),
+        clock: { now: () => NOW },
+      });
+      await test(github, ctx);
+    } finally {
+      await github.close();
+    }
+  };
+}
+
+const addInstance = (github: FakeGitHubServer, name: string, idleHours: number, labels: string[] = []): number =>
+  github.addIssue("acme/qa", { title: `QA-Instance ready: ${name}`, created_at: hoursAgo(idleHours), labels });
+
+const numbers = (check: { reclaim: Array<{ number: number }> } | undefined) => check?.reclaim.map(i => i.number);
+
+Deno.test(
+  "exempt and released instances neither count toward the limit nor get reclaimed",
+  withRepository({ MAX_INSTANCES: 2 }, async (github, ctx) => {
+    const idlest = addInstance(github, "checkout", 30);
+    addInstance(github, "search", 20);
+    addInstance(github, "cart", 10);
+    addInstance(github, "demo", 100, ["do-not-expire"]);
+    const released = addInstance(github, "profile", 90);
+    github.addComment("acme/qa", released, { body: "/release", user: "alice", created_at: hoursAgo(80) });
+
+    const check = await getOverCapacityInstances(ctx, []);
+
+    assertEquals({ ...check, reclaim: numbers(check) }, { limit: 2, inUse: 3, reclaiming: 0, reclaim: [idlest] });
+  }),
+);
+
+Deno.test(
+  "warned and expiring instances count as being reclaimed, and extended ones are never picked",
+  withRepository({ MAX_INSTANCES: 2 }, async (github, ctx) => {
+    const warned = addInstance(github, "checkout", 60, ["retention-warning"]);
+    github.addComment("acme/qa", warned, {
+      body: `⚠️ This instance will be closed soon.\n${formatMarker("warned", new Date(hoursAgo(2)), { policy: "default" })}`,
+      user: BOT,
+      created_at: hoursAgo(2),
+    });
+    const expiring = addInstance(github, "search", 50);
+    // The idlest of all, but extended for another 28 hours
+    const extended = addInstance(github, "cart", 46);
+    github.addComment("acme/qa", extended, { body: "/extend 3d", user: "alice", created_at: hoursAgo(44) });
+    const first = addInstance(github, "profile", 40);
+    const second = addInstance(github, "orders", 30);
+    addInstance(github, "payments", 20);
+
+    const check = await getOverCapacityInstances(ctx, [await ctx.client.getIssue(expiring)]);
+
+    // Six in use against a limit of two: the warned and the expiring one bring that to four, so
+    // two more are picked
+    assertEquals({ ...check, reclaim: numbers(check) }, { limit: 2, inUse: 6, reclaiming: 2, reclaim: [first, second] });
+  }),
+);
+
+Deno.test(
+  "between instances idle for as long, the oldest are picked first",
+  withRepository({ MAX_INSTANCES: 1 }, async (github, ctx) => {
+    // Listed newest first, so the order picked doesn't follow the listing
+    const [oldest, middle] = [addInstance(github, "checkout", 30), addInstance(github, "search", 30), addInstance(github, "cart", 30)];
+
+    assertEquals(numbers(await getOverCapacityInstances(ctx, [])), [oldest, middle]);
+  }),
+);
+
+Deno.test(
+  "there is no capacity check without an instance limit",
+  withRepository({}, async (github, ctx) => {
+    addInstance(github, "checkout", 30);
+    assertEquals(await getOverCapacityInstances(ctx, []), undefined);
+  }),
+);
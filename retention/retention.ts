@@ -1,20 +1,109 @@
-import { github as defaultGithub, config } from "./config.ts";
-import { Issue, OperationResult, Activity, IssueState } from "./types.ts";
-import { getQAReadyInstances, getOpenIssuesWithComments } from "./issues-api.ts";
+import { RetentionContext } from "./context.ts";
+import { Config } from "./config.ts";
+import {
+  Issue,
+  IssueComment,
+  OperationResult,
+  Activity,
+  ActivityType,
+  CapacityCheck,
+  DashboardRow,
+  DecisionRecord,
+  IssueState,
+  RetentionPolicy,
+  HookResult,
+  IssueEvaluation,
+  IssueExplanation,
+  MessageKind,
+  ParsedCommand,
+} from "./types.ts";
+import { getQAInstancesWithComments, getQAReadyInstances } from "./issues-api.ts";
+import { createPolicyResolver } from "./policies.ts";
+import { applyRepositoryOverride, findRepositoryOverride } from "./repositories.ts";
+import { describeHook, runTeardownHooks } from "./hooks.ts";
+import { addWorkingHours, formatDateTime, workingHoursBetween } from "./calendar.ts";
+import { mention, renderTemplate, selectTemplate } from "./messages.ts";
+import { assertTransition, deriveLifecycle, formatMarker, getRecordedState, isLegacyWarning } from "./state-machine.ts";
+import { DryRunGitHubClient } from "./dry-run.ts";
+import { generateAckMessage, getAcknowledgedIds, getCommandsSince, getCommandState, parseCommands } from "./chatops.ts";
 
-const { WARNING_LABEL, BOT_USERNAME, RETENTION_HOURS, INACTIVITY_THRESHOLD_HOURS } = config;
+/**
+ * Timeline events that count as activity, by the activity type they map to
+ */
+const TIMELINE_ACTIVITY: Record<string, ActivityType> = {
+  labeled: 'label',
+  unlabeled: 'label',
+  renamed: 'edit',
+  reopened: 'reopen',
+  assigned: 'assign',
+  unassigned: 'assign',
+};
+
+/**
+ * Comments edited later than this after being posted count as an edit
+ */
+const EDIT_GRACE_MS = 60 * 1000;
+
+/**
+ * Marker that, anywhere in the issue body, pins an instance so it never expires
+ */
+const EXPIRES_NEVER_MARKER = /(^|[^\w-])expires-never([^\w-]|$)/;
+
+/**
+ * Policy resolvers by configuration and repository, built on first use from the repository's
+ * overrides
+ */
+const policyResolvers = new WeakMap<Config, Map<string, (issue: Issue) => RetentionPolicy>>();
+
+/**
+ * Returns the repository an issue belongs to
+ */
+const getRepository = (ctx: RetentionContext, issue: Issue): string => issue.repository ?? ctx.client.repository;
+
+/**
+ * Returns the retention policy that applies to an issue, taking its repository's overrides
+ * into account
+ */
+export const getIssuePolicy = (ctx: RetentionContext, issue: Issue): RetentionPolicy => {
+  const { config } = ctx;
+  const repository = getRepository(ctx, issue);
+  if (!policyResolvers.has(config)) policyResolvers.set(config, new Map());
+  const resolvers = policyResolvers.get(config)!;
+  let resolve = resolvers.get(repository);
+  if (!resolve) {
+    const override = findRepositoryOverride(config.REPOSITORY_OVERRIDES, repository);
+    const { policies, fallback } = applyRepositoryOverride(override, config.POLICIES, config.DEFAULT_POLICY);
+    resolve = createPolicyResolver(policies, fallback);
+    resolvers.set(repository, resolve);
+  }
+  return resolve(issue);
+};
+
+/**
+ * Calculates the number of hours between now and a given date. With a working calendar
+ * configured only working hours are counted.
+ */
+const hoursSince = (ctx: RetentionContext, date: string): number => {
+  const now = ctx.clock.now();
+  const hours = ctx.config.WORKING_CALENDAR
+    ? workingHoursBetween(ctx.config.WORKING_CALENDAR, new Date(date), now)
+    : (now.getTime() - new Date(date).getTime()) / 3600000;
+  return Number(hours.toFixed(2));
+};
 
 /**
- * Calculates the number of hours between now and a given date
+ * Returns the wall-clock time at which a warning given at `from` leads to closing the issue
  */
-const hoursSince = (date: string): number =>
-  Number(((Date.now() - new Date(date).getTime()) / 3600000).toFixed(2));
+export const getCloseDeadline = (ctx: RetentionContext, policy: RetentionPolicy, from = ctx.clock.now()): Date =>
+  ctx.config.WORKING_CALENDAR
+    ? addWorkingHours(ctx.config.WORKING_CALENDAR, from, policy.inactivityThresholdHours)
+    : new Date(from.getTime() + policy.inactivityThresholdHours * 3600000);
 
 /**
  * debug logging helper with timing information
  */
-const debug = (msg: string, data: unknown, startTime?: number): void => {
-  if (!config.DEBUG) return;
+const debug = (ctx: RetentionContext, msg: string, data: unknown, startTime?: number): void => {
+  if (!ctx.config.DEBUG) return;
 
   const logData = {
     ...typeof data === 'object' ? data : { value: data },
@@ -31,7 +120,7 @@ const debug = (msg: string, data: unknown, startTime?: number): void => {
     })
     .join(' ');
 
-  console.log(`[${msg}] ${formattedData}`);
+  ctx.logger.log(`[${msg}] ${formattedData}`);
 };
 
 /**
@@ -40,57 +129,99 @@ const debug = (msg: string, data: unknown, startTime?: number): void => {
 const isAfter = (date1: Date, date2: Date): boolean => date1.getTime() > date2.getTime();
 
 /**
- * Gets all activity on an issue, including comments and label changes
+ * Checks if a comment was written by the bot: any comment from BOT_USERNAME, plus old warning
+ * comments from the legacy bot accounts
  */
-const getIssueActivity = (issue: Issue): Activity[] => {
+const isBotComment = (ctx: RetentionContext, comment: IssueComment): boolean =>
+  comment.user.login === ctx.config.BOT_USERNAME ||
+  (ctx.config.LEGACY_BOT_USERNAMES.includes(comment.user.login) && isLegacyWarning(comment.body));
+
+/**
+ * Parses the ChatOps commands posted on an issue since it was last closed or reopened
+ */
+const getIssueCommands = (ctx: RetentionContext, issue: Issue): ParsedCommand[] =>
+  parseCommands(issue.comments ?? [], ctx.config.BOT_USERNAME, getCommandsSince(issue, ctx.config.BOT_USERNAME));
+
+/**
+ * Checks if an issue is exempt from expiry via an exemption label or the `expires-never` marker
+ */
+export const isExempt = (ctx: RetentionContext, issue: Issue): boolean =>
+  issue.labels.some(l => ctx.config.EXEMPT_LABELS.includes(l.name)) ||
+  EXPIRES_NEVER_MARKER.test(issue.body ?? '');
+
+/**
+ * Gets all activity on an issue, oldest first: creation, comments, comment edits, timeline events
+ * (labels, renames, reopens, assignments) and reactions
+ */
+const getAllActivity = (ctx: RetentionContext, issue: Issue): Activity[] => {
   const activities: Activity[] = [];
 
   // Add issue creation
   activities.push({
     type: 'create',
     date: new Date(issue.created_at),
-    isBot: issue.user.login === BOT_USERNAME,
+    actor: issue.user.login,
+    isBot: issue.user.login === ctx.config.BOT_USERNAME,
   });
 
-  // Add comments
+  // Add comments and later edits to them
   issue.comments?.forEach(comment => {
-    // Skip warning comments when considering activity
-    if (comment.body?.includes('QA instance inactive for')) {
-      return;
+    const isBot = isBotComment(ctx, comment);
+    const actor = comment.user.login;
+    activities.push({ type: 'comment', date: new Date(comment.created_at), actor, isBot });
+
+    const editedAt = comment.updated_at ? new Date(comment.updated_at) : undefined;
+    if (editedAt && editedAt.getTime() - new Date(comment.created_at).getTime() > EDIT_GRACE_MS) {
+      activities.push({ type: 'edit', date: editedAt, actor, isBot });
     }
+  });
+
+  // Add timeline events
+  issue.events?.forEach(event => {
+    const type = TIMELINE_ACTIVITY[event.event];
+    if (!type) return;
+    const actor = event.actor.login;
+    activities.push({ type, date: new Date(event.created_at), actor, isBot: actor === ctx.config.BOT_USERNAME });
+  });
+
+  // Add reactions
+  issue.reactions?.forEach(reaction => {
     activities.push({
-      type: 'comment',
-      date: new Date(comment.created_at),
-      isBot: comment.user.login === BOT_USERNAME,
+      type: 'reaction',
+      date: new Date(reaction.created_at),
+      actor: reaction.user.login,
+      isBot: reaction.user.login === ctx.config.BOT_USERNAME,
     });
   });
 
   return activities.sort((a, b) => a.date.getTime() - b.date.getTime());
 };
 
+/**
+ * Gets the activity on an issue of the enabled ACTIVITY_TYPES
+ */
+const getIssueActivity = (ctx: RetentionContext, issue: Issue): Activity[] =>
+  getAllActivity(ctx, issue).filter(a => ctx.config.ACTIVITY_TYPES.includes(a.type));
+
 /**
  * Gets the current state of an issue including last activity and warning status
  */
-const getIssueState = (issue: Issue): IssueState => {
-  const activities = getIssueActivity(issue);
-  const hasWarningLabel = issue.labels.some(l => l.name === WARNING_LABEL);
+export const getIssueState = (ctx: RetentionContext, issue: Issue): IssueState => {
+  const activities = getIssueActivity(ctx, issue);
+  const policy = getIssuePolicy(ctx, issue);
+  const exempt = isExempt(ctx, issue);
+  const hasWarningLabel = issue.labels.some(l => l.name === ctx.config.WARNING_LABEL);
 
-  // Find the last warning comment if any
-  const warningComment = issue.comments?.find(c =>
-    (c.user.login === BOT_USERNAME || c.user.login === 'dolores-dei') &&
-    c.body?.includes('QA instance inactive for')
-  );
+  // Latest state the bot recorded in a hidden marker (or an old text-only warning)
+  const recorded = getRecordedState(issue.comments ?? [], ctx.config.BOT_USERNAME, ctx.config.LEGACY_BOT_USERNAMES);
 
-  debug("Comments for issue", {
+  debug(ctx, "Comments for issue", {
     issueNumber: issue.number,
     totalComments: issue.comments?.length ?? 0,
-    botComments: issue.comments?.filter(c => c.user.login === BOT_USERNAME || c.user.login === 'dolores-dei').length ?? 0,
-    warningComments: issue.comments?.filter(c => c.body?.includes('QA instance inactive for')).length ?? 0,
-    comments: issue.comments?.map(c => ({
-      user: c.user.login,
-      body: c.body?.substring(0, 50) + '...',
-      created_at: c.created_at,
-    })),
+    botComments: issue.comments?.filter(comment => isBotComment(ctx, comment)).length ?? 0,
+    recordedState: recorded?.state,
+    recordedAt: recorded?.at,
+    markerVersion: recorded?.v,
   });
 
   // Find the last human activity
@@ -101,206 +232,684 @@ const getIssueState = (issue: Issue): IssueState => {
       ).date
     : new Date(issue.created_at);
 
-  const hoursSinceActivity = hoursSince(lastHumanActivity.toISOString());
-  const warningDate = warningComment ? new Date(warningComment.created_at) : undefined;
-  
-  // An issue has a warning if it has both the label and a warning comment
-  const hasWarning = hasWarningLabel && warningComment !== undefined;
-  
-  debug("Issue state calculated", {
+  // An /extend command pauses the inactivity clock until the extension ends, and so does an
+  // extension the bot recorded itself (`extend` on the command line)
+  const commandState = getCommandState(getIssueCommands(ctx, issue));
+  const recordedUntil = recorded?.state === 'extended' && recorded.until ? new Date(recorded.until) : undefined;
+  if (
+    recordedUntil && !commandState.released && !commandState.keepUntil &&
+    !(commandState.extendedUntil && !isAfter(recordedUntil, commandState.extendedUntil))
+  ) {
+    commandState.extendedUntil = recordedUntil;
+  }
+  const clockStart = commandState.extendedUntil && isAfter(commandState.extendedUntil, lastHumanActivity)
+    ? commandState.extendedUntil
+    : lastHumanActivity;
+
+  const hoursSinceActivity = hoursSince(ctx, clockStart.toISOString());
+  const warningDate = recorded?.state === 'warned' ? new Date(recorded.at) : undefined;
+
+  const lifecycle = deriveLifecycle({
+    exempt,
+    hasWarningLabel,
+    recorded,
+    lastHumanActivity,
+    extendedUntil: commandState.extendedUntil,
+    keepUntil: commandState.keepUntil,
+    now: ctx.clock.now(),
+  });
+  const hasWarning = lifecycle === 'warned';
+
+  debug(ctx, "Issue state calculated", {
     issueNumber: issue.number,
-    hasWarning,
+    lifecycle,
+    policy: policy.name,
+    exempt,
     hasWarningLabel,
-    hasWarningComment: warningComment !== undefined,
     hoursSinceActivity,
     lastHumanActivity: lastHumanActivity.toISOString(),
     warningDate: warningDate?.toISOString(),
     totalActivities: activities.length,
     humanActivities: humanActivities.length,
+    extendedUntil: commandState.extendedUntil?.toISOString(),
+    keepUntil: commandState.keepUntil?.toISOString(),
+    released: commandState.released,
   });
 
   return {
+    ...commandState,
+    lifecycle,
+    recorded,
     lastHumanActivity,
     warningDate,
     hasWarning,
     hoursSinceActivity,
+    policy,
+    exempt,
   };
 };
 
+/**
+ * Checks if an issue has passed its expiry: the `/keep-until` date if one is set and there has
+ * been no activity since, otherwise the retention threshold of its policy
+ */
+const isExpired = (
+  ctx: RetentionContext,
+  { keepUntil, lastHumanActivity, hoursSinceActivity, policy }: IssueState,
+): boolean =>
+  keepUntil && !isAfter(lastHumanActivity, keepUntil)
+    ? ctx.clock.now().getTime() >= keepUntil.getTime()
+    : hoursSinceActivity > policy.retentionHours;
+
+/**
+ * Returns when an unwarned issue expires if nothing happens on it, following the same rules as
+ * `isExpired`
+ */
+const getExpiry = (
+  ctx: RetentionContext,
+  { keepUntil, extendedUntil, lastHumanActivity, policy }: IssueState,
+): Date => {
+  if (keepUntil && !isAfter(lastHumanActivity, keepUntil)) return keepUntil;
+  const clockStart = extendedUntil && isAfter(extendedUntil, lastHumanActivity) ? extendedUntil : lastHumanActivity;
+  return ctx.config.WORKING_CALENDAR
+    ? addWorkingHours(ctx.config.WORKING_CALENDAR, clockStart, policy.retentionHours)
+    : new Date(clockStart.getTime() + policy.retentionHours * 3600000);
+};
+
+/**
+ * Checks if an issue carries a warning label it should no longer have: it left the warned state
+ * (new activity, an extension or an exemption). A label without any recorded state was not added
+ * by us and is left for the expiry check.
+ */
+function needsWarningRemoved(ctx: RetentionContext, issue: Issue): boolean {
+  if (!issue.labels.some(l => l.name === ctx.config.WARNING_LABEL)) return false;
+  const { lifecycle, recorded } = getIssueState(ctx, issue);
+  return lifecycle !== 'warned' && (lifecycle === 'exempt' || recorded !== undefined);
+}
+
+/**
+ * Removes the warning label from an issue that left the warned state
+ */
+async function removeWarning(ctx: RetentionContext, issue: Issue): Promise<void> {
+  const { lifecycle, lastHumanActivity, warningDate } = getIssueState(ctx, issue);
+  debug(ctx, "Removing warning", {
+    issueNumber: issue.number,
+    transition: `warned → ${lifecycle}`,
+    warningDate: warningDate?.toISOString(),
+    lastHumanActivity: lastHumanActivity.toISOString(),
+  });
+  await removeWarningLabel(ctx, issue.number);
+}
+
 /**
  * Gets all QA instances that have expired but haven't been warned yet
  */
-export async function getExpiredQAInstances(githubOverride = defaultGithub): Promise<Issue[]> {
+export async function getExpiredQAInstances(ctx: RetentionContext): Promise<Issue[]> {
   const startTime = Date.now();
   try {
     const [instances, instancesWithComments] = await Promise.all([
-      getQAReadyInstances(githubOverride),
-      getOpenIssuesWithComments(githubOverride),
+      getQAReadyInstances(ctx),
+      getQAInstancesWithComments(ctx),
     ]);
 
-    debug("Fetched QA instances", { 
+    debug(ctx, "Fetched QA instances", { 
       totalInstances: instances.length,
       totalWithComments: instancesWithComments.length 
     }, startTime);
 
-    // First, check all issues with warning labels for activity and track which ones had labels removed
+    // First, take back warnings on issues that left the warned state and track which ones had
+    // labels removed
     const removedWarningLabels = new Set<number>();
     await Promise.all(instancesWithComments
-      .filter(issue => issue.labels.some(l => l.name === WARNING_LABEL))
+      .filter(issue => needsWarningRemoved(ctx, issue))
       .map(async (issue) => {
-        const { lastHumanActivity, warningDate } = getIssueState(issue);
-        // Only remove warning if there's been activity after the warning
-        if (warningDate && lastHumanActivity > warningDate) {
-          debug("Removing warning due to activity after warning", {
-            issueNumber: issue.number,
-            warningDate: warningDate.toISOString(),
-            lastHumanActivity: lastHumanActivity.toISOString()
-          });
-          await removeWarningLabel(issue.number, githubOverride);
-          removedWarningLabels.add(issue.number);
-        }
+        await removeWarning(ctx, issue);
+        removedWarningLabels.add(issue.number);
       }));
 
     // Then process expired instances that need warnings, excluding ones that just had labels removed
-    const result = await Promise.all(instances.map((issue) => {
+    const expiredInstances = instances.flatMap((issue): Issue[] => {
       const fullIssue = instancesWithComments.find(i => i.number === issue.number);
-      if (!fullIssue) return null;
+      if (!fullIssue) return [];
 
       // Skip if we just removed the warning label from this issue
-      if (removedWarningLabels.has(issue.number)) return null;
+      if (removedWarningLabels.has(issue.number)) return [];
 
-      const { hoursSinceActivity, hasWarning } = getIssueState(fullIssue);
+      const state = getIssueState(ctx, fullIssue);
+      // Released issues are closed without a warning
+      if (state.released) return [];
 
-      // Return issue if it's expired and doesn't have a warning
-      return hoursSinceActivity > RETENTION_HOURS && !hasWarning ? issue : null;
-    }));
+      // Keep the issue if it's expired under its policy and may move to the warned state
+      return isExpired(ctx, state) && (state.lifecycle === 'active' || state.lifecycle === 'extended') ? [fullIssue] : [];
+    });
 
-    const expiredInstances = result.filter((issue): issue is Issue => issue !== null);
-    debug("Found expired instances", { count: expiredInstances.length }, startTime);
+    debug(ctx, "Found expired instances", { count: expiredInstances.length }, startTime);
     return expiredInstances;
   } catch (error) {
-    console.error("Failed to get expired QA instances:", error instanceof Error ? error.message : error);
+    ctx.logger.error("Failed to get expired QA instances:", error instanceof Error ? error.message : error);
     return [];
   }
 }
 
+/**
+ * Returns the most QA instances a repository may have open: its override, or MAX_INSTANCES
+ */
+export const getInstanceLimit = (ctx: RetentionContext, repository: string): number | undefined =>
+  findRepositoryOverride(ctx.config.REPOSITORY_OVERRIDES, repository)?.maxInstances ?? ctx.config.MAX_INSTANCES;
+
+/**
+ * Checks a repository's QA instances against its instance limit and picks the idlest active ones
+ * to warn early when there are too many. Exempt and released instances don't count, and
+ * instances already on their way out (warned, or in `expiring`) reduce how many are picked.
+ * Extended instances are never picked, so `/extend` and `/keep-until` are honored. Ties go to
+ * the oldest instance, so repeated runs pick the same ones. Returns undefined when the
+ * repository has no limit.
+ */
+export async function getOverCapacityInstances(
+  ctx: RetentionContext,
+  expiring: Issue[],
+): Promise<CapacityCheck | undefined> {
+  const limit = getInstanceLimit(ctx, ctx.client.repository);
+  if (limit === undefined) return undefined;
+
+  const instances = (await getQAInstancesWithComments(ctx))
+    .map(issue => ({ issue, state: getIssueState(ctx, issue) }))
+    .filter(({ state }) => state.lifecycle !== 'exempt' && !state.released);
+
+  const isExpiring = (issue: Issue) => expiring.some(e => e.number === issue.number);
+  const reclaiming = instances.filter(({ issue, state }) => state.lifecycle === 'warned' || isExpiring(issue)).length;
+  const excess = instances.length - limit - reclaiming;
+
+  const reclaim = excess <= 0 ? [] : instances
+    .filter(({ issue, state }) => state.lifecycle === 'active' && !isExpiring(issue))
+    .sort((a, b) =>
+      a.state.lastHumanActivity.getTime() - b.state.lastHumanActivity.getTime() || a.issue.number - b.issue.number
+    )
+    .slice(0, excess)
+    .map(({ issue }) => issue);
+
+  debug(ctx, "Checked capacity", { limit, inUse: instances.length, reclaiming, reclaim: reclaim.map(i => i.number) });
+  return { limit, inUse: instances.length, reclaiming, reclaim };
+}
+
+/**
+ * Gets all QA instances that are exempt from expiry
+ */
+export async function getExemptQAInstances(ctx: RetentionContext): Promise<Issue[]> {
+  try {
+    const instances = await getQAReadyInstances(ctx);
+    return instances.filter(issue => isExempt(ctx, issue));
+  } catch (error) {
+    ctx.logger.error("Failed to get exempt QA instances:", error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Gets all QA instances whose latest ChatOps command is `/release`
+ */
+export async function getReleasedQAInstances(ctx: RetentionContext): Promise<Issue[]> {
+  try {
+    const instances = await getQAInstancesWithComments(ctx);
+    return instances.filter(issue => getIssueState(ctx, issue).released);
+  } catch (error) {
+    ctx.logger.error("Failed to get released QA instances:", error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Replies to the ChatOps commands on an issue that haven't been acknowledged yet
+ */
+async function acknowledgeIssueCommands(ctx: RetentionContext, issue: Issue): Promise<OperationResult[]> {
+  const acknowledged = getAcknowledgedIds(issue.comments ?? [], ctx.config.BOT_USERNAME);
+  const pending = getIssueCommands(ctx, issue)
+    .filter(command => command.commentId !== undefined && !acknowledged.has(command.commentId));
+
+  return await Promise.all(pending.map(async (command): Promise<OperationResult> => {
+    try {
+      await ctx.client.createComment(issue.number, generateAckMessage(command));
+      debug(ctx, "Acknowledged command", { issueNumber: issue.number, command: command.raw, valid: !command.error });
+      return { issueNumber: issue.number, success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      return { issueNumber: issue.number, success: false, error: errorMessage, cause: error };
+    }
+  }));
+}
+
+/**
+ * Replies to every ChatOps command on a QA instance that hasn't been acknowledged yet
+ */
+export async function acknowledgeCommands(ctx: RetentionContext): Promise<OperationResult[]> {
+  const startTime = Date.now();
+  const instances = await getQAInstancesWithComments(ctx);
+  const results = (await Promise.all(instances.map(issue => acknowledgeIssueCommands(ctx, issue)))).flat();
+  debug(ctx, "Acknowledged commands", { count: results.length }, startTime);
+  return results;
+}
+
 /**
  * Gets all warned issues that have been inactive for too long
  */
-export async function getInactiveWarnedIssues(githubOverride = defaultGithub): Promise<Issue[]> {
+export async function getInactiveWarnedIssues(ctx: RetentionContext): Promise<Issue[]> {
   const startTime = Date.now();
   try {
-    const issues = await getOpenIssuesWithComments(githubOverride);
-    debug("Fetched issues with comments", { count: issues.length }, startTime);
+    const issues = await getQAInstancesWithComments(ctx);
+    debug(ctx, "Fetched issues with comments", { count: issues.length }, startTime);
 
     const inactiveIssues = issues.filter(issue => {
-      const { lastHumanActivity, warningDate, hasWarning } = getIssueState(issue);
+      const { lifecycle, warningDate, policy, released } = getIssueState(ctx, issue);
 
-      // Must have a warning label and warning comment
-      if (!hasWarning || !warningDate) return false;
+      // Released issues are closed separately
+      if (released) return false;
 
-      // Check if there was activity after the warning
-      const activityAfterWarning = isAfter(lastHumanActivity, warningDate);
-      if (activityAfterWarning) return false;
+      // Must still be warned: warning label and comment, no activity since
+      if (lifecycle !== 'warned' || !warningDate) return false;
 
       // Calculate hours since warning was issued
-      const hoursSinceWarning = hoursSince(warningDate.toISOString());
+      const hoursSinceWarning = hoursSince(ctx, warningDate.toISOString());
 
-      debug("Checking inactive status", {
+      debug(ctx, "Checking inactive status", {
         issueNumber: issue.number,
         hoursSinceWarning,
-        threshold: INACTIVITY_THRESHOLD_HOURS,
+        policy: policy.name,
+        threshold: policy.inactivityThresholdHours,
       });
 
       // Only close if enough time has passed since the warning
-      return hoursSinceWarning >= INACTIVITY_THRESHOLD_HOURS;
+      return hoursSinceWarning >= policy.inactivityThresholdHours;
     });
 
-    debug("Found inactive warned issues", { count: inactiveIssues.length }, startTime);
+    debug(ctx, "Found inactive warned issues", { count: inactiveIssues.length }, startTime);
     return inactiveIssues;
   } catch (error) {
-    console.error("Failed to get inactive warned issues:", error instanceof Error ? error.message : error);
+    ctx.logger.error("Failed to get inactive warned issues:", error instanceof Error ? error.message : error);
     return [];
   }
 }
 
+/**
+ * Lists every QA instance with its state and when it is expected to be warned and closed,
+ * soonest close first
+ */
+export async function getDashboardRows(ctx: RetentionContext): Promise<DashboardRow[]> {
+  const instances = await getQAInstancesWithComments(ctx);
+  const now = ctx.clock.now();
+
+  const rows = instances.map((issue): DashboardRow => {
+    const state = getIssueState(ctx, issue);
+    const { lifecycle, warningDate, policy, released } = state;
+
+    let warnAt: Date | undefined;
+    let closeAt: Date | undefined;
+    if (lifecycle === 'warned' && warningDate) {
+      warnAt = warningDate;
+      closeAt = getCloseDeadline(ctx, policy, warningDate);
+    } else if (lifecycle === 'active' || lifecycle === 'extended') {
+      warnAt = getExpiry(ctx, state);
+      // An overdue instance is warned on the next run, and the close countdown starts then
+      closeAt = getCloseDeadline(ctx, policy, isAfter(warnAt, now) ? warnAt : now);
+    }
+
+    return {
+      repository: getRepository(ctx, issue),
+      number: issue.number,
+      title: issue.title,
+      url: issue.html_url,
+      owner: issue.user.login,
+      assignees: issue.assignees?.map(a => a.login) ?? [],
+      createdAt: new Date(issue.created_at),
+      lastHumanActivity: state.lastHumanActivity,
+      state: released ? 'released' : lifecycle,
+      policy: policy.name,
+      ...(released ? {} : { warnAt, closeAt }),
+    };
+  });
+
+  return rows.sort((a, b) => (a.closeAt?.getTime() ?? Infinity) - (b.closeAt?.getTime() ?? Infinity));
+}
+
+/**
+ * Explains what the next run will do with a QA instance and which rule decides it. The capacity
+ * limit is left out, as it depends on the repository's other instances.
+ */
+export function explainIssue(ctx: RetentionContext, issue: Issue): IssueExplanation {
+  const state = getIssueState(ctx, issue);
+  const { lifecycle, policy, warningDate, keepUntil, extendedUntil, lastHumanActivity } = state;
+  const lastActivity = getIssueActivity(ctx, issue).filter(a => !a.isBot).at(-1);
+  const now = ctx.clock.now();
+  const time = (date: Date) => formatDateTime(date, ctx.config.WORKING_CALENDAR?.timezone);
+  const hours = (value: number) => `${Math.floor(value)} ${ctx.config.WORKING_CALENDAR ? 'working hours' : 'hours'}`;
+  const explain = (
+    action: IssueExplanation['action'],
+    reason: string,
+    dates: { warnAt?: Date; closeAt?: Date } = {},
+  ): IssueExplanation => ({ state, ...(lastActivity ? { lastActivity } : {}), action, reason, ...dates });
+
+  if (state.released) {
+    return explain('release', `released with /release by @${state.releasedBy}, so it is closed without a warning`);
+  }
+  if (lifecycle === 'exempt') {
+    const label = issue.labels.find(l => ctx.config.EXEMPT_LABELS.includes(l.name));
+    return explain('none', label
+      ? `exempt by the "${label.name}" label, so it never expires`
+      : 'exempt by the expires-never marker in the issue body, so it never expires');
+  }
+  if (needsWarningRemoved(ctx, issue)) {
+    return explain('unwarn', lifecycle === 'extended'
+      ? 'extended after the warning, so the warning is taken back'
+      : 'human activity since the warning, so the warning is taken back');
+  }
+
+  if (lifecycle === 'warned' && warningDate) {
+    const closeAt = getCloseDeadline(ctx, policy, warningDate);
+    const hoursSinceWarning = hoursSince(ctx, warningDate.toISOString());
+    return hoursSinceWarning >= policy.inactivityThresholdHours
+      ? explain(
+        'close',
+        `warned ${hours(hoursSinceWarning)} ago without activity since, which reaches the ` +
+          `${hours(policy.inactivityThresholdHours)} of policy "${policy.name}"`,
+        { warnAt: warningDate, closeAt },
+      )
+      : explain(
+        'none',
+        `warned ${hours(hoursSinceWarning)} ago; closed once ${hours(policy.inactivityThresholdHours)} ` +
+          `pass without activity (policy "${policy.name}")`,
+        { warnAt: warningDate, closeAt },
+      );
+  }
+
+  const warnAt = getExpiry(ctx, state);
+  const dates = { warnAt, closeAt: getCloseDeadline(ctx, policy, isAfter(warnAt, now) ? warnAt : now) };
+  const expired = isExpired(ctx, state);
+  const action = expired ? 'warn' : 'none';
+
+  if (keepUntil && !isAfter(lastHumanActivity, keepUntil)) {
+    return explain(action, expired
+      ? `kept with /keep-until until ${time(keepUntil)}, which has passed`
+      : `kept with /keep-until until ${time(keepUntil)}, warned then unless someone is active`, dates);
+  }
+  if (extendedUntil && isAfter(extendedUntil, now)) {
+    return explain(action, `extended until ${time(extendedUntil)}; the inactivity clock of ` +
+      `${hours(policy.retentionHours)} (policy "${policy.name}") starts then`, dates);
+  }
+  return explain(action, expired
+    ? `inactive for ${hours(state.hoursSinceActivity)}, more than the ${hours(policy.retentionHours)} ` +
+      `of policy "${policy.name}"`
+    : `inactive for ${hours(state.hoursSinceActivity)}; warned after ${hours(policy.retentionHours)} ` +
+      `(policy "${policy.name}")`, dates);
+}
+
+/**
+ * Builds the decision record of a QA instance: every activity and whether it counted, the
+ * thresholds applied and the verdict of `explainIssue`. Instances picked by the capacity check
+ * are recorded as warned for being over the instance limit.
+ */
+export function getDecisionRecord(ctx: RetentionContext, issue: Issue, capacity?: CapacityCheck): DecisionRecord {
+  const { state, action, reason, warnAt, closeAt } = explainIssue(ctx, issue);
+  const { policy } = state;
+  const overCapacity = action === 'none' && capacity?.reclaim.some(i => i.number === issue.number);
+  const now = ctx.clock.now();
+
+  return {
+    repository: getRepository(ctx, issue),
+    issue: issue.number,
+    title: issue.title,
+    evaluatedAt: now.toISOString(),
+    lifecycle: state.lifecycle,
+    exempt: state.exempt,
+    policy: policy.name,
+    thresholds: {
+      retentionHours: policy.retentionHours,
+      inactivityThresholdHours: policy.inactivityThresholdHours,
+      workingHours: ctx.config.WORKING_CALENDAR !== undefined,
+    },
+    activities: getAllActivity(ctx, issue).map(activity => ({
+      type: activity.type,
+      at: activity.date.toISOString(),
+      actor: activity.actor,
+      ...(activity.isBot
+        ? { ignored: 'by the bot' }
+        : !ctx.config.ACTIVITY_TYPES.includes(activity.type)
+        ? { ignored: `${activity.type} is not in ACTIVITY_TYPES` }
+        : {}),
+    })),
+    lastHumanActivity: state.lastHumanActivity.toISOString(),
+    hoursSinceActivity: state.hoursSinceActivity,
+    warningDate: state.warningDate?.toISOString(),
+    extendedUntil: state.extendedUntil?.toISOString(),
+    keepUntil: state.keepUntil?.toISOString(),
+    releasedBy: state.releasedBy,
+    ...(overCapacity
+      ? {
+        verdict: 'warn',
+        reason: `over the instance limit of ${capacity!.limit} with ${capacity!.inUse} in use, and among the idlest`,
+        warnAt: now.toISOString(),
+        closeAt: getCloseDeadline(ctx, policy, now).toISOString(),
+      }
+      : { verdict: action, reason, warnAt: warnAt?.toISOString(), closeAt: closeAt?.toISOString() }),
+  };
+}
+
+/**
+ * Builds the decision records of every QA instance in the repository
+ */
+export async function getDecisionRecords(
+  ctx: RetentionContext,
+  capacity?: CapacityCheck,
+): Promise<DecisionRecord[]> {
+  const instances = await getQAInstancesWithComments(ctx);
+  return instances.map(issue => getDecisionRecord(ctx, issue, capacity));
+}
+
+/**
+ * Units shown in messages, by locale: [wall-clock, working calendar]
+ */
+const UNITS: Record<string, [string, string]> = {
+  en: ["hours", "working hours"],
+  de: ["Stunden", "Arbeitsstunden"],
+};
+
+/**
+ * Generates a message for an instance from the template selected by its policy and locale
+ */
+export function generateMessage(ctx: RetentionContext, kind: MessageKind, issue: Issue): string {
+  const { policy, hoursSinceActivity } = getIssueState(ctx, issue);
+  const locale = policy.locale ?? ctx.config.MESSAGE_LOCALE;
+  const template = selectTemplate(kind, ctx.config.MESSAGE_TEMPLATES, locale, policy.messages);
+
+  const assignees = issue.assignees?.map(a => a.login) ?? [];
+  const deadline = kind === "warning" || kind === "capacity" ? getCloseDeadline(ctx, policy) : ctx.clock.now();
+
+  return renderTemplate(template, {
+    author: `@${issue.user.login}`,
+    assignees: mention(assignees),
+    mentions: mention([...new Set([issue.user.login, ...assignees])]),
+    hoursInactive: String(Math.floor(hoursSinceActivity)),
+    retentionHours: String(policy.retentionHours),
+    inactivityHours: String(policy.inactivityThresholdHours),
+    unit: (UNITS[locale] ?? UNITS.en)[ctx.config.WORKING_CALENDAR ? 1 : 0],
+    deadline: formatDateTime(deadline, ctx.config.WORKING_CALENDAR?.timezone, locale),
+    policy: policy.name,
+    instanceLimit: String(getInstanceLimit(ctx, getRepository(ctx, issue)) ?? ""),
+  });
+}
+
+/**
+ * Resolves a comment that is either fixed text or built per issue
+ */
+const resolveText = (text: string | ((issue: Issue) => string), issue: Issue): string =>
+  typeof text === 'function' ? text(issue) : text;
+
 /**
  * Adds warning comments and labels to the specified issues
  */
 export async function addWarningToIssues(
+  ctx: RetentionContext,
   issues: Issue[],
-  commentText: string,
-  githubOverride = defaultGithub,
+  commentText: string | ((issue: Issue) => string),
 ): Promise<OperationResult[]> {
   const startTime = Date.now();
-  debug("Starting warning process", { issueCount: issues.length });
+  debug(ctx, "Starting warning process", { issueCount: issues.length });
 
   const addWarning = async (issue: Issue): Promise<OperationResult> => {
     const warningStartTime = Date.now();
     try {
-      await githubOverride.createComment(issue.number, commentText);
-      await githubOverride.addLabels(issue.number, [WARNING_LABEL]);
+      const { lifecycle, policy } = getIssueState(ctx, issue);
+      assertTransition(lifecycle, 'warned');
+
+      const marker = formatMarker('warned', ctx.clock.now(), { policy: policy.name });
+      await ctx.client.createComment(issue.number, `${resolveText(commentText, issue)}\n${marker}`);
+      await ctx.client.addLabels(issue.number, [ctx.config.WARNING_LABEL]);
 
-      debug("Added warning", { issueNumber: issue.number }, warningStartTime);
+      debug(ctx, "Added warning", { issueNumber: issue.number }, warningStartTime);
       return { issueNumber: issue.number, success: true };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      debug("Warning failed", { issueNumber: issue.number, error: errorMessage }, warningStartTime);
+      debug(ctx, "Warning failed", { issueNumber: issue.number, error: errorMessage }, warningStartTime);
       return {
         issueNumber: issue.number,
         success: false,
         error: errorMessage,
+        cause: error,
       };
     }
   };
 
   const results = await Promise.all(issues.map(addWarning));
-  debug("Completed warning process", { results }, startTime);
+  debug(ctx, "Completed warning process", { results }, startTime);
   return results;
 }
 
 /**
- * Closes the specified issues
+ * Runs the configured teardown hooks for a closed issue. On failure the issue is labeled and
+ * commented so the environment can be cleaned up by hand.
+ */
+async function teardownEnvironment(ctx: RetentionContext, issue: Issue): Promise<HookResult | undefined> {
+  const { TEARDOWN_HOOKS, TEARDOWN_FAILED_LABEL, TEARDOWN_TIMEOUT_SECONDS } = ctx.config;
+  if (TEARDOWN_HOOKS.length === 0) return undefined;
+
+  if (ctx.client instanceof DryRunGitHubClient) {
+    ctx.client.planTeardown(issue.number, TEARDOWN_HOOKS.map(describeHook));
+    return undefined;
+  }
+
+  const startTime = Date.now();
+  const result = await runTeardownHooks(
+    TEARDOWN_HOOKS,
+    issue,
+    getRepository(ctx, issue),
+    ctx.clock.now(),
+    TEARDOWN_TIMEOUT_SECONDS * 1000,
+  );
+  debug(ctx, "Ran teardown hooks", { issueNumber: issue.number, ...result }, startTime);
+  if (result.success) return result;
+
+  try {
+    await ctx.client.addLabels(issue.number, [TEARDOWN_FAILED_LABEL]);
+    await ctx.client.createComment(
+      issue.number,
+      `🚨 Teardown failed: the environment for this instance may still be running.\n\n` +
+        `\`${result.error}\`\n\nPlease remove it manually and then drop the \`${TEARDOWN_FAILED_LABEL}\` label.`,
+    );
+  } catch (error) {
+    ctx.logger.error(`Failed to report teardown failure on issue #${issue.number}:`, error instanceof Error ? error.message : error);
+  }
+  return result;
+}
+
+/**
+ * Closes the specified issues and tears down their environments
  */
 export async function closeIssues(
+  ctx: RetentionContext,
   issues: Issue[],
-  commentText: string,
-  githubOverride = defaultGithub,
+  commentText: string | ((issue: Issue) => string),
 ): Promise<OperationResult[]> {
   const startTime = Date.now();
-  debug("Starting close process", { issueCount: issues.length });
+  debug(ctx, "Starting close process", { issueCount: issues.length });
 
   const closeIssue = async (issue: Issue): Promise<OperationResult> => {
     const closeStartTime = Date.now();
     try {
-      await githubOverride.createComment(issue.number, commentText);
-      await githubOverride.updateIssue(issue.number, { state: 'closed' });
+      const { lifecycle, policy } = getIssueState(ctx, issue);
+      assertTransition(lifecycle, 'closed');
 
-      debug("Closed issue", { issueNumber: issue.number }, closeStartTime);
-      return { issueNumber: issue.number, success: true };
+      const marker = formatMarker('closed', ctx.clock.now(), { policy: policy.name });
+      await ctx.client.createComment(issue.number, `${resolveText(commentText, issue)}\n${marker}`);
+      await ctx.client.updateIssue(issue.number, { state: 'closed' });
+
+      debug(ctx, "Closed issue", { issueNumber: issue.number }, closeStartTime);
+      const teardown = await teardownEnvironment(ctx, issue);
+      return { issueNumber: issue.number, success: true, ...(teardown ? { teardown } : {}) };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      debug("Close failed", { issueNumber: issue.number, error: errorMessage }, closeStartTime);
+      debug(ctx, "Close failed", { issueNumber: issue.number, error: errorMessage }, closeStartTime);
       return {
         issueNumber: issue.number,
         success: false,
         error: errorMessage,
+        cause: error,
       };
     }
   };
 
   const results = await Promise.all(issues.map(closeIssue));
-  debug("Completed close process", { results }, startTime);
+  debug(ctx, "Completed close process", { results }, startTime);
   return results;
 }
 
+/**
+ * Extends an instance by the given number of hours from now, like `/extend`, taking back its
+ * warning. The extension is recorded in the bot's comment, as commands are only read from humans.
+ */
+export async function extendIssue(ctx: RetentionContext, issue: Issue, hours: number): Promise<Date> {
+  // An extended instance can be extended again, like with repeated /extend commands
+  const { lifecycle } = getIssueState(ctx, issue);
+  if (lifecycle !== 'extended') assertTransition(lifecycle, 'extended');
+
+  const now = ctx.clock.now();
+  const until = new Date(now.getTime() + hours * 3600000);
+  await ctx.client.createComment(
+    issue.number,
+    `⏳ Extended by ${hours}h from the command line. The inactivity clock restarts at ${until.toISOString()}.\n` +
+      formatMarker('extended', now, { until }),
+  );
+  if (issue.labels.some(l => l.name === ctx.config.WARNING_LABEL)) {
+    await removeWarningLabel(ctx, issue.number);
+  }
+  debug(ctx, "Extended issue", { issueNumber: issue.number, hours, until: until.toISOString() });
+  return until;
+}
+
 /**
  * Removes the warning label from an issue
  */
-async function removeWarningLabel(issueNumber: number, githubOverride = defaultGithub): Promise<void> {
+async function removeWarningLabel(ctx: RetentionContext, issueNumber: number): Promise<void> {
   try {
-    await githubOverride.removeLabel(issueNumber, WARNING_LABEL);
+    await ctx.client.removeLabel(issueNumber, ctx.config.WARNING_LABEL);
   } catch (error) {
-    console.error(`Failed to remove warning label from issue #${issueNumber}:`, error instanceof Error ? error.message : error);
+    ctx.logger.error(`Failed to remove warning label from issue #${issueNumber}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Re-evaluates a single QA instance right after something happened on it: replies to new
+ * commands, closes it if it was released and takes back a warning it no longer deserves.
+ * Expiry itself is left to the scheduled run.
+ */
+export async function evaluateIssue(ctx: RetentionContext, issue: Issue): Promise<IssueEvaluation> {
+  const commands = await acknowledgeIssueCommands(ctx, issue);
+
+  if (getIssueState(ctx, issue).released) {
+    const [released] = await closeIssues(ctx, [issue], i => generateMessage(ctx, 'release', i));
+    return { commands, warningRemoved: false, released };
+  }
+
+  const warningRemoved = needsWarningRemoved(ctx, issue);
+  if (warningRemoved) {
+    await removeWarning(ctx, issue);
   }
+  return { commands, warningRemoved };
 }
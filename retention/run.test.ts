@@ -0,0 +1,73 @@
+import { assertEquals } from "@std/assert";
+import { resolveConfig } from "./config.ts";
+import { GitHubClient } from "./github-api.ts";
+import { runRetention } from "./run.ts";
+import { Issue, IssueComment } from "./types.ts";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const hoursBefore = (hours: number): string => new Date(NOW.getTime() - hours * 3600000).toISOString();
+
+/**
+ * Client serving issues from memory and recording every write
+ */
+class FakeGitHub extends GitHubClient {
+  writes: string[] = [];
+
+  constructor(private issues: Issue[]) {
+    super("test-token", "acme", "qa");
+  }
+
+  override listIssues(): Promise<Issue[]> {
+    return Promise.resolve(this.issues);
+  }
+
+  override listComments(): Promise<IssueComment[]> {
+    return Promise.resolve([]);
+  }
+
+  override createComment(issueNumber: number, body: string): Promise<void> {
+    this.writes.push(`#${issueNumber} comment: ${body.split("\n")[0]}`);
+    return Promise.resolve();
+  }
+
+  override addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    this.writes.push(`#${issueNumber} add labels: ${labels.join(", ")}`);
+    return Promise.resolve();
+  }
+}
+
+const instance = (number: number, createdHoursAgo: number): Issue => ({
+  number,
+  title: `QA-Instance ready: checkout-${number}`,
+  created_at: hoursBefore(createdHoursAgo),
+  updated_at: hoursBefore(createdHoursAgo),
+  user: { login: "alice" },
+  labels: [],
+});
+
+Deno.test("runRetention evaluates instances at the time of the injected clock", async () => {
+  const client = new FakeGitHub([instance(1, 50), instance(2, 10)]);
+  const logged: unknown[][] = [];
+
+  const result = await runRetention({
+    config: resolveConfig({
+      GITHUB_TOKEN: "test-token",
+      REPOSITORIES: ["acme/qa"],
+      DATA_SOURCE: "rest",
+      ACTIVITY_TYPES: ["create", "comment"],
+      RETENTION_HOURS: 48,
+      INACTIVITY_THRESHOLD_HOURS: 24,
+    }),
+    client,
+    clock: { now: () => NOW },
+    logger: { log: (...data) => logged.push(data), warn() {}, error: (...data) => logged.push(data) },
+  });
+
+  assertEquals(result.success, true);
+  assertEquals(result.repositories.map(({ repository, qaInstances, warned }) => ({ repository, qaInstances, warned })), [
+    { repository: "acme/qa", qaInstances: 2, warned: 1 },
+  ]);
+  assertEquals(client.writes.map(w => w.split(":")[0]), ["#1 comment", "#1 add labels"]);
+  assertEquals(logged.some(([line]) => line === "Retention Check Completed Successfully"), true);
+});
@@ -0,0 +1,456 @@
+import { describeConfig } from "./config.ts";
+import { createContext, forRepository, RetentionContext, RetentionOptions } from "./context.ts";
+import { DryRunGitHubClient, printPlan, writePlan } from "./dry-run.ts";
+import { resolveRepositories } from "./repositories.ts";
+import { toNotifiedIssue } from "./notifier.ts";
+import { formatDecisionExcerpt, writeDecisionLog } from "./decisions.ts";
+import { DashboardFormat, renderDashboard, updateDashboardIssue, writeDashboardFile } from "./dashboard.ts";
+import { clearCache, getOpenIssues, getQAReadyInstances } from "./issues-api.ts";
+import {
+  getExpiredQAInstances,
+  getInactiveWarnedIssues,
+  getExemptQAInstances,
+  getReleasedQAInstances,
+  acknowledgeCommands,
+  addWarningToIssues,
+  closeIssues,
+  generateMessage,
+  getDashboardRows,
+  getOverCapacityInstances,
+  getIssueState,
+  getCloseDeadline,
+  getDecisionRecord,
+  getDecisionRecords,
+} from "./retention.ts";
+import {
+  CapacityCheck,
+  DashboardRow,
+  Issue,
+  Logger,
+  Notification,
+  NotifiedIssue,
+  OperationResult,
+  RepositorySummary,
+  RetentionResult,
+} from "./types.ts";
+
+/**
+ * Prints a section header
+ */
+export function logSection(logger: Logger, title: string): void {
+  logger.log("\n" + "=".repeat(80));
+  logger.log(title);
+  logger.log("=".repeat(80) + "\n");
+}
+
+/**
+ * Processes warnings for expired QA instances
+ */
+async function processWarnings(ctx: RetentionContext, needWarning: Issue[]): Promise<OperationResult[]> {
+  const { logger } = ctx;
+  if (needWarning.length === 0) {
+    logger.log("✓ No expired instances need warnings");
+    return [];
+  }
+
+  logger.log(`⚠️ Adding warnings to ${needWarning.length} expired instances...`);
+  const results = await addWarningToIssues(ctx, needWarning, issue => generateMessage(ctx, "warning", issue));
+  const succeeded = results.filter(r => r.success).length;
+  const failed = results.filter(r => !r.success).length;
+
+  logger.log(`✓ Warning results: ${succeeded} succeeded, ${failed} failed`);
+
+  if (failed > 0) {
+    results
+      .filter(r => !r.success)
+      .forEach(r => logger.error(`Failed to warn issue #${r.issueNumber}:`, r.error));
+  }
+  return results;
+}
+
+/**
+ * Warns the idlest instances early when a repository has more than its instance limit
+ */
+async function processCapacity(ctx: RetentionContext, capacity: CapacityCheck | undefined): Promise<OperationResult[]> {
+  if (!capacity) return [];
+  const { logger } = ctx;
+
+  const { limit, inUse, reclaiming, reclaim } = capacity;
+  if (reclaim.length === 0) {
+    logger.log(inUse > limit
+      ? `✓ ${inUse} of ${limit} allowed instances in use, ${reclaiming} already being reclaimed`
+      : `✓ ${inUse} of ${limit} allowed instances in use`);
+    return [];
+  }
+
+  logger.log(`📦 ${inUse} of ${limit} allowed instances in use, warning the ${reclaim.length} idlest early...`);
+  const results = await addWarningToIssues(ctx, reclaim, issue => generateMessage(ctx, "capacity", issue));
+  const failed = results.filter(r => !r.success);
+
+  logger.log(`✓ Capacity warning results: ${results.length - failed.length} succeeded, ${failed.length} failed`);
+  failed.forEach(r => logger.error(`Failed to warn issue #${r.issueNumber} over capacity:`, r.error));
+  return results;
+}
+
+/**
+ * Processes inactive issues that need to be closed
+ */
+async function processInactiveIssues(ctx: RetentionContext, inactiveIssues: Issue[]): Promise<OperationResult[]> {
+  const { config, logger } = ctx;
+  if (inactiveIssues.length === 0) {
+    logger.log("✓ No inactive warned issues to close");
+    return [];
+  }
+
+  logger.log(`🔒 Found ${inactiveIssues.length} inactive warned issues to close...`);
+  // The comment explains the decision, so owners can see why their instance was closed
+  const results = await closeIssues(
+    ctx,
+    inactiveIssues,
+    issue =>
+      `${generateMessage(ctx, "close", issue)}\n\n` +
+      formatDecisionExcerpt(getDecisionRecord(ctx, issue), config.WORKING_CALENDAR?.timezone),
+  );
+  const succeeded = results.filter(r => r.success).length;
+  const failed = results.filter(r => !r.success).length;
+
+  logger.log(`✓ Closing results: ${succeeded} succeeded, ${failed} failed`);
+  reportTeardownFailures(logger, results);
+
+  if (failed > 0) {
+    results
+      .filter(r => !r.success)
+      .forEach(r => logger.error(`Failed to close issue #${r.issueNumber}:`, r.error));
+  }
+  return results;
+}
+
+/**
+ * Replies to new ChatOps commands
+ */
+async function processCommands(ctx: RetentionContext): Promise<OperationResult[]> {
+  const { logger } = ctx;
+  const results = await acknowledgeCommands(ctx);
+  if (results.length === 0) {
+    logger.log("✓ No new commands to acknowledge");
+    return [];
+  }
+
+  const failed = results.filter(r => !r.success);
+  logger.log(`✓ Command replies: ${results.length - failed.length} succeeded, ${failed.length} failed`);
+  failed.forEach(r => logger.error(`Failed to reply to command on issue #${r.issueNumber}:`, r.error));
+  return results;
+}
+
+/**
+ * Closes instances released with the /release command
+ */
+async function processReleasedIssues(ctx: RetentionContext, released: Issue[]): Promise<OperationResult[]> {
+  const { logger } = ctx;
+  if (released.length === 0) {
+    logger.log("✓ No released instances to close");
+    return [];
+  }
+
+  logger.log(`🔓 Closing ${released.length} released instances...`);
+  const results = await closeIssues(ctx, released, issue => generateMessage(ctx, "release", issue));
+  const failed = results.filter(r => !r.success);
+
+  logger.log(`✓ Release results: ${results.length - failed.length} succeeded, ${failed.length} failed`);
+  reportTeardownFailures(logger, results);
+  failed.forEach(r => logger.error(`Failed to close released issue #${r.issueNumber}:`, r.error));
+  return results;
+}
+
+/**
+ * Lists exempt instances so they stay visible in the run summary
+ */
+function reportExempt(logger: Logger, exempt: Issue[]): void {
+  if (exempt.length === 0) {
+    logger.log("✓ No exempt instances");
+    return;
+  }
+
+  logger.log(`📌 ${exempt.length} exempt instances (never expire):`);
+  exempt.forEach(issue => logger.log(`  #${issue.number} ${issue.title}`));
+}
+
+/**
+ * Reports the actions recorded during a dry run, if this is one
+ */
+export async function reportPlan({ client, config, logger }: RetentionContext): Promise<void> {
+  if (!(client instanceof DryRunGitHubClient)) return;
+  logSection(logger, "Dry Run Plan");
+  printPlan(client.plan, logger);
+  if (config.DRY_RUN_OUTPUT) {
+    await writePlan(client.plan, config.DRY_RUN_OUTPUT, logger);
+  }
+}
+
+/**
+ * Logs teardown hook failures for closed issues
+ */
+export function reportTeardownFailures(logger: Logger, results: OperationResult[]): void {
+  results
+    .filter(r => r.teardown && !r.teardown.success)
+    .forEach(r => logger.error(`Teardown failed for issue #${r.issueNumber}:`, r.teardown!.error));
+}
+
+/**
+ * Sends a notification for every issue the operation succeeded on
+ */
+async function notifySucceeded(
+  { client, notifier }: RetentionContext,
+  issues: Issue[],
+  results: OperationResult[],
+  build: (issue: NotifiedIssue, source: Issue) => Notification,
+): Promise<void> {
+  const succeeded = issues.filter(issue => results.some(r => r.issueNumber === issue.number && r.success));
+  for (const issue of succeeded) {
+    await notifier.notify(build(toNotifiedIssue(issue, client.repository), issue));
+  }
+}
+
+/**
+ * Lists the failed operations, including teardowns, as lines for a failure notification
+ */
+export const describeFailures = (operation: string, results: OperationResult[]): string[] =>
+  results.flatMap(r => [
+    ...(!r.success ? [`${operation} #${r.issueNumber}: ${r.error}`] : []),
+    ...(r.teardown && !r.teardown.success ? [`tear down #${r.issueNumber}: ${r.teardown.error}`] : []),
+  ]);
+
+/**
+ * Runs the retention check on a single repository
+ */
+async function processRepository(ctx: RetentionContext): Promise<RepositorySummary> {
+  const { client, config, logger, notifier } = ctx;
+
+  // Log initial state
+  const [allIssues, qaIssues] = await Promise.all([
+    getOpenIssues(ctx),
+    getQAReadyInstances(ctx),
+  ]);
+
+  logger.log("📊 Current state:", {
+    repository: client.repository,
+    totalOpenIssues: allIssues.length,
+    qaInstances: qaIssues.length,
+  });
+
+  const commandResults = await processCommands(ctx);
+
+  // Get list of issues that need warnings and those that are inactive
+  const released = await getReleasedQAInstances(ctx);
+  const needWarning = await getExpiredQAInstances(ctx);
+  const capacity = await getOverCapacityInstances(ctx, needWarning);
+  const inactiveIssues = await getInactiveWarnedIssues(ctx);
+
+  // Filter out any issues that just received warnings from the inactive list
+  const trulyInactiveIssues = inactiveIssues.filter(inactive =>
+    !needWarning.some(warning => warning.number === inactive.number)
+  );
+
+  // Record how every instance was evaluated before anything changes; a log that can't be
+  // written is not worth skipping the run for
+  if (config.DECISION_LOG) {
+    try {
+      await writeDecisionLog(config.DECISION_LOG, await getDecisionRecords(ctx, capacity), logger);
+    } catch (error) {
+      logger.error(`❌ Failed to write the decision log:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Process warnings and inactive issues
+  const [warnResults, capacityResults, closeResults, releaseResults] = await Promise.all([
+    processWarnings(ctx, needWarning),
+    processCapacity(ctx, capacity),
+    processInactiveIssues(ctx, trulyInactiveIssues),
+    processReleasedIssues(ctx, released),
+  ]);
+
+  const exempt = await getExemptQAInstances(ctx);
+  reportExempt(logger, exempt);
+
+  // Tell the owners in chat, and whoever watches failures about anything that went wrong
+  const { repository } = client;
+  const closesAt = (issue: Issue) => getCloseDeadline(ctx, getIssueState(ctx, issue).policy);
+  await notifySucceeded(ctx, needWarning, warnResults, (issue, source) =>
+    ({ event: "warning", issue, reason: "inactivity", closesAt: closesAt(source) }));
+  await notifySucceeded(ctx, capacity?.reclaim ?? [], capacityResults, (issue, source) =>
+    ({ event: "warning", issue, reason: "capacity", closesAt: closesAt(source) }));
+  await notifySucceeded(ctx, trulyInactiveIssues, closeResults, issue =>
+    ({ event: "close", issue, reason: "inactivity" }));
+  await notifySucceeded(ctx, released, releaseResults, issue =>
+    ({ event: "close", issue, reason: "release" }));
+
+  const errors = [
+    ...describeFailures("reply to command on", commandResults),
+    ...describeFailures("warn", [...warnResults, ...capacityResults]),
+    ...describeFailures("close", [...closeResults, ...releaseResults]),
+  ];
+  if (errors.length > 0) {
+    await notifier.notify({ event: "failure", repository, errors });
+  }
+
+  const succeeded = (results: OperationResult[]) => results.filter(r => r.success).length;
+  return {
+    repository: client.repository,
+    qaInstances: qaIssues.length,
+    warned: succeeded(warnResults),
+    closed: succeeded(closeResults),
+    released: succeeded(releaseResults),
+    exempt: exempt.length,
+    reclaimed: succeeded(capacityResults),
+    ...(capacity ? { capacity: { inUse: capacity.inUse, limit: capacity.limit } } : {}),
+    failed: [...commandResults, ...warnResults, ...capacityResults, ...closeResults, ...releaseResults]
+      .filter(r => !r.success).length,
+  };
+}
+
+/**
+ * Prints the results of each scanned repository, and the totals when there are several
+ */
+function reportSummary(logger: Logger, summaries: RepositorySummary[]): void {
+  logSection(logger, "Summary");
+  for (const s of summaries) {
+    if (s.error) {
+      logger.error(`❌ ${s.repository}: ${s.error}`);
+      continue;
+    }
+    const capacity = s.capacity ? ` (${s.capacity.inUse}/${s.capacity.limit} in use)` : "";
+    logger.log(
+      `${s.failed > 0 ? "⚠️" : "✓"} ${s.repository}: ${s.qaInstances} instances${capacity}, ${s.warned} warned, ` +
+        `${s.reclaimed} reclaimed, ${s.closed} closed, ${s.released} released, ${s.exempt} exempt, ${s.failed} failed`,
+    );
+  }
+
+  if (summaries.length < 2) return;
+  const total = (key: "qaInstances" | "warned" | "reclaimed" | "closed" | "released" | "exempt" | "failed") =>
+    summaries.reduce((sum, s) => sum + s[key], 0);
+  logger.log(
+    `\n📊 ${summaries.length} repositories (${summaries.filter(s => s.error).length} failed): ` +
+      `${total("qaInstances")} instances, ${total("warned")} warned, ${total("reclaimed")} reclaimed, ` +
+      `${total("closed")} closed, ${total("released")} released, ${total("exempt")} exempt, ` +
+      `${total("failed")} failed operations`,
+  );
+}
+
+/**
+ * How the dashboard shows times: in the working calendar's timezone and the message locale
+ */
+const dashboardFormat = ({ config, clock }: RetentionContext): DashboardFormat => ({
+  now: clock.now(),
+  timezone: config.WORKING_CALENDAR?.timezone,
+  locale: config.MESSAGE_LOCALE,
+});
+
+/**
+ * Lists the instances of a repository after its run and updates its dashboard issue, if enabled
+ */
+async function refreshDashboard(ctx: RetentionContext): Promise<DashboardRow[]> {
+  const { client, config, logger } = ctx;
+  // The run changed labels and comments, so the instances are read again
+  clearCache(ctx);
+  const rows = await getDashboardRows(ctx);
+  if (config.DASHBOARD_ISSUE) {
+    const markdown = renderDashboard(new Map([[client.repository, rows]]), dashboardFormat(ctx));
+    await updateDashboardIssue(client, config.DASHBOARD_TITLE, markdown, await getOpenIssues(ctx), logger);
+  }
+  return rows;
+}
+
+/**
+ * Runs the retention check once over every repository of a context. The context can be reused
+ * for later runs once its run cache is cleared.
+ */
+export async function runRetentionCheck(ctx: RetentionContext): Promise<RetentionResult> {
+  const { client, config, logger, notifier } = ctx;
+  try {
+    logSection(logger, "Starting QA Instance Retention Check");
+    logger.log("✅ Config:", describeConfig(config));
+
+    if (config.DRY_RUN) {
+      logger.log("📝 Dry run enabled: no changes will be made on GitHub");
+    }
+
+    const repositories = await resolveRepositories(client, config.REPOSITORIES, config.ORG_SCAN);
+    if (repositories.length === 0) {
+      throw new Error("No repositories to scan, check GITHUB_REPOS, GITHUB_ORG and the repository filters");
+    }
+
+    // Repositories are processed one after another; a failure in one doesn't stop the others
+    const summaries: RepositorySummary[] = [];
+    const dashboards = new Map<string, DashboardRow[]>();
+    for (const repository of repositories) {
+      if (repositories.length > 1) logSection(logger, `Repository ${repository}`);
+      const repositoryCtx = forRepository(ctx, repository);
+      try {
+        summaries.push(await processRepository(repositoryCtx));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`❌ Failed to process ${repository}:`, message);
+        await notifier.notify({ event: "failure", repository, errors: [message] });
+        summaries.push({
+          repository, qaInstances: 0, warned: 0, reclaimed: 0, closed: 0, released: 0, exempt: 0, failed: 0, error: message,
+        });
+        continue;
+      }
+
+      // A stale dashboard is not worth failing the run for
+      if (config.DASHBOARD_ISSUE || config.DASHBOARD_FILE) {
+        try {
+          dashboards.set(repository, await refreshDashboard(repositoryCtx));
+        } catch (error) {
+          logger.error(`❌ Failed to update the dashboard of ${repository}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    // Save the cache for the next run, even if some repositories failed
+    await ctx.cacheStore.flush();
+
+    if (config.DASHBOARD_FILE) {
+      await writeDashboardFile(config.DASHBOARD_FILE, renderDashboard(dashboards, dashboardFormat(ctx)), logger);
+    }
+
+    reportSummary(logger, summaries);
+    await notifier.sendDigest(summaries);
+    await reportPlan(ctx);
+
+    const success = !summaries.some(s => s.error);
+    logSection(logger, success ? "Retention Check Completed Successfully" : "Retention Check Completed With Errors");
+    return { success, repositories: summaries, ...planOf(ctx) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error("❌ Fatal error:", message);
+    await notifier.notify({ event: "failure", errors: [message] });
+    logSection(logger, "Retention Check Failed");
+    return { success: false, repositories: [], error: message, ...planOf(ctx) };
+  }
+}
+
+/**
+ * The actions recorded so far, when the client is a dry run
+ */
+const planOf = ({ client }: RetentionContext): Pick<RetentionResult, "plan"> =>
+  client instanceof DryRunGitHubClient ? { plan: [...client.plan] } : {};
+
+/**
+ * Runs the retention check once over every configured repository. The GitHub client, cache,
+ * notifier, clock and logger are created from the configuration unless they are given.
+ *
+ * @example
+ * ```ts
+ * const config = resolveConfig({
+ *   GITHUB_TOKEN: token,
+ *   REPOSITORIES: ["acme/qa"],
+ *   RETENTION_HOURS: 72,
+ *   INACTIVITY_THRESHOLD_HOURS: 24,
+ * });
+ * const { success, repositories } = await runRetention({ config });
+ * ```
+ */
+export async function runRetention(options: RetentionOptions): Promise<RetentionResult> {
+  return await runRetentionCheck(await createContext(options));
+}
@@ -0,0 +1,48 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { getNextRun, parseCron } from "./schedule.ts";
+
+const next = (expression: string, after: string): string =>
+  getNextRun(parseCron(expression), new Date(after)).toISOString();
+
+Deno.test("parseCron expands wildcards, ranges, steps, lists and names", () => {
+  const schedule = parseCron("*/20 9-17/4 1,15 jan-mar mon-fri");
+  assertEquals(schedule.minutes, [0, 20, 40]);
+  assertEquals(schedule.hours, [9, 13, 17]);
+  assertEquals(schedule.daysOfMonth, [1, 15]);
+  assertEquals(schedule.months, [1, 2, 3]);
+  assertEquals(schedule.daysOfWeek, [1, 2, 3, 4, 5]);
+  assertEquals(schedule.eitherDay, true);
+
+  assertEquals(parseCron("0 0 * * 7").daysOfWeek, [0]);
+  assertEquals(parseCron("5/20 * * * *").minutes, [5, 25, 45]);
+  assertEquals(parseCron("@daily").expression, "@daily");
+});
+
+Deno.test("parseCron rejects malformed expressions", () => {
+  assertThrows(() => parseCron("* * * *"), Error, "must have 5 fields");
+  assertThrows(() => parseCron("60 * * * *"), Error, 'Invalid minute "60"');
+  assertThrows(() => parseCron("* * * foo *"), Error, 'Invalid month "foo"');
+  assertThrows(() => parseCron("*/0 * * * *"), Error, "Invalid step");
+  assertThrows(() => parseCron("* 5-1 * * *"), Error, "Invalid range");
+});
+
+Deno.test("getNextRun returns the next matching minute after the given time", () => {
+  assertEquals(next("0 * * * *", "2026-10-19T10:00:00Z"), "2026-10-19T11:00:00.000Z");
+  assertEquals(next("0 * * * *", "2026-10-19T10:59:30Z"), "2026-10-19T11:00:00.000Z");
+  assertEquals(next("*/15 * * * *", "2026-10-19T10:07:00Z"), "2026-10-19T10:15:00.000Z");
+  assertEquals(next("30 2 * * *", "2026-12-31T03:00:00Z"), "2027-01-01T02:30:00.000Z");
+  // 2026-10-19 is a Monday
+  assertEquals(next("0 9 * * sat", "2026-10-19T10:00:00Z"), "2026-10-24T09:00:00.000Z");
+  assertEquals(next("0 0 29 2 *", "2026-10-19T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+});
+
+Deno.test("getNextRun matches either day field when both are restricted", () => {
+  // The 1st of the month or any Friday, whichever comes first
+  assertEquals(next("0 0 1 * fri", "2026-10-19T00:00:00Z"), "2026-10-23T00:00:00.000Z");
+  assertEquals(next("0 0 1 * fri", "2026-10-24T00:00:00Z"), "2026-10-30T00:00:00.000Z");
+  assertEquals(next("0 0 1 * fri", "2026-10-30T00:00:00Z"), "2026-11-01T00:00:00.000Z");
+});
+
+Deno.test("getNextRun throws for schedules that never run", () => {
+  assertThrows(() => next("0 0 30 2 *", "2026-10-19T00:00:00Z"), Error, "never runs");
+});
@@ -0,0 +1,126 @@
+import { CronSchedule } from "./types.ts";
+
+/**
+ * Shorthands accepted in place of the five fields
+ */
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Fields of an expression in order: name, range, and names usable instead of numbers
+ */
+const FIELDS: Array<{ name: string; min: number; max: number; names?: string[] }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted for Sunday as well and mapped to 0 below
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * Longest stretch searched for the next run; schedules like `0 0 30 2 *` never match
+ */
+const MAX_SEARCH_DAYS = 5 * 366;
+
+/**
+ * Parses a single field such as `*`, `*\/15`, `1-5`, `mon-fri` or `0,30`
+ */
+function parseField(value: string, field: (typeof FIELDS)[number], expression: string): number[] {
+  const toNumber = (part: string): number => {
+    const named = field.names?.indexOf(part.toLowerCase()) ?? -1;
+    const number = named >= 0 ? named + field.min : /^\d+$/.test(part) ? Number(part) : NaN;
+    if (!(number >= field.min && number <= field.max)) {
+      throw new Error(`Invalid ${field.name} "${part}" in cron expression "${expression}"`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const item of value.split(",")) {
+    const [range, stepText] = item.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron expression "${expression}"`);
+    }
+
+    let [start, end] = [field.min, field.max];
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = toNumber(from);
+      // `5/10` means from 5 to the end of the range
+      end = to !== undefined ? toNumber(to) : stepText !== undefined ? field.max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid range "${range}" in cron expression "${expression}"`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parses a five-field cron expression (minute, hour, day of month, month, day of week) or one of
+ * `@hourly`, `@daily`, `@weekly` and `@monthly`. Times are in UTC, like GitHub Actions schedules.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseField(f, FIELDS[i], expression));
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(daysOfWeek.map(d => d % 7))].sort((a, b) => a - b),
+    eitherDay: !fields[2].startsWith("*") && !fields[4].startsWith("*"),
+  };
+}
+
+/**
+ * Checks if the schedule runs on the UTC day of `date`
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay());
+  return schedule.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time after `after` at which the schedule runs
+ */
+export function getNextRun(schedule: CronSchedule, after = new Date()): Date {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.includes(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.includes(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.includes(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`Cron expression "${schedule.expression}" never runs`);
+}
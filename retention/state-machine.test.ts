@@ -0,0 +1,130 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  assertTransition,
+  canTransition,
+  deriveLifecycle,
+  formatMarker,
+  getRecordedState,
+  LifecycleInput,
+  MARKER_VERSION,
+  parseMarker,
+} from "./state-machine.ts";
+import { IssueComment } from "./types.ts";
+
+const BOT = "github-actions[bot]";
+
+const comment = (login: string, body: string, created_at: string): IssueComment => ({
+  created_at,
+  user: { login },
+  body,
+});
+
+const lifecycleInput = (overrides: Partial<LifecycleInput> = {}): LifecycleInput => ({
+  exempt: false,
+  hasWarningLabel: false,
+  lastHumanActivity: new Date("2026-10-01T00:00:00Z"),
+  now: new Date("2026-10-05T00:00:00Z"),
+  ...overrides,
+});
+
+Deno.test("formatMarker and parseMarker round-trip", () => {
+  const at = new Date("2026-10-01T12:00:00Z");
+  const until = new Date("2026-10-04T12:00:00Z");
+  const body = `Some text\n${formatMarker("extended", at, { until, policy: "perf" })}`;
+
+  assertEquals(parseMarker(body), {
+    v: MARKER_VERSION,
+    state: "extended",
+    at: at.toISOString(),
+    until: until.toISOString(),
+    policy: "perf",
+  });
+});
+
+Deno.test("formatMarker escapes values that would end the HTML comment", () => {
+  const marker = formatMarker("warned", new Date("2026-10-01T00:00:00Z"), { policy: "a-->b" });
+  assertEquals(marker.indexOf("-->"), marker.length - 3);
+  assertEquals(parseMarker(marker)?.policy, "a-->b");
+});
+
+Deno.test("parseMarker ignores malformed, unknown-state and future-version markers", () => {
+  assertEquals(parseMarker("<!-- qa-retention:state {not json} -->"), undefined);
+  assertEquals(parseMarker('<!-- qa-retention:state {"v":1,"state":"gone","at":"2026-10-01T00:00:00Z"} -->'), undefined);
+  assertEquals(parseMarker('<!-- qa-retention:state {"v":99,"state":"warned","at":"2026-10-01T00:00:00Z"} -->'), undefined);
+  assertEquals(parseMarker("no marker here"), undefined);
+});
+
+Deno.test("getRecordedState returns the latest marker written by the bot", () => {
+  const comments = [
+    comment(BOT, formatMarker("warned", new Date("2026-10-01T00:00:00Z")), "2026-10-01T00:00:00Z"),
+    comment(BOT, formatMarker("extended", new Date("2026-10-02T00:00:00Z")), "2026-10-02T00:00:00Z"),
+  ];
+  assertEquals(getRecordedState(comments, BOT)?.state, "extended");
+});
+
+Deno.test("getRecordedState ignores markers and quoted warnings from humans", () => {
+  const comments = [
+    comment("alice", formatMarker("closed", new Date("2026-10-01T00:00:00Z")), "2026-10-01T00:00:00Z"),
+    comment("bob", "> ⚠️ QA instance inactive for 48 hours\n\nstill using it", "2026-10-02T00:00:00Z"),
+  ];
+  assertEquals(getRecordedState(comments, BOT), undefined);
+});
+
+Deno.test("getRecordedState recognizes legacy warnings from the bot and legacy accounts", () => {
+  const legacy = "⚠️ QA instance inactive for 48 hours\n\nAdd any comment (e.g. \"bump\") to keep open";
+
+  assertEquals(getRecordedState([comment(BOT, legacy, "2026-10-01T00:00:00Z")], BOT), {
+    v: 0,
+    state: "warned",
+    at: "2026-10-01T00:00:00Z",
+  });
+  assertEquals(getRecordedState([comment("ops-user", legacy, "2026-10-01T00:00:00Z")], BOT), undefined);
+  assertEquals(
+    getRecordedState([comment("ops-user", legacy, "2026-10-01T00:00:00Z")], BOT, ["ops-user"])?.state,
+    "warned",
+  );
+});
+
+Deno.test("deriveLifecycle: exempt wins over everything", () => {
+  const recorded = { v: 1, state: "warned" as const, at: "2026-10-02T00:00:00Z" };
+  assertEquals(deriveLifecycle(lifecycleInput({ exempt: true, hasWarningLabel: true, recorded })), "exempt");
+});
+
+Deno.test("deriveLifecycle: warned needs the label, a warning and no activity since", () => {
+  const recorded = { v: 1, state: "warned" as const, at: "2026-10-02T00:00:00Z" };
+
+  assertEquals(deriveLifecycle(lifecycleInput({ hasWarningLabel: true, recorded })), "warned");
+  assertEquals(deriveLifecycle(lifecycleInput({ hasWarningLabel: false, recorded })), "active");
+  assertEquals(
+    deriveLifecycle(lifecycleInput({
+      hasWarningLabel: true,
+      recorded,
+      lastHumanActivity: new Date("2026-10-03T00:00:00Z"),
+    })),
+    "active",
+  );
+});
+
+Deno.test("deriveLifecycle: extended while an extension or keep-until date is in the future", () => {
+  assertEquals(deriveLifecycle(lifecycleInput({ extendedUntil: new Date("2026-10-06T00:00:00Z") })), "extended");
+  assertEquals(deriveLifecycle(lifecycleInput({ keepUntil: new Date("2026-11-01T00:00:00Z") })), "extended");
+  assertEquals(deriveLifecycle(lifecycleInput({ extendedUntil: new Date("2026-10-04T00:00:00Z") })), "active");
+});
+
+Deno.test("transitions follow the lifecycle", () => {
+  assertEquals(canTransition("active", "warned"), true);
+  assertEquals(canTransition("extended", "warned"), true);
+  assertEquals(canTransition("warned", "closed"), true);
+  assertEquals(canTransition("warned", "active"), true);
+  assertEquals(canTransition("closed", "active"), true);
+
+  assertEquals(canTransition("warned", "warned"), false);
+  assertEquals(canTransition("exempt", "warned"), false);
+  assertEquals(canTransition("closed", "closed"), false);
+  assertEquals(canTransition("closed", "warned"), false);
+});
+
+Deno.test("assertTransition throws on invalid transitions", () => {
+  assertTransition("active", "warned");
+  assertThrows(() => assertTransition("exempt", "warned"), Error, "Invalid state transition: exempt → warned");
+});
@@ -0,0 +1,143 @@
+import { IssueComment, LifecycleState, StateMarker } from "./types.ts";
+
+/**
+ * Version written into new markers. Version 0 is reserved for warnings recognized from their text.
+ */
+export const MARKER_VERSION = 1;
+
+const MARKER_PATTERN = /<!-- qa-retention:state (\{.*?\}) -->/g;
+
+/**
+ * Text and marker of warning comments posted before state markers existed
+ */
+const LEGACY_WARNING_PATTERNS = ["QA instance inactive for", "<!-- qa-retention:warning -->"];
+
+const LIFECYCLE_STATES: LifecycleState[] = ["active", "warned", "extended", "exempt", "closed"];
+
+/**
+ * Allowed transitions between lifecycle states
+ */
+export const TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+  active: ["warned", "extended", "exempt", "closed"],
+  warned: ["active", "extended", "exempt", "closed"],
+  extended: ["active", "warned", "exempt", "closed"],
+  exempt: ["active", "closed"],
+  closed: ["active"],
+};
+
+/**
+ * Inputs needed to derive the lifecycle state of an open issue
+ */
+export interface LifecycleInput {
+  exempt: boolean;
+  hasWarningLabel: boolean;
+  recorded?: StateMarker;
+  lastHumanActivity: Date;
+  extendedUntil?: Date;
+  keepUntil?: Date;
+  now: Date;
+}
+
+/**
+ * Formats a hidden marker recording a state transition
+ */
+export function formatMarker(
+  state: LifecycleState,
+  at: Date,
+  extra: { until?: Date; policy?: string } = {},
+): string {
+  const marker: StateMarker = {
+    v: MARKER_VERSION,
+    state,
+    at: at.toISOString(),
+    ...(extra.until ? { until: extra.until.toISOString() } : {}),
+    ...(extra.policy ? { policy: extra.policy } : {}),
+  };
+  // Escape "-->" so values can't end the HTML comment early
+  return `<!-- qa-retention:state ${JSON.stringify(marker).replaceAll("-->", "--\\u003e")} -->`;
+}
+
+/**
+ * Parses the last valid marker in a comment body
+ */
+export function parseMarker(body: string | undefined): StateMarker | undefined {
+  let result: StateMarker | undefined;
+  for (const [, json] of (body ?? "").matchAll(MARKER_PATTERN)) {
+    try {
+      const marker = JSON.parse(json) as Partial<StateMarker>;
+      if (
+        typeof marker.v === "number" && marker.v >= 1 && marker.v <= MARKER_VERSION &&
+        LIFECYCLE_STATES.includes(marker.state as LifecycleState) &&
+        typeof marker.at === "string" && !isNaN(new Date(marker.at).getTime())
+      ) {
+        result = marker as StateMarker;
+      }
+    } catch {
+      // Not a marker we wrote; ignore it
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks if a comment is a warning posted before state markers existed
+ */
+export const isLegacyWarning = (body: string | undefined): boolean =>
+  parseMarker(body) === undefined && LEGACY_WARNING_PATTERNS.some(p => body?.includes(p));
+
+/**
+ * Returns the most recent state recorded in the comments. Markers are only trusted from the bot;
+ * legacy warning comments (recognized as version 0 `warned` markers) also from `legacyUsers`.
+ */
+export function getRecordedState(
+  comments: IssueComment[],
+  botUsername: string,
+  legacyUsers: string[] = [],
+): StateMarker | undefined {
+  return comments
+    .map((c): StateMarker | undefined => {
+      const marker = c.user.login === botUsername ? parseMarker(c.body) : undefined;
+      if (marker) return marker;
+      const trusted = c.user.login === botUsername || legacyUsers.includes(c.user.login);
+      return trusted && isLegacyWarning(c.body) ? { v: 0, state: "warned", at: c.created_at } : undefined;
+    })
+    .filter((m): m is StateMarker => m !== undefined)
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+    .at(-1);
+}
+
+/**
+ * Derives the current lifecycle state of an open issue from its recorded state and current facts
+ */
+export function deriveLifecycle(input: LifecycleInput): LifecycleState {
+  if (input.exempt) return "exempt";
+
+  // Still warned while the label is present and nobody has been active since the warning
+  const { recorded } = input;
+  if (
+    recorded?.state === "warned" && input.hasWarningLabel &&
+    input.lastHumanActivity.getTime() <= new Date(recorded.at).getTime()
+  ) {
+    return "warned";
+  }
+
+  const protectedUntil = [input.extendedUntil, input.keepUntil]
+    .filter((d): d is Date => d !== undefined)
+    .some(d => d.getTime() > input.now.getTime());
+  return protectedUntil ? "extended" : "active";
+}
+
+/**
+ * Checks if a transition is allowed
+ */
+export const canTransition = (from: LifecycleState, to: LifecycleState): boolean =>
+  TRANSITIONS[from].includes(to);
+
+/**
+ * Throws if a transition is not allowed
+ */
+export function assertTransition(from: LifecycleState, to: LifecycleState): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Invalid state transition: ${from} → ${to}`);
+  }
+}
@@ -1,7 +1,11 @@
-import { github, config } from "./config.ts";
+import { loadConfig } from "./config.ts";
+import { GitHubClient } from "./github-api.ts";
 import { Issue } from "./types.ts";
 
+// This script only ever runs on its own, against the repository in the environment
+const config = loadConfig();
 const { OWNER, REPO } = config;
+const github = new GitHubClient(config.GITHUB_TOKEN, OWNER, REPO);
 
 interface GitHubLabel {
   name: string;
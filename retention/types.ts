@@ -9,13 +9,37 @@ export interface GitHubUser {
  * Represents a comment on a GitHub issue
  */
 export interface IssueComment {
+  id?: number;
   created_at: string;
+  updated_at?: string;
   user: {
     login: string;
   };
   body?: string;
 }
 
+/**
+ * An event from the issue timeline, e.g. `labeled`, `renamed` or `reopened`
+ */
+export interface IssueEvent {
+  event: string;
+  created_at: string;
+  actor: {
+    login: string;
+  };
+}
+
+/**
+ * A reaction on an issue or one of its comments
+ */
+export interface Reaction {
+  content: string;
+  created_at: string;
+  user: {
+    login: string;
+  };
+}
+
 /**
  * Represents a GitHub issue with all necessary fields for retention processing
  */
@@ -24,14 +48,143 @@ export interface Issue {
   title: string;
   created_at: string;
   updated_at: string;
+  body?: string;
   user: {
     login: string;
   };
+  assignees?: Array<{
+    login: string;
+  }>;
   labels: Array<{
     name: string;
   }>;
   comments?: IssueComment[];
+  events?: IssueEvent[];
+  reactions?: Reaction[];
   state?: "open" | "closed";
+  isPullRequest?: boolean;
+  /** Repository the issue belongs to, as `owner/name` */
+  repository?: string;
+  /** Web page of the issue */
+  html_url?: string;
+}
+
+/**
+ * Conditions an issue must all satisfy to be treated as a QA instance
+ */
+export interface MatcherCondition {
+  /** Regex tested against the issue title */
+  title?: string;
+  /** Labels that must all be present */
+  labels?: string[];
+  /** Labels that must not be present */
+  excludeLabels?: string[];
+  /** Issue authors allowed to match (any of) */
+  authors?: string[];
+  /** Whether pull requests can match (default: false) */
+  includePullRequests?: boolean;
+}
+
+/**
+ * A matcher rule: a single condition, or several rules combined with AND (`all`) / OR (`any`)
+ */
+export type MatcherRule = MatcherCondition | { all: MatcherRule[] } | { any: MatcherRule[] };
+
+/**
+ * Named retention thresholds applied to the QA instances matching `match`
+ */
+export interface RetentionPolicy {
+  name: string;
+  /** Hours of inactivity before an instance is warned */
+  retentionHours: number;
+  /** Hours of inactivity after the warning before the instance is closed */
+  inactivityThresholdHours: number;
+  /** Which instances the policy applies to (absent for the default policy) */
+  match?: MatcherRule;
+  /** Locale of the messages posted on matching instances */
+  locale?: string;
+  /** Message templates overriding the locale's templates */
+  messages?: MessageTemplates;
+}
+
+/**
+ * Kind of message the bot posts on an instance
+ */
+export type MessageKind = "warning" | "capacity" | "close" | "release" | "manual";
+
+/**
+ * Message templates by kind, with `{{placeholder}}` variables
+ */
+export type MessageTemplates = Partial<Record<MessageKind, string>>;
+
+/**
+ * A ChatOps command posted in an issue comment
+ */
+export type ChatOpsCommand =
+  | { type: "extend"; hours: number }
+  | { type: "keep-until"; until: Date }
+  | { type: "release" };
+
+/**
+ * A command line found in a comment, either valid (`command`) or rejected (`error`)
+ */
+export interface ParsedCommand {
+  commentId?: number;
+  user: string;
+  date: Date;
+  /** The command line as written */
+  raw: string;
+  command?: ChatOpsCommand;
+  error?: string;
+}
+
+/**
+ * Effect of the latest ChatOps command on an issue
+ */
+export interface CommandState {
+  /** The inactivity clock does not run before this date (`/extend`) */
+  extendedUntil?: Date;
+  /** The instance expires at this date regardless of earlier activity (`/keep-until`) */
+  keepUntil?: Date;
+  /** The instance should be closed on the next run (`/release`) */
+  released: boolean;
+  releasedBy?: string;
+}
+
+/**
+ * Working time used to measure inactivity instead of wall-clock hours
+ */
+export interface WorkingCalendar {
+  /** IANA timezone the working hours and holidays refer to */
+  timezone: string;
+  /** Working days, 0 = Sunday */
+  workingDays: number[];
+  /** Start of the working day in minutes since midnight */
+  startMinute: number;
+  /** End of the working day in minutes since midnight */
+  endMinute: number;
+  /** Non-working dates as `YYYY-MM-DD` */
+  holidays: string[];
+}
+
+/**
+ * An action run after an instance is closed to tear down its environment
+ */
+export type TeardownHook =
+  | { type: "webhook"; url: string; secret?: string }
+  | {
+    type: "command";
+    command: string[];
+    /** Variables of the process environment passed on to the command, besides the basic ones */
+    env?: string[];
+  };
+
+/**
+ * Outcome of running the teardown hooks for an issue
+ */
+export interface HookResult {
+  success: boolean;
+  error?: string;
 }
 
 /**
@@ -41,6 +194,264 @@ export interface OperationResult {
   issueNumber: number;
   success: boolean;
   error?: string;
+  /** The error itself, for callers that need more than its message */
+  cause?: unknown;
+  /** Teardown hook outcome, set when hooks ran after a successful close */
+  teardown?: HookResult;
+}
+
+/**
+ * Outcome of re-evaluating a single issue
+ */
+export interface IssueEvaluation {
+  /** Replies to new ChatOps commands */
+  commands: OperationResult[];
+  warningRemoved: boolean;
+  /** Set when the issue was closed after a `/release` */
+  released?: OperationResult;
+}
+
+/**
+ * A write operation that would have been sent to GitHub during a dry run
+ */
+export type PlannedAction = { repository: string } & (
+  | { action: "createComment"; issueNumber: number; body: string }
+  | { action: "addLabels"; issueNumber: number; labels: string[] }
+  | { action: "removeLabel"; issueNumber: number; label: string }
+  | { action: "updateIssue"; issueNumber: number; state?: "open" | "closed"; body?: string }
+  | { action: "createIssue"; issueNumber?: undefined; title: string; body: string }
+  | { action: "pinIssue"; issueNumber: number }
+  | { action: "teardown"; issueNumber: number; hooks: string[] }
+);
+
+/**
+ * Supplies the token used for requests to a repository (or an organization when `repo` is omitted)
+ */
+export interface TokenProvider {
+  getToken(owner: string, repo?: string): Promise<string>;
+}
+
+/**
+ * Credentials for authenticating as a GitHub App
+ */
+export interface GitHubAppCredentials {
+  appId: string;
+  /** PEM encoded private key of the app */
+  privateKey: string;
+  /** Installation to use for every repository instead of discovering it per repository */
+  installationId?: number;
+}
+
+/**
+ * A repository returned when listing an organization
+ */
+export interface Repository {
+  /** `owner/name` */
+  fullName: string;
+  name: string;
+  topics: string[];
+  archived: boolean;
+}
+
+/**
+ * Selects the repositories of an organization to scan
+ */
+export interface OrgScan {
+  org: string;
+  /** Only repositories with this topic */
+  topic?: string;
+  /** Only repositories whose name matches this regular expression */
+  namePattern?: string;
+}
+
+/**
+ * Policy settings that replace the global ones for a single repository
+ */
+export interface RepositoryOverride {
+  retentionHours?: number;
+  inactivityThresholdHours?: number;
+  /** Replaces the policies from RETENTION_POLICIES_FILE */
+  policies?: RetentionPolicy[];
+  /** Replaces MAX_INSTANCES */
+  maxInstances?: number;
+}
+
+/**
+ * Outcome of checking a repository's QA instances against its instance limit
+ */
+export interface CapacityCheck {
+  limit: number;
+  /** Open instances counted against the limit: not exempt and not released */
+  inUse: number;
+  /** Counted instances already warned or about to be warned for inactivity */
+  reclaiming: number;
+  /** Idlest active instances to warn early so the count gets back to the limit */
+  reclaim: Issue[];
+}
+
+/**
+ * Outcome of the retention check for one repository
+ */
+export interface RepositorySummary {
+  repository: string;
+  qaInstances: number;
+  warned: number;
+  closed: number;
+  released: number;
+  exempt: number;
+  /** Instances warned early because the repository is over its instance limit */
+  reclaimed: number;
+  /** Instances counted against the limit, and the limit, when one is set */
+  capacity?: { inUse: number; limit: number };
+  failed: number;
+  /** Set when the repository could not be processed at all */
+  error?: string;
+}
+
+/**
+ * Outcome of a retention run over every repository
+ */
+export interface RetentionResult {
+  /** False when a repository, or the run as a whole, failed */
+  success: boolean;
+  repositories: RepositorySummary[];
+  /** Actions recorded instead of sent, in dry-run mode */
+  plan?: PlannedAction[];
+  /** Set when the run failed before any repository was processed */
+  error?: string;
+}
+
+/**
+ * Kinds of chat notifications a channel can subscribe to
+ */
+export type NotificationEvent = "warning" | "close" | "digest" | "failure";
+
+/**
+ * A chat or webhook destination for notifications
+ */
+export interface NotificationChannel {
+  name: string;
+  /** Payload format: Slack-compatible `{ text }`, a Teams message card, or the plain notification */
+  type: "slack" | "teams" | "webhook";
+  url: string;
+  /** Signs `webhook` payloads like teardown webhooks */
+  secret?: string;
+  events: NotificationEvent[];
+}
+
+/**
+ * Channels to notify, and the chat handles of GitHub users
+ */
+export interface NotificationSettings {
+  channels: NotificationChannel[];
+  /** Chat handle by GitHub login, e.g. `alice: "<@U024BE7LH>"` */
+  users: Record<string, string>;
+}
+
+/**
+ * An instance mentioned in a notification
+ */
+export interface NotifiedIssue {
+  repository: string;
+  number: number;
+  title: string;
+  /** Web page of the issue, when known */
+  url?: string;
+  /** Author and assignees */
+  owners: string[];
+}
+
+/**
+ * Something worth telling people about
+ */
+export type Notification =
+  | { event: "warning"; issue: NotifiedIssue; reason: "inactivity" | "capacity"; closesAt: Date }
+  | { event: "close"; issue: NotifiedIssue; reason: "inactivity" | "release" | "manual" }
+  | { event: "digest"; repositories: RepositorySummary[]; warned: NotifiedIssue[]; closed: NotifiedIssue[] }
+  | { event: "failure"; repository?: string; errors: string[] };
+
+/**
+ * A QA instance as listed on the dashboard
+ */
+export interface DashboardRow {
+  repository: string;
+  number: number;
+  title: string;
+  /** Web page of the issue */
+  url?: string;
+  owner: string;
+  assignees: string[];
+  createdAt: Date;
+  lastHumanActivity: Date;
+  /** Lifecycle state, or `released` for instances closed on the next run */
+  state: LifecycleState | "released";
+  policy: string;
+  /** When the instance will be warned, or was warned, if nothing happens on it */
+  warnAt?: Date;
+  /** When the instance will be closed if nothing happens on it */
+  closeAt?: Date;
+}
+
+/**
+ * What the next run will do with an instance, and the rule that decides it
+ */
+export interface IssueExplanation {
+  state: IssueState;
+  /** Latest human activity counted toward the thresholds */
+  lastActivity?: Activity;
+  action: "warn" | "close" | "release" | "unwarn" | "none";
+  reason: string;
+  /** When the instance will be warned, or was warned, if nothing happens on it */
+  warnAt?: Date;
+  /** When the instance will be closed if nothing happens on it */
+  closeAt?: Date;
+}
+
+/**
+ * How the retention check evaluated an issue: the facts it looked at, the thresholds it applied
+ * and its verdict. Dates are ISO timestamps.
+ */
+export interface DecisionRecord {
+  repository: string;
+  issue: number;
+  title: string;
+  evaluatedAt: string;
+  lifecycle: LifecycleState;
+  exempt: boolean;
+  policy: string;
+  thresholds: {
+    retentionHours: number;
+    inactivityThresholdHours: number;
+    /** Whether the hours are working hours of the working calendar */
+    workingHours: boolean;
+  };
+  /** Every activity on the issue, oldest first, including those that did not count */
+  activities: ActivityRecord[];
+  lastHumanActivity: string;
+  hoursSinceActivity: number;
+  warningDate?: string;
+  extendedUntil?: string;
+  keepUntil?: string;
+  releasedBy?: string;
+  verdict: IssueExplanation["action"];
+  reason: string;
+  warnAt?: string;
+  closeAt?: string;
+}
+
+/**
+ * A parsed cron expression: the values each field allows, in UTC
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 is Sunday */
+  daysOfWeek: number[];
+  /** Whether day of month and day of week were both restricted, so either one matching is enough */
+  eitherDay: boolean;
 }
 
 /**
@@ -71,7 +482,7 @@ export interface AppConfig {
 /**
  * Type of activity that can occur on an issue
  */
-export type ActivityType = "create" | "comment" | "label";
+export type ActivityType = "create" | "comment" | "label" | "edit" | "reaction" | "reopen" | "assign";
 
 /**
  * Represents an activity on an issue
@@ -79,17 +490,56 @@ export type ActivityType = "create" | "comment" | "label";
 export interface Activity {
   date: Date;
   type: ActivityType;
+  /** Login of whoever commented, reacted, labeled etc. */
+  actor: string;
   isBot: boolean;
 }
 
+/**
+ * An activity as weighed when evaluating an issue
+ */
+export interface ActivityRecord {
+  type: ActivityType;
+  at: string;
+  actor: string;
+  /** Why the activity did not reset the inactivity clock; absent when it did */
+  ignored?: string;
+}
+
+/**
+ * Lifecycle state of a QA instance
+ */
+export type LifecycleState = "active" | "warned" | "extended" | "exempt" | "closed";
+
+/**
+ * State transition recorded by the bot in a hidden HTML comment
+ */
+export interface StateMarker {
+  /** Marker format version; 0 for legacy warnings recognized by their text */
+  v: number;
+  state: LifecycleState;
+  /** When the transition happened (ISO timestamp) */
+  at: string;
+  /** End of an extension (ISO timestamp) */
+  until?: string;
+  /** Policy applied at the time of the transition */
+  policy?: string;
+}
+
 /**
  * Represents the current state of an issue
  */
-export interface IssueState {
+export interface IssueState extends CommandState {
+  lifecycle: LifecycleState;
+  /** Latest state recorded by the bot */
+  recorded?: StateMarker;
   lastHumanActivity: Date;
   warningDate?: Date;
   hasWarning: boolean;
   hoursSinceActivity: number;
+  policy: RetentionPolicy;
+  /** Exempt issues (exemption label or `expires-never` marker) are never warned or closed */
+  exempt: boolean;
 }
 
 export interface Label {
@@ -103,3 +553,19 @@ export interface User {
 export interface IssueWithComments extends Issue {
   comments: IssueComment[];
 }
+
+/**
+ * Source of the current time, so runs can be evaluated at any moment
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Where progress and failures are reported; `console` is one
+ */
+export interface Logger {
+  log(...data: unknown[]): void;
+  warn(...data: unknown[]): void;
+  error(...data: unknown[]): void;
+}
@@ -0,0 +1,259 @@
+import { assert, assertEquals } from "@std/assert";
+import { resolveConfig } from "./config.ts";
+import { createContext } from "./context.ts";
+import { GitHubClient } from "./github-api.ts";
+import { signPayload } from "./hooks.ts";
+import { formatMarker } from "./state-machine.ts";
+import { serveWebhooks, verifySignature } from "./webhook.ts";
+import { Issue, IssueComment } from "./types.ts";
+
+const config = resolveConfig({
+  GITHUB_TOKEN: "test-token",
+  REPOSITORIES: ["acme/qa"],
+  DATA_SOURCE: "rest",
+  ACTIVITY_TYPES: ["create", "comment", "label"],
+  RETENTION_HOURS: 48,
+  INACTIVITY_THRESHOLD_HOURS: 24,
+});
+
+const SECRET = "webhook-secret";
+const BOT = "github-actions[bot]";
+
+const hoursAgo = (hours: number): string => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+/**
+ * Client serving issues from memory and recording every write
+ */
+class FakeGitHub extends GitHubClient {
+  issues = new Map<number, Issue>();
+  writes: string[] = [];
+
+  constructor() {
+    super("test-token", "acme", "qa");
+  }
+
+  override getIssue(issueNumber: number): Promise<Issue> {
+    const issue = this.issues.get(issueNumber);
+    if (!issue) return Promise.reject(new Error(`GitHub API error: 404 Not Found`));
+    const { comments: _, ...rest } = issue;
+    return Promise.resolve({ ...rest, repository: this.repository });
+  }
+
+  override listComments(issueNumber: number): Promise<IssueComment[]> {
+    return Promise.resolve(this.issues.get(issueNumber)?.comments ?? []);
+  }
+
+  override listTimeline(): Promise<never[]> {
+    return Promise.resolve([]);
+  }
+
+  override listReactions(): Promise<never[]> {
+    return Promise.resolve([]);
+  }
+
+  override createComment(issueNumber: number, body: string): Promise<void> {
+    this.writes.push(`${this.repository}#${issueNumber} comment: ${body.split("\n")[0]}`);
+    return Promise.resolve();
+  }
+
+  override addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    this.writes.push(`${this.repository}#${issueNumber} add labels: ${labels.join(", ")}`);
+    return Promise.resolve();
+  }
+
+  override removeLabel(issueNumber: number, label: string): Promise<void> {
+    this.writes.push(`${this.repository}#${issueNumber} remove label: ${label}`);
+    return Promise.resolve();
+  }
+
+  override updateIssue(issueNumber: number, data: { state?: "open" | "closed" }): Promise<void> {
+    this.writes.push(`${this.repository}#${issueNumber} state: ${data.state}`);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * A warned QA instance with the given comments added after the warning
+ */
+const warnedInstance = (labels: string[], ...comments: IssueComment[]): Issue => ({
+  number: 42,
+  title: "QA-Instance ready: checkout-7f3a",
+  state: "open",
+  created_at: hoursAgo(100),
+  updated_at: hoursAgo(1),
+  body: "Environment: https://checkout-7f3a.qa.acme.dev",
+  user: { login: "alice" },
+  labels: labels.map(name => ({ name })),
+  comments: [
+    {
+      id: 3100000001,
+      created_at: hoursAgo(10),
+      user: { login: BOT },
+      body: `This instance will be closed soon.\n${formatMarker("warned", new Date(hoursAgo(10)))}`,
+    },
+    ...comments,
+  ],
+});
+
+const loadFixture = async (name: string): Promise<Record<string, unknown>> =>
+  JSON.parse(await Deno.readTextFile(new URL(`./fixtures/webhooks/${name}.json`, import.meta.url)));
+
+/**
+ * Starts a webhook server on a free port, runs `fn` against it and shuts it down
+ */
+async function withServer(github: FakeGitHub, fn: (url: string) => Promise<void>): Promise<void> {
+  const controller = new AbortController();
+  const ctx = await createContext({ config, client: github, logger: { log() {}, warn() {}, error() {} } });
+  const server = serveWebhooks(ctx, { port: 0, hostname: "127.0.0.1", secret: SECRET, signal: controller.signal });
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}/`);
+  } finally {
+    controller.abort();
+    await server.finished;
+  }
+}
+
+/**
+ * Posts a payload signed with the webhook secret, like GitHub does
+ */
+async function deliver(
+  url: string,
+  event: string,
+  payload: unknown,
+  signature?: string,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const body = JSON.stringify(payload);
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-github-event": event,
+      "x-github-delivery": crypto.randomUUID(),
+      "x-hub-signature-256": signature ?? await signPayload(body, SECRET),
+    },
+    body,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test("verifySignature accepts only the HMAC of the exact body", async () => {
+  const signature = await signPayload('{"zen":"hi"}', SECRET);
+  assert(await verifySignature('{"zen":"hi"}', signature, SECRET));
+  assert(!await verifySignature('{"zen":"hi!"}', signature, SECRET));
+  assert(!await verifySignature('{"zen":"hi"}', signature, "other-secret"));
+  assert(!await verifySignature('{"zen":"hi"}', null, SECRET));
+});
+
+Deno.test("webhook server rejects unsigned deliveries and answers pings", async () => {
+  const github = new FakeGitHub();
+  await withServer(github, async url => {
+    const ping = await loadFixture("ping");
+    assertEquals((await deliver(url, "ping", ping, "sha256=0000")).status, 401);
+    assertEquals(await deliver(url, "ping", ping), { status: 200, body: { status: "pong" } });
+  });
+  assertEquals(github.writes, []);
+});
+
+Deno.test("a new comment on a warned instance removes the warning", async () => {
+  const github = new FakeGitHub();
+  github.issues.set(42, warnedInstance(["retention-warning"], {
+    id: 3100000002,
+    created_at: hoursAgo(0.1),
+    user: { login: "alice" },
+    body: "bump",
+  }));
+
+  await withServer(github, async url => {
+    const { status, body } = await deliver(url, "issue_comment", await loadFixture("issue_comment.created"));
+    assertEquals(status, 200);
+    assertEquals(body.warningRemoved, true);
+  });
+  assertEquals(github.writes, ["acme/qa#42 remove label: retention-warning"]);
+});
+
+Deno.test("a ChatOps command is acknowledged and /release closes the instance", async () => {
+  const github = new FakeGitHub();
+  github.issues.set(42, warnedInstance(["retention-warning"], {
+    id: 3100000002,
+    created_at: hoursAgo(0.1),
+    user: { login: "alice" },
+    body: "/release",
+  }));
+  const payload = await loadFixture("issue_comment.created");
+  (payload.comment as { body: string }).body = "/release";
+
+  await withServer(github, async url => {
+    const { status, body } = await deliver(url, "issue_comment", payload);
+    assertEquals(status, 200);
+    assertEquals(body.commands, 1);
+    assertEquals(body.released, true);
+  });
+  assertEquals(github.writes.length, 3);
+  assert(github.writes.some(w => w === "acme/qa#42 state: closed"));
+});
+
+Deno.test("an exemption label removes the warning", async () => {
+  const github = new FakeGitHub();
+  github.issues.set(42, warnedInstance(["retention-warning", "do-not-expire"]));
+
+  await withServer(github, async url => {
+    const { status, body } = await deliver(url, "issues", await loadFixture("issues.labeled"));
+    assertEquals(status, 200);
+    assertEquals(body.warningRemoved, true);
+  });
+  assertEquals(github.writes, ["acme/qa#42 remove label: retention-warning"]);
+});
+
+Deno.test("a reopened instance without pending changes is left alone", async () => {
+  const github = new FakeGitHub();
+  github.issues.set(42, { ...warnedInstance([]), comments: [] });
+
+  await withServer(github, async url => {
+    const { status, body } = await deliver(url, "issues", await loadFixture("issues.reopened"));
+    assertEquals(status, 200);
+    assertEquals(body.commands, 0);
+    assertEquals(body.warningRemoved, false);
+  });
+  assertEquals(github.writes, []);
+});
+
+Deno.test("a /release from before a reopen doesn't close the reopened instance", async () => {
+  const github = new FakeGitHub();
+  // Released, then closed by hand before the retention check got to it, and now reopened
+  const release: IssueComment = { id: 7, created_at: hoursAgo(30), user: { login: "bob" }, body: "/release" };
+  const ack: IssueComment = {
+    id: 8,
+    created_at: hoursAgo(30),
+    user: { login: BOT },
+    body: "> /release\n\n✅ @bob released.\n<!-- retention-ack:7 -->",
+  };
+  github.issues.set(42, { ...warnedInstance([]), comments: [release, ack] });
+
+  await withServer(github, async url => {
+    const { status, body } = await deliver(url, "issues", await loadFixture("issues.reopened"));
+    assertEquals(status, 200);
+    assertEquals(body.released, false);
+  });
+  assertEquals(github.writes, []);
+});
+
+Deno.test("events from the bot, other repositories and other issues are ignored", async () => {
+  const github = new FakeGitHub();
+  github.issues.set(42, { ...warnedInstance([]), title: "Flaky test in checkout" });
+  const payload = await loadFixture("issue_comment.created");
+
+  await withServer(github, async url => {
+    const fromBot = { ...payload, sender: { login: BOT } };
+    assertEquals((await deliver(url, "issue_comment", fromBot)).status, 202);
+
+    const otherRepo = { ...payload, repository: { name: "web", full_name: "acme/web" } };
+    assertEquals((await deliver(url, "issue_comment", otherRepo)).status, 202);
+
+    const { status, body } = await deliver(url, "issue_comment", payload);
+    assertEquals(status, 202);
+    assertEquals(body.reason, "acme/qa#42 is not an open QA instance");
+
+    assertEquals((await deliver(url, "issue_comment", { ...payload, action: "deleted" })).status, 202);
+  });
+  assertEquals(github.writes, []);
+});
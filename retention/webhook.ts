@@ -0,0 +1,182 @@
+import { forRepository, RetentionContext } from "./context.ts";
+import { DryRunGitHubClient, printPlan } from "./dry-run.ts";
+import { signPayload } from "./hooks.ts";
+import { toNotifiedIssue } from "./notifier.ts";
+import { getQAInstanceWithComments } from "./issues-api.ts";
+import { isScannedRepository } from "./repositories.ts";
+import { evaluateIssue } from "./retention.ts";
+
+/**
+ * Events and actions that can change the state of an issue right away
+ */
+const HANDLED_EVENTS: Record<string, string[]> = {
+  issue_comment: ["created", "edited"],
+  issues: ["labeled", "reopened"],
+};
+
+/**
+ * The parts of a webhook payload used here
+ */
+interface WebhookPayload {
+  action?: string;
+  issue?: { number: number };
+  repository?: { name: string; full_name: string; topics?: string[]; archived?: boolean };
+  sender?: { login: string };
+}
+
+/**
+ * Evaluations in progress by issue, so events for the same issue are handled one at a time
+ */
+const inProgress = new Map<string, Promise<unknown>>();
+
+const json = (status: number, body: Record<string, unknown>): Response => Response.json(body, { status });
+
+/**
+ * Checks the `X-Hub-Signature-256` header against the HMAC of the body, in constant time
+ */
+export async function verifySignature(body: string, signature: string | null, secret: string): Promise<boolean> {
+  if (!signature) return false;
+  const expected = await signPayload(body, secret);
+  if (expected.length !== signature.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Runs `fn` once earlier evaluations of the same issue have finished
+ */
+async function serialize<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = inProgress.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(fn);
+  inProgress.set(key, current);
+  try {
+    return await current;
+  } finally {
+    if (inProgress.get(key) === current) inProgress.delete(key);
+  }
+}
+
+/**
+ * Creates a request handler for GitHub webhooks. Comments, labels and reopens on a QA instance
+ * re-evaluate that issue: new commands are answered, released instances closed and warnings
+ * taken back.
+ */
+export function createWebhookHandler(
+  ctx: RetentionContext,
+  secret: string,
+): (request: Request) => Promise<Response> {
+  const { config, logger, notifier } = ctx;
+  return async request => {
+    if (request.method !== "POST") {
+      return json(405, { error: "Method not allowed" });
+    }
+
+    const body = await request.text();
+    if (!await verifySignature(body, request.headers.get("x-hub-signature-256"), secret)) {
+      return json(401, { error: "Invalid signature" });
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return json(400, { error: "Invalid JSON payload" });
+    }
+
+    const event = request.headers.get("x-github-event") ?? "";
+    if (event === "ping") {
+      return json(200, { status: "pong" });
+    }
+
+    const { action, issue, repository, sender } = payload;
+    if (!HANDLED_EVENTS[event]?.includes(action ?? "") || !issue || !repository) {
+      return json(202, { status: "ignored", reason: `${event}.${action} is not handled` });
+    }
+    // Our own comments trigger events as well
+    if (sender?.login === config.BOT_USERNAME) {
+      return json(202, { status: "ignored", reason: "event sent by the bot" });
+    }
+
+    const scanned = isScannedRepository(
+      { fullName: repository.full_name, name: repository.name, topics: repository.topics ?? [], archived: repository.archived ?? false },
+      config.REPOSITORIES,
+      config.ORG_SCAN,
+    );
+    if (!scanned) {
+      return json(202, { status: "ignored", reason: `${repository.full_name} is not scanned` });
+    }
+
+    const ref = `${repository.full_name}#${issue.number}`;
+    logger.log(`📨 ${event}.${action} on ${ref}`);
+    try {
+      const issueCtx = forRepository(ctx, repository.full_name);
+      const { client } = issueCtx;
+      return await serialize(ref, async () => {
+        const current = await getQAInstanceWithComments(issueCtx, issue.number);
+        if (!current) {
+          return json(202, { status: "ignored", reason: `${ref} is not an open QA instance` });
+        }
+
+        // The timeline is only fetched for some ACTIVITY_TYPES, so the reopen is recorded from the
+        // event itself: commands from before it are meant for the instance's earlier life
+        if (event === "issues" && action === "reopened") {
+          current.events = [
+            ...(current.events ?? []),
+            { event: "reopened", created_at: ctx.clock.now().toISOString(), actor: { login: sender?.login ?? "" } },
+          ];
+        }
+
+        const planned = client instanceof DryRunGitHubClient ? client.plan.length : 0;
+        const result = await evaluateIssue(issueCtx, current);
+        if (client instanceof DryRunGitHubClient) {
+          printPlan(client.plan.slice(planned), logger);
+        }
+        const failed = [...result.commands, ...(result.released ? [result.released] : [])].filter(r => !r.success);
+        failed.forEach(r => logger.error(`Failed to update ${ref}:`, r.error));
+        if (result.released?.success) {
+          await notifier.notify({ event: "close", issue: toNotifiedIssue(current, repository.full_name), reason: "release" });
+        }
+        if (failed.length > 0) {
+          await notifier.notify({ event: "failure", repository: repository.full_name, errors: failed.map(r => `#${issue.number}: ${r.error}`) });
+        }
+        logger.log(`✓ ${ref}: ${result.commands.length} commands answered` +
+          (result.warningRemoved ? ", warning removed" : "") + (result.released?.success ? ", closed after /release" : ""));
+
+        return json(failed.length > 0 ? 500 : 200, {
+          status: "processed",
+          issue: ref,
+          commands: result.commands.length,
+          warningRemoved: result.warningRemoved,
+          released: result.released?.success ?? false,
+          errors: failed.map(r => r.error),
+        });
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`❌ Failed to process ${event}.${action} on ${ref}:`, message);
+      return json(500, { error: message });
+    }
+  };
+}
+
+/**
+ * Starts the webhook server
+ */
+export function serveWebhooks(
+  ctx: RetentionContext,
+  options: { port: number; hostname?: string; secret: string; signal?: AbortSignal },
+): Deno.HttpServer<Deno.NetAddr> {
+  return Deno.serve(
+    {
+      port: options.port,
+      hostname: options.hostname,
+      signal: options.signal,
+      onListen: ({ hostname, port }) => ctx.logger.log(`👂 Listening for GitHub webhooks on http://${hostname}:${port}`),
+    },
+    createWebhookHandler(ctx, options.secret),
+  );
+}